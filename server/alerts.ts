@@ -0,0 +1,382 @@
+import { randomUUID } from "crypto";
+import { ALERT_RULE_KINDS, ALERT_RULE_KIND_DETAILS, NOTIFIER_CHANNELS, NOTIFIER_CHANNEL_LABELS, describeAlertRule } from "../shared/alerts.js";
+import type { Alert, AlertDelivery, AlertRule, AlertRuleInput, AlertRuleKind, NotifierChannel } from "../shared/alerts.js";
+import { normalizePrioritySupport } from "../shared/customer-query.js";
+import type { CetecCustomer } from "../shared/customer.js";
+import type { createStorage } from "./storage/index.js";
+import type { createCustomerDirectory } from "./customers.js";
+import type { createBackupJobTracker } from "./backup-jobs.js";
+import type { Notification, Notifiers } from "./notifiers/index.js";
+
+const MAX_NAME_LENGTH = 80;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export class AlertError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AlertError';
+    this.status = status;
+  }
+}
+
+
+// The latest pull for a customer, as the job tracker or the pull history has it
+interface LatestPull {
+  state: string;
+  requestedAt: string | null;
+  createdAt?: string;
+  requestedBy: string | null;
+  error: string | null;
+  environmentStatus: string | null;
+}
+
+const FAILED_PULL_STATES = new Set(['failed', 'timed_out']);
+const FINISHED_PULL_STATES = new Set(['ready', 'failed', 'timed_out', 'cancelled']);
+
+function validateRule(input: AlertRuleInput, existing?: AlertRule) {
+  const name = input.name !== undefined ? String(input.name ?? '').trim() : existing?.name;
+  if (!name) {
+    throw new AlertError('Name is required');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new AlertError(`Name may be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const kind = (input.kind ?? existing?.kind) as AlertRuleKind;
+  if (!ALERT_RULE_KINDS.includes(kind)) {
+    throw new AlertError(`Kind must be one of: ${ALERT_RULE_KINDS.join(', ')}`);
+  }
+
+  const { min, max, unit } = ALERT_RULE_KIND_DETAILS[kind];
+  const threshold = input.threshold ?? existing?.threshold;
+  if (typeof threshold !== 'number' || !Number.isInteger(threshold) || threshold < min || threshold > max) {
+    throw new AlertError(`Threshold must be a whole number of ${unit} between ${min} and ${max}`);
+  }
+
+  let prioritySupport = existing ? existing.priority_support : null;
+  if (input.priority_support !== undefined) {
+    prioritySupport = input.priority_support ? normalizePrioritySupport(input.priority_support) : null;
+    if (input.priority_support && !prioritySupport) {
+      throw new AlertError('Support tier must be Lite, Standard or Enterprise');
+    }
+  }
+
+  const channels = input.channels ?? existing?.channels ?? [];
+  if (!Array.isArray(channels) || channels.length === 0 || channels.some(channel => !NOTIFIER_CHANNELS.includes(channel))) {
+    throw new AlertError(`Channels must be some of: ${NOTIFIER_CHANNELS.join(', ')}`);
+  }
+
+  return {
+    name,
+    kind,
+    threshold,
+    priority_support: prioritySupport,
+    channels: Array.from(new Set(channels)),
+    enabled: input.enabled !== undefined ? input.enabled !== false : existing?.enabled ?? true
+  };
+}
+
+const formatDate = (timestamp: string) => new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+
+function describeStaleBackup(rule: AlertRule, lastPulled: string | null, now: number): string | null {
+  if (!lastPulled) {
+    return 'Never pulled';
+  }
+  const age = now - new Date(lastPulled).getTime();
+  return age > rule.threshold * DAY_MS
+    ? `Last pulled ${Math.floor(age / DAY_MS)} days ago (${formatDate(lastPulled)})`
+    : null;
+}
+
+// A pull that failed or timed out alerts straight away; one still running
+// alerts once it has been going longer than the threshold
+function describePullNotReady(rule: AlertRule, pull: LatestPull | null, now: number): string | null {
+  if (!pull) {
+    return null;
+  }
+  const requestedAt = pull.requestedAt || pull.createdAt || null;
+  const by = pull.requestedBy ? ` by ${pull.requestedBy}` : '';
+  const when = requestedAt ? ` at ${formatDate(requestedAt)}` : '';
+  const environment = pull.environmentStatus ? `; the devel environment last answered ${pull.environmentStatus}` : '';
+
+  if (FAILED_PULL_STATES.has(pull.state)) {
+    return `The pull requested${by}${when} ${pull.state === 'timed_out' ? 'timed out' : 'failed'}${pull.error ? `: ${pull.error}` : ''}${environment}`;
+  }
+  if (!FINISHED_PULL_STATES.has(pull.state) && requestedAt) {
+    const minutes = Math.floor((now - new Date(requestedAt).getTime()) / MINUTE_MS);
+    if (minutes > rule.threshold) {
+      return `The pull requested${by}${when} is still ${pull.state} after ${minutes} minutes${environment}`;
+    }
+  }
+  return null;
+}
+
+function toNotification(alert: Alert, event: 'opened' | 'resolved'): Notification {
+  const customer = `${alert.customerName} (#${alert.customerId})`;
+  return event === 'opened'
+    ? { event, title: `${alert.ruleName}: ${customer}`, text: alert.message, alert }
+    : { event, title: `Resolved – ${alert.ruleName}: ${customer}`, text: `No longer matches since ${formatDate(alert.resolvedAt!)}. It was: ${alert.message}`, alert };
+}
+
+// Alert rules and the checks behind them. Every `interval`, each enabled rule
+// is checked against every customer a backup could be pulled for. A customer
+// that starts matching a rule opens an alert and notifies the rule's
+// channels; it resolves, with another notification, once it stops matching.
+// Nothing is sent again while an alert stays open.
+export function createAlertMonitor({
+  storage,
+  customers,
+  backupJobs,
+  notifiers,
+  interval = 15 * MINUTE_MS,
+  onAlertChanged
+}: {
+  storage: ReturnType<typeof createStorage>;
+  customers: ReturnType<typeof createCustomerDirectory>;
+  backupJobs: ReturnType<typeof createBackupJobTracker>;
+  notifiers: Notifiers;
+  interval?: number;
+  onAlertChanged?: (alert: Alert) => void;
+}) {
+  const rules = new Map<string, AlertRule>();
+  // Open alerts by rule and customer
+  const openAlerts = new Map<string, Alert>();
+  let checkInterval = interval;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<{ opened: Alert[]; resolved: Alert[] }> | null = null;
+
+  const alertKey = (ruleId: string, customerId: string | number) => `${ruleId}:${customerId}`;
+
+  async function load() {
+    rules.clear();
+    openAlerts.clear();
+    (await storage.listAlertRules()).forEach(rule => rules.set(rule.id, rule));
+    (await storage.listAlerts({ openOnly: true })).forEach(alert => openAlerts.set(alertKey(alert.ruleId, alert.customerId), alert));
+  }
+
+  function configuredChannels(): NotifierChannel[] {
+    return NOTIFIER_CHANNELS.filter(channel => notifiers[channel]);
+  }
+
+  async function deliver(channels: NotifierChannel[], notification: Notification): Promise<AlertDelivery[]> {
+    const event = notification.event === 'resolved' ? 'resolved' : 'opened';
+    return Promise.all(channels.map(async (channel): Promise<AlertDelivery> => {
+      const notifier = notifiers[channel];
+      const at = new Date().toISOString();
+      if (!notifier) {
+        return { channel, event, ok: false, error: `${NOTIFIER_CHANNEL_LABELS[channel]} notifications are not configured`, at };
+      }
+      try {
+        await notifier.send(notification);
+        return { channel, event, ok: true, error: null, at };
+      } catch (error) {
+        console.error(`[ALERTS] ${NOTIFIER_CHANNEL_LABELS[channel]} notification failed:`, error);
+        return { channel, event, ok: false, error: (error as Error).message, at };
+      }
+    }));
+  }
+
+  // Customers with no domain, ITAR customers and resident customers without
+  // a mapped database can't be pulled, so no rule applies to them
+  function canBePulled(customer: CetecCustomer) {
+    const staticStatus = customers.getStaticEnvironmentStatus(customer);
+    return staticStatus === null || staticStatus.state === 'resident_hosting';
+  }
+
+  async function findMatches() {
+    const enabled = Array.from(rules.values()).filter(rule => rule.enabled);
+    const matches = new Map<string, { rule: AlertRule; customer: CetecCustomer; message: string }>();
+    if (enabled.length === 0) {
+      return matches;
+    }
+
+    const { customers: list } = await customers.listCustomers();
+    const lastPulledTimes: Record<string, string> = await storage.getLastPulledTimes();
+    const latestPulls = new Map<string, LatestPull | null>();
+    const now = Date.now();
+
+    async function getLatestPull(customerId: string | number): Promise<LatestPull | null> {
+      const key = String(customerId);
+      if (!latestPulls.has(key)) {
+        const [job] = backupJobs.listJobs({ customerId });
+        latestPulls.set(key, job || ((await storage.getPullHistory(customerId)).history[0] ?? null));
+      }
+      return latestPulls.get(key)!;
+    }
+
+    for (const customer of list.filter(canBePulled)) {
+      const tier = normalizePrioritySupport(customer.priority_support);
+      for (const rule of enabled) {
+        if (rule.priority_support && rule.priority_support !== tier) {
+          continue;
+        }
+        const message = rule.kind === 'stale_backup'
+          ? describeStaleBackup(rule, lastPulledTimes[String(customer.id)] || null, now)
+          : describePullNotReady(rule, await getLatestPull(customer.id), now);
+        if (message) {
+          matches.set(alertKey(rule.id, customer.id), { rule, customer, message });
+        }
+      }
+    }
+    return matches;
+  }
+
+  async function runCheck() {
+    const matches = await findMatches();
+    const opened: Alert[] = [];
+    const resolved: Alert[] = [];
+
+    for (const [key, { rule, customer, message }] of matches) {
+      if (openAlerts.has(key)) {
+        continue;
+      }
+      const alert: Alert = {
+        id: randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        kind: rule.kind,
+        customerId: String(customer.id),
+        customerName: customer.name,
+        message,
+        openedAt: new Date().toISOString(),
+        resolvedAt: null,
+        deliveries: []
+      };
+      alert.deliveries = await deliver(rule.channels, toNotification(alert, 'opened'));
+      openAlerts.set(key, alert);
+      await storage.saveAlert(alert);
+      opened.push(alert);
+    }
+
+    for (const [key, alert] of openAlerts) {
+      if (matches.has(key)) {
+        continue;
+      }
+      alert.resolvedAt = new Date().toISOString();
+      // Alerts of a rule that was switched off resolve quietly
+      const rule = rules.get(alert.ruleId);
+      if (rule && rule.enabled) {
+        alert.deliveries.push(...await deliver(rule.channels, toNotification(alert, 'resolved')));
+      }
+      openAlerts.delete(key);
+      await storage.saveAlert(alert);
+      resolved.push(alert);
+    }
+
+    [...opened, ...resolved].forEach(alert => onAlertChanged?.({ ...alert }));
+    if (opened.length > 0 || resolved.length > 0) {
+      console.log(`[ALERTS] ${opened.length} opened, ${resolved.length} resolved`);
+    }
+    return { opened, resolved };
+  }
+
+  // Checks that overlap share the one already running
+  function check() {
+    if (!running) {
+      running = runCheck().finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  }
+
+  function schedule() {
+    clearInterval(timer ?? undefined);
+    timer = setInterval(() => {
+      check().catch(error => console.error('[ALERTS] Check failed:', error));
+    }, checkInterval);
+  }
+
+  async function start() {
+    schedule();
+    await check().catch(error => console.error('[ALERTS] Check failed:', error));
+  }
+
+  function stop() {
+    clearInterval(timer ?? undefined);
+    timer = null;
+  }
+
+  function configure({ interval: nextInterval }: { interval?: number }) {
+    if (nextInterval && nextInterval !== checkInterval) {
+      checkInterval = nextInterval;
+      if (timer) {
+        schedule();
+      }
+    }
+  }
+
+  function listRules(): AlertRule[] {
+    return Array.from(rules.values())
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+      .map(rule => ({ ...rule }));
+  }
+
+  function getRule(id: string): AlertRule {
+    const rule = rules.get(id);
+    if (!rule) {
+      throw new AlertError('Alert rule not found', 404);
+    }
+    return rule;
+  }
+
+  async function createRule(input: AlertRuleInput, createdBy: string | null): Promise<AlertRule> {
+    const now = new Date().toISOString();
+    const rule: AlertRule = { id: randomUUID(), ...validateRule(input), createdBy, createdAt: now, updatedAt: now };
+    await storage.saveAlertRule(rule);
+    rules.set(rule.id, rule);
+    return { ...rule };
+  }
+
+  async function updateRule(id: string, input: AlertRuleInput): Promise<AlertRule> {
+    const existing = getRule(id);
+    const rule: AlertRule = { ...existing, ...validateRule(input, existing), updatedAt: new Date().toISOString() };
+    await storage.saveAlertRule(rule);
+    rules.set(id, rule);
+    return { ...rule };
+  }
+
+  async function removeRule(id: string): Promise<AlertRule> {
+    const rule = getRule(id);
+    await storage.deleteAlertRule(id);
+    rules.delete(id);
+    Array.from(openAlerts.keys())
+      .filter(key => openAlerts.get(key)!.ruleId === id)
+      .forEach(key => openAlerts.delete(key));
+    return { ...rule };
+  }
+
+  // Sends a made-up notification through a rule's channels, so a new webhook
+  // or mail setting can be tried without waiting for a real alert
+  async function testRule(id: string): Promise<AlertDelivery[]> {
+    const rule = getRule(id);
+    return deliver(rule.channels, {
+      event: 'test',
+      title: `Test: ${rule.name}`,
+      text: `A test notification for the rule "${describeAlertRule(rule)}". No customer matched anything.`,
+      alert: null
+    });
+  }
+
+  async function listAlerts(): Promise<Alert[]> {
+    return storage.listAlerts({ limit: 200 });
+  }
+
+  return {
+    load,
+    start,
+    stop,
+    configure,
+    check,
+    configuredChannels,
+    listRules,
+    createRule,
+    updateRule,
+    removeRule,
+    testRule,
+    listAlerts
+  };
+}
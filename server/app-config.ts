@@ -0,0 +1,96 @@
+import { applyAppConfigChanges, diffAppConfig } from "../shared/app-config.js";
+import type { AppConfig } from "../shared/app-config.js";
+import type { createStorage } from "./storage/index.js";
+
+const APP_CONFIG_SETTING = 'app_config';
+
+export class AppConfigError extends Error {
+  status: number;
+  errors: string[];
+
+  constructor(errors: string[], status = 400) {
+    super(errors.join('; '));
+    this.name = 'AppConfigError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+// The settings admins can change while the server runs. Only values that
+// differ from the defaults are stored, so a changed default (or environment
+// variable) still applies to everything nobody has overridden.
+export function createAppConfig({
+  storage,
+  defaults,
+  onChange
+}: {
+  storage: ReturnType<typeof createStorage>;
+  defaults: AppConfig;
+  onChange?: (config: AppConfig, changed: string[]) => void;
+}) {
+  let config = structuredClone(defaults);
+
+  function toOverrides(next: AppConfig) {
+    const overrides: Record<string, Record<string, unknown>> = {};
+    diffAppConfig(defaults, next).forEach(path => {
+      const [section, key] = path.split('.');
+      overrides[section] = { ...overrides[section], [key]: (next[section as keyof AppConfig] as Record<string, unknown>)[key] };
+    });
+    return overrides;
+  }
+
+  // Stored values that no longer pass the schema are dropped with a warning
+  // rather than keeping the server from starting.
+  async function load() {
+    const overrides = await storage.getSetting(APP_CONFIG_SETTING);
+    if (!overrides) {
+      config = structuredClone(defaults);
+      return config;
+    }
+
+    let loaded = structuredClone(defaults);
+    Object.entries(overrides as Record<string, Record<string, unknown>>).forEach(([section, values]) => {
+      Object.entries(values || {}).forEach(([key, value]) => {
+        const { config: next, errors } = applyAppConfigChanges(loaded, { [section]: { [key]: value } });
+        if (errors.length > 0) {
+          console.warn(`[CONFIG] Ignoring stored setting: ${errors.join('; ')}`);
+        }
+        loaded = next;
+      });
+    });
+    config = loaded;
+    return config;
+  }
+
+  function get(): AppConfig {
+    return structuredClone(config);
+  }
+
+  function getDefaults(): AppConfig {
+    return structuredClone(defaults);
+  }
+
+  async function update(changes: unknown): Promise<{ config: AppConfig; changed: string[] }> {
+    const { config: next, errors } = applyAppConfigChanges(config, changes);
+    if (errors.length > 0) {
+      throw new AppConfigError(errors);
+    }
+
+    const changed = diffAppConfig(config, next);
+    if (changed.length > 0) {
+      await storage.setSetting(APP_CONFIG_SETTING, toOverrides(next));
+      config = next;
+      if (onChange) {
+        onChange(get(), changed);
+      }
+    }
+    return { config: get(), changed };
+  }
+
+  return {
+    load,
+    get,
+    getDefaults,
+    update
+  };
+}
@@ -0,0 +1,335 @@
+import express from "express";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createBackupJobTracker } from "./backup-jobs.js";
+import { createBackupProvider } from "./backup-providers/index.js";
+import { createStorage, importLegacyJsonData } from "./storage/index.js";
+import { createAuthProvider, createSessionManager, hasPermission, PERMISSIONS } from "./auth/index.js";
+import { createAuditLog } from "./audit.js";
+import { createEventStream, EVENT_TYPES } from "./events.js";
+import { createEnvironmentMonitor } from "./environment-monitor.js";
+import { createBackupScheduler } from "./schedules.js";
+import type { Schedule, ScheduleRunOutcome } from "./schedules.js";
+import { DEFAULT_DEVEL_URL_TEMPLATE } from "./login-links.js";
+import { createCustomerDirectory } from "./customers.js";
+import { createResidentDatabases } from "./resident-databases.js";
+import { createAppConfig } from "./app-config.js";
+import { createDevelEnvironments, toEnvironmentStatus } from "./devel-environments.js";
+import type { CachedEnvironmentStatus } from "./devel-environments.js";
+import { createPullRecorder } from "./pull-history.js";
+import { createPullRequester } from "./pull-requests.js";
+import { createSavedViews } from "./saved-views.js";
+import { createAlertMonitor } from "./alerts.js";
+import { createNotifiers } from "./notifiers/index.js";
+import { createAuthRoutes } from "./routes/auth.js";
+import { createCustomerRoutes } from "./routes/customers.js";
+import { createBackupRoutes } from "./routes/backups.js";
+import { createScheduleRoutes } from "./routes/schedules.js";
+import { createEnvironmentRoutes } from "./routes/environments.js";
+import { createAuditRoutes } from "./routes/audit.js";
+import { createConfigRoutes } from "./routes/config.js";
+import { createResidentDatabaseRoutes } from "./routes/resident-databases.js";
+import { createSavedViewRoutes } from "./routes/saved-views.js";
+import { createAlertRoutes } from "./routes/alerts.js";
+import { isFlagSet } from "../shared/customer.js";
+import { applyAppConfigChanges, DEFAULT_APP_CONFIG } from "../shared/app-config.js";
+import type { AppConfig } from "../shared/app-config.js";
+import type { Alert } from "../shared/alerts.js";
+import type { ServerContext, SessionUser } from "./types.js";
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// The environment variables that used to fix these settings now only set
+// their defaults; admins can change them from the Settings page.
+function buildDefaultAppConfig(): AppConfig {
+  const validation: Record<string, number> = {};
+  if (process.env.VALIDATION_INTERVAL_MINUTES) {
+    validation.intervalMinutes = Number(process.env.VALIDATION_INTERVAL_MINUTES);
+  }
+  if (process.env.VALIDATION_CONCURRENCY) {
+    validation.concurrency = Number(process.env.VALIDATION_CONCURRENCY);
+  }
+
+  const { config, errors } = applyAppConfigChanges(DEFAULT_APP_CONFIG, { validation });
+  if (errors.length > 0) {
+    console.warn(`[CONFIG] Ignoring environment settings: ${errors.join('; ')}`);
+  }
+  return config;
+}
+
+// Builds the app and everything behind it from process.env. Nothing starts
+// running until initialize() and startBackgroundWork() are called, so tests
+// can build a fresh server per file and exercise the routes without timers or
+// probes running.
+export function createServer() {
+  const requiredEnvVars = ['API_URL', 'PRESHARED_TOKEN'];
+  const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName]);
+
+  if (missingEnvVars.length > 0) {
+    console.warn(`Warning: Missing environment variables: ${missingEnvVars.join(', ')}`);
+    console.warn('Server will start with default values, but some features may not work properly.');
+  }
+
+  const develUrlTemplate = process.env.DEVEL_URL_TEMPLATE || DEFAULT_DEVEL_URL_TEMPLATE;
+
+  const storage = createStorage({
+    driver: process.env.STORAGE_DRIVER || 'sqlite',
+    sqlitePath: process.env.STORAGE_SQLITE_PATH || path.join(ROOT_DIR, 'data', 'backup-tool.db')
+  });
+
+  const audit = createAuditLog({
+    storage: storage,
+    retentionDays: Number(process.env.AUDIT_RETENTION_DAYS || 365)
+  });
+
+  const events = createEventStream();
+
+  const appConfig = createAppConfig({
+    storage: storage,
+    defaults: buildDefaultAppConfig(),
+    onChange: (config: AppConfig) => {
+      applyAppConfig(config);
+      events.publish(EVENT_TYPES.CONFIG, config);
+    }
+  });
+  const initialConfig = appConfig.get();
+
+  const authProvider = createAuthProvider({
+    provider: process.env.AUTH_PROVIDER || 'local',
+    usersFile: process.env.AUTH_USERS_FILE || path.join(ROOT_DIR, 'data', 'users.json')
+  });
+
+  const sessions = createSessionManager({
+    storage: storage,
+    authProvider: authProvider,
+    ttlMs: Number(process.env.AUTH_SESSION_TTL_HOURS || 12) * 60 * 60 * 1000,
+    secureCookies: process.env.AUTH_COOKIE_SECURE === 'true'
+  });
+
+  const residentDatabases = createResidentDatabases({
+    file: process.env.RESIDENT_DBS_FILE || path.join(ROOT_DIR, 'src', 'config', 'resident-dbs.json')
+  });
+
+  const customers = createCustomerDirectory({
+    apiUrl: process.env.API_URL || 'https://4-19-fifo.cetecerpdevel.com',
+    getPresharedToken: () => process.env.PRESHARED_TOKEN,
+    hasResidentDatabase: residentDatabases.has
+  });
+
+  const backupProvider = createBackupProvider({
+    provider: process.env.BACKUP_PROVIDER || 'getbackup',
+    getbackupUrl: process.env.GETBACKUP_URL || 'http://dev.cetecerpdevel.com:3399/getbackup',
+    techxPassword: process.env.TECHX_PASSWORD,
+    mock: {
+      minDelay: Number(process.env.MOCK_BACKUP_MIN_SECONDS || 20) * 1000,
+      maxDelay: Number(process.env.MOCK_BACKUP_MAX_SECONDS || 60) * 1000,
+      failureRate: Number(process.env.MOCK_BACKUP_FAILURE_RATE || 0.1),
+      requestFailureRate: Number(process.env.MOCK_BACKUP_REQUEST_FAILURE_RATE || 0)
+    }
+  });
+
+  const develEnvironments = createDevelEnvironments({
+    develUrlTemplate,
+    backupProvider,
+    hasResidentDatabase: residentDatabases.has,
+    probeTimeout: initialConfig.validation.probeTimeout * 1000
+  });
+
+  const pulls = createPullRecorder({ storage, audit, events });
+
+  const backupJobs = createBackupJobTracker({
+    storage: storage,
+    provider: backupProvider,
+    probeEnvironment: async job => {
+      const { state } = await environmentMonitor.checkCustomer({
+        id: job.customerId,
+        domain: job.domain,
+        residentHosting: job.residentHosting,
+        itarHosting: job.itarHosting
+      });
+      return state;
+    },
+    pollInterval: initialConfig.backups.pollInterval * 1000,
+    maxRestoreTime: initialConfig.backups.maxRestoreMinutes * 60 * 1000,
+    maxConcurrentRequests: Number(process.env.BACKUP_CONCURRENCY || 2),
+    maxAttempts: Number(process.env.BACKUP_MAX_ATTEMPTS || 3),
+    onJobUpdated: job => events.publish(EVENT_TYPES.JOB, job),
+    onJobFinished: pulls.appendPullHistory
+  });
+
+  const pullRequests = createPullRequester({ customers, residentDatabases, backupJobs, audit, pulls });
+
+  const savedViews = createSavedViews({ storage });
+
+  // Scheduled pulls run as the user who created the schedule, with that user's
+  // current role, through the same checks as a pull they clicked themselves.
+  async function runScheduledPull(schedule: Schedule): Promise<ScheduleRunOutcome> {
+    const owner: SessionUser | null = schedule.createdBy ? await authProvider.findUser(schedule.createdBy) : null;
+    if (!owner) {
+      return { error: `Schedule owner ${schedule.createdBy || '(unknown)'} no longer has an account` };
+    }
+    if (!hasPermission(owner, PERMISSIONS.PULL_BACKUP)) {
+      return { error: `${owner.username} is no longer allowed to pull backups` };
+    }
+
+    const { body } = await pullRequests.queueBackupPull({ user: owner, ip: null }, schedule.customerId, { scheduleId: schedule.id });
+    return body.job ? { job: body.job } : { error: body.error };
+  }
+
+  const scheduler = createBackupScheduler({
+    storage: storage,
+    runSchedule: runScheduledPull,
+    onScheduleChanged: schedule => {
+      events.publish(EVENT_TYPES.SCHEDULE, {
+        customerId: schedule.customerId,
+        nextScheduledPull: scheduler.getNextRunForCustomer(schedule.customerId)
+      });
+    }
+  });
+
+  const environmentMonitor = createEnvironmentMonitor({
+    storage: storage,
+    interval: initialConfig.validation.intervalMinutes * 60 * 1000,
+    concurrency: initialConfig.validation.concurrency,
+    listCustomers: async () => {
+      const cetecCustomers = await customers.fetchCustomers();
+      // Customers without a domain have a static status, so every one left has a domain
+      return cetecCustomers
+        .filter(customer => customers.getStaticEnvironmentStatus(customer) === null)
+        .map(customer => ({
+          id: customer.id,
+          domain: customer.domain as string,
+          residentHosting: isFlagSet(customer.resident_hosting),
+          itarHosting: isFlagSet(customer.itar_hosting_bc)
+        }));
+    },
+    probeEnvironment: develEnvironments.checkEnvironmentStatus,
+    onStatusChanged: (customerId: string | number, entry: CachedEnvironmentStatus) => {
+      events.publish(EVENT_TYPES.ENVIRONMENT, {
+        customerId: customerId,
+        domain: entry.domain,
+        environment: toEnvironmentStatus(entry)
+      });
+    }
+  });
+
+  // Channels without their settings are left out; rules naming them record
+  // the delivery as failed
+  const notifiers = createNotifiers({
+    webhookUrl: process.env.ALERT_WEBHOOK_URL,
+    slackWebhookUrl: process.env.ALERT_SLACK_WEBHOOK_URL,
+    smtp: {
+      host: process.env.ALERT_SMTP_HOST,
+      port: Number(process.env.ALERT_SMTP_PORT || 25),
+      secure: process.env.ALERT_SMTP_SECURE === 'true',
+      user: process.env.ALERT_SMTP_USER,
+      password: process.env.ALERT_SMTP_PASSWORD,
+      from: process.env.ALERT_EMAIL_FROM,
+      to: (process.env.ALERT_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean)
+    }
+  });
+
+  const alertMonitor = createAlertMonitor({
+    storage: storage,
+    customers: customers,
+    backupJobs: backupJobs,
+    notifiers: notifiers,
+    interval: initialConfig.alerts.intervalMinutes * 60 * 1000,
+    onAlertChanged: (alert: Alert) => events.publish(EVENT_TYPES.ALERT, alert)
+  });
+
+  function applyAppConfig(config: AppConfig) {
+    environmentMonitor.configure({
+      interval: config.validation.intervalMinutes * 60 * 1000,
+      concurrency: config.validation.concurrency
+    });
+    develEnvironments.configure({ probeTimeout: config.validation.probeTimeout * 1000 });
+    alertMonitor.configure({ interval: config.alerts.intervalMinutes * 60 * 1000 });
+    backupJobs.configure({
+      pollInterval: config.backups.pollInterval * 1000,
+      maxRestoreTime: config.backups.maxRestoreMinutes * 60 * 1000
+    });
+  }
+
+  const context: ServerContext = {
+    develUrlTemplate,
+    storage,
+    audit,
+    events,
+    appConfig,
+    authProvider,
+    sessions,
+    customers,
+    residentDatabases,
+    develEnvironments,
+    backupJobs,
+    scheduler,
+    environmentMonitor,
+    pulls,
+    pullRequests,
+    savedViews,
+    alertMonitor
+  };
+
+  const app = express();
+
+  app.use((req, res, next) => {
+    res.header("Access-Control-Allow-Origin", "http://backups.cetecerpdevel.com:5002");
+    res.header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    res.header("Access-Control-Allow-Headers", "Origin, X-Requested-With, Content-Type, Accept, Authorization");
+    res.header("Access-Control-Allow-Credentials", "true");
+    if (req.method === "OPTIONS") {
+      res.sendStatus(200);
+    } else {
+      next();
+    }
+  });
+
+  app.use(express.json());
+  app.use(sessions.loadSession);
+
+  app.use(createAuthRoutes(context));
+
+  // Everything below requires a signed-in user
+  app.use("/api", sessions.requireAuth);
+
+  app.use(createEnvironmentRoutes(context));
+  app.use(createCustomerRoutes(context));
+  app.use(createBackupRoutes(context));
+  app.use(createScheduleRoutes(context));
+  app.use(createAuditRoutes(context));
+  app.use(createResidentDatabaseRoutes(context));
+  app.use(createConfigRoutes(context));
+  app.use(createSavedViewRoutes(context));
+  app.use(createAlertRoutes(context));
+
+  // Loads configuration and stored state. Kept apart from startBackgroundWork
+  // so tests can exercise the routes without timers or probes running.
+  async function initialize() {
+    await residentDatabases.load();
+    applyAppConfig(await appConfig.load());
+    const legacyDataDir = process.env.LEGACY_DATA_DIR || path.join(ROOT_DIR, 'data');
+    await importLegacyJsonData(storage, {
+      timestampDataPath: path.join(legacyDataDir, 'pull-timestamps.json'),
+      backupJobsPath: path.join(legacyDataDir, 'backup-jobs.json')
+    });
+    await alertMonitor.load();
+    await storage.deleteExpiredSessions();
+    await audit.prune();
+  }
+
+  async function startBackgroundWork() {
+    await backupJobs.resume();
+    await scheduler.start();
+    await environmentMonitor.start();
+    await alertMonitor.start();
+    residentDatabases.startWatching();
+  }
+
+  return {
+    app,
+    backupProvider,
+    initialize,
+    startBackgroundWork
+  };
+}
@@ -0,0 +1,115 @@
+import type { Storage } from "./storage/index.js";
+import type { ActingUser } from "./types.js";
+
+export const AUDIT_OUTCOMES = {
+  SUCCESS: 'success',
+  FAILURE: 'failure',
+  DENIED: 'denied'
+} as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[keyof typeof AUDIT_OUTCOMES];
+
+// An entry as record() writes it
+export interface NewAuditEntry {
+  occurredAt: string;
+  actor: string | null;
+  action: string;
+  outcome: AuditOutcome;
+  customerId: string | number | null;
+  domain: string | null;
+  ip: string | null;
+  details: Record<string, unknown> | null;
+}
+
+// An entry as storage returns it
+export interface AuditEntry extends NewAuditEntry {
+  id: number;
+  customerId: string | null;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  action?: string;
+  outcome?: string;
+  customerId?: string | number;
+  domain?: string;
+  from?: string;
+  to?: string;
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ['occurredAt', 'actor', 'action', 'outcome', 'customerId', 'domain', 'ip', 'details'];
+
+// Actors include usernames typed at a failed login, so text a spreadsheet
+// would run as a formula is defused the way the customer export does it
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const lines = entries.map(entry => CSV_COLUMNS.map(column => toCsvValue(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+}
+
+// Who did what to which customer, from where, and whether it worked. Entries
+// are written through the storage layer; a failed write is logged but never
+// fails the request that triggered it.
+export function createAuditLog({ storage, retentionDays = 365 }: { storage: Storage; retentionDays?: number }) {
+  async function record(
+    req: ActingUser | null,
+    action: string,
+    { outcome = AUDIT_OUTCOMES.SUCCESS, actor, customerId, domain, details }: {
+      outcome?: AuditOutcome;
+      actor?: string | null;
+      customerId?: string | number | null;
+      domain?: string | null;
+      details?: Record<string, unknown>;
+    } = {}
+  ) {
+    const entry: NewAuditEntry = {
+      occurredAt: new Date().toISOString(),
+      actor: actor || (req && req.user ? req.user.username : null),
+      action,
+      outcome,
+      customerId: customerId ?? null,
+      domain: domain || null,
+      ip: req?.ip ?? null,
+      details: details && Object.keys(details).length > 0 ? details : null
+    };
+
+    try {
+      await storage.appendAuditEntry(entry);
+    } catch (error) {
+      console.error('Error writing audit entry:', error);
+    }
+  }
+
+  async function query(filters: AuditFilters, { page = 1, pageSize = 50 }: { page?: number; pageSize?: number } = {}) {
+    const { entries, total } = await storage.queryAuditEntries(filters, {
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    });
+    return { entries, total, page, pageSize };
+  }
+
+  async function exportAll(filters: AuditFilters) {
+    const { entries } = await storage.queryAuditEntries(filters);
+    return entries;
+  }
+
+  async function prune() {
+    if (!retentionDays) {
+      return 0;
+    }
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    return storage.deleteAuditEntriesBefore(cutoff);
+  }
+
+  return { record, query, exportAll, prune };
+}
@@ -0,0 +1,33 @@
+import { createLocalAuthProvider } from "./local-provider.js";
+import type { SessionUser } from "../types.js";
+
+export { createSessionManager } from "./sessions.js";
+export { ROLES, PERMISSIONS, hasPermission, requirePermission, toClientUser, normalizeRole } from "./permissions.js";
+
+// An auth provider turns a username/password pair into a user
+// ({ username, name, role }) or null, and looks up a user by name with
+// findUser(). Only the local users file ships today; an OIDC or LDAP provider
+// plugs in here with the same contract.
+export interface AuthProvider {
+  name: string;
+  authenticate(username: string, password: string): Promise<SessionUser | null>;
+  findUser(username: string): Promise<SessionUser | null>;
+  upsertUser(user: { username: string; name?: string; role?: string; password: string }): Promise<void>;
+}
+
+export interface AuthProviderOptions {
+  provider?: string;
+  usersFile: string;
+}
+
+const providers: Record<string, (options: AuthProviderOptions) => AuthProvider> = {
+  local: (options) => createLocalAuthProvider({ usersFile: options.usersFile })
+};
+
+export function createAuthProvider({ provider = 'local', ...options }: AuthProviderOptions): AuthProvider {
+  const createProvider = providers[provider];
+  if (!createProvider) {
+    throw new Error(`Unknown auth provider "${provider}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return createProvider(options);
+}
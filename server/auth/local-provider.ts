@@ -0,0 +1,84 @@
+import fs from "fs/promises";
+import { hashPassword, verifyPassword } from "./passwords.js";
+import { normalizeRole } from "./permissions.js";
+import type { AuthProvider } from "./index.js";
+
+// Users live in a JSON file so they can be managed without a directory
+// service:
+//   [{ "username": "jdoe", "name": "Jane Doe", "role": "support", "passwordHash": "scrypt$..." }]
+// The file is re-read on every login and request, so edits apply without a
+// restart.
+interface StoredUser {
+  username: string;
+  name?: string;
+  role?: string;
+  passwordHash: string;
+  disabled?: boolean;
+}
+
+// Usernames are matched case-insensitively everywhere, so "JDoe" can't be
+// added next to "jdoe"
+function findByUsername(users: StoredUser[], username: string): StoredUser | undefined {
+  return users.find(candidate => String(candidate.username).toLowerCase() === String(username).toLowerCase());
+}
+
+export function createLocalAuthProvider({ usersFile }: { usersFile: string }): AuthProvider {
+  async function readUsers(): Promise<StoredUser[]> {
+    try {
+      const users = JSON.parse(await fs.readFile(usersFile, 'utf8'));
+      return Array.isArray(users) ? users : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[AUTH] Could not read users file ${usersFile}:`, (error as Error).message);
+      }
+      return [];
+    }
+  }
+
+  return {
+    name: 'local',
+
+    async authenticate(username, password) {
+      const users = await readUsers();
+      const user = findByUsername(users, username);
+
+      if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+        return null;
+      }
+
+      return { username: user.username, name: user.name || user.username, role: normalizeRole(user.role) };
+    },
+
+    // Current account for a username, without a password check. Used for each
+    // signed-in request and when the server acts for someone later, e.g. a
+    // scheduled pull.
+    async findUser(username) {
+      const users = await readUsers();
+      const user = findByUsername(users, username);
+
+      if (!user || user.disabled) {
+        return null;
+      }
+
+      return { username: user.username, name: user.name || user.username, role: normalizeRole(user.role) };
+    },
+
+    async upsertUser({ username, name, role, password }) {
+      const users = await readUsers();
+      const passwordHash = await hashPassword(password);
+      const existing = findByUsername(users, username);
+
+      if (existing) {
+        Object.assign(existing, {
+          name: name || existing.name,
+          role: role ? normalizeRole(role) : normalizeRole(existing.role),
+          passwordHash
+        });
+      } else {
+        users.push({ username, name: name || username, role: normalizeRole(role), passwordHash });
+      }
+
+      await fs.writeFile(usersFile, JSON.stringify(users, null, 2));
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+// Hashes are stored as "scrypt$<salt>$<hash>", both hex encoded.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH) as Buffer;
+  return `scrypt$${salt}$${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: unknown): Promise<boolean> {
+  const [algorithm, salt, hash] = String(storedHash || '').split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derivedKey = await scryptAsync(password, salt, expected.length) as Buffer;
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+}
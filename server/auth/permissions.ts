@@ -0,0 +1,54 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Role, SessionUser } from "../types.js";
+
+export const ROLES: Role[] = ['viewer', 'support', 'admin'];
+
+export const PERMISSIONS = {
+  PULL_BACKUP: 'pull_backup',
+  PULL_ENTERPRISE_BACKUP: 'pull_enterprise_backup',
+  OPEN_PRODUCTION: 'open_production',
+  OVERRIDE_RESTRICTIONS: 'override_restrictions',
+  VIEW_AUDIT: 'view_audit',
+  MANAGE_RESIDENT_DATABASES: 'manage_resident_databases',
+  MANAGE_SETTINGS: 'manage_settings',
+  MANAGE_ALERTS: 'manage_alerts'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// viewer  - browse customers and open devel/test environments
+// support - also pull backups for non-Enterprise customers and open production
+// admin   - everything, including Enterprise pulls, ITAR/resident overrides,
+//           the audit log, resident DB mappings, settings and alert rules
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  support: [PERMISSIONS.PULL_BACKUP, PERMISSIONS.OPEN_PRODUCTION],
+  admin: Object.values(PERMISSIONS)
+};
+
+export function normalizeRole(role: unknown): Role {
+  return ROLES.includes(role as Role) ? role as Role : 'viewer';
+}
+
+export function permissionsForRole(role: unknown): Permission[] {
+  return ROLE_PERMISSIONS[normalizeRole(role)];
+}
+
+export function hasPermission(user: { role: unknown } | null | undefined, permission: Permission): boolean {
+  return !!user && permissionsForRole(user.role).includes(permission);
+}
+
+// Only req.user is read, so the routes behind it keep their own params types
+export function requirePermission(permission: Permission) {
+  return (req: Pick<Request, 'user'>, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Shape sent to the browser so the UI can hide what the server will refuse
+export function toClientUser(user: SessionUser) {
+  return { ...user, role: normalizeRole(user.role), permissions: permissionsForRole(user.role) };
+}
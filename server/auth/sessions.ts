@@ -0,0 +1,106 @@
+import { randomBytes } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { Storage } from "../storage/index.js";
+import type { SessionUser } from "../types.js";
+import type { AuthProvider } from "./index.js";
+
+export const SESSION_COOKIE = 'backup_session';
+
+export interface StoredSession {
+  id: string;
+  user: SessionUser;
+  createdAt: string;
+  expiresAt: string;
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    String(header || '')
+      .split(';')
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map(part => {
+        const separator = part.indexOf('=');
+        return separator === -1
+          ? [part, '']
+          : [part.slice(0, separator), decodeURIComponent(part.slice(separator + 1))];
+      })
+  );
+}
+
+export function createSessionManager({
+  storage,
+  authProvider,
+  ttlMs,
+  secureCookies = false
+}: {
+  storage: Storage;
+  authProvider: AuthProvider;
+  ttlMs: number;
+  secureCookies?: boolean;
+}) {
+  function cookieOptions(maxAgeSeconds: number): string {
+    return [
+      'Path=/',
+      'HttpOnly',
+      'SameSite=Lax',
+      `Max-Age=${maxAgeSeconds}`,
+      ...(secureCookies ? ['Secure'] : [])
+    ].join('; ');
+  }
+
+  async function startSession(res: Response, user: SessionUser): Promise<StoredSession> {
+    const now = Date.now();
+    const session: StoredSession = {
+      id: randomBytes(32).toString('base64url'),
+      user: user,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString()
+    };
+
+    await storage.createSession(session);
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${session.id}; ${cookieOptions(Math.floor(ttlMs / 1000))}`);
+    return session;
+  }
+
+  async function endSession(req: Request, res: Response) {
+    const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (sessionId) {
+      await storage.deleteSession(sessionId);
+    }
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; ${cookieOptions(0)}`);
+  }
+
+  // Attaches req.user for requests with a live session. Sessions slide: each
+  // authenticated request pushes the expiry out by another TTL. The account is
+  // looked up again every time, so a role change applies at once and a
+  // removed or disabled user's sessions end.
+  async function loadSession(req: Request, _res: Response, next: NextFunction) {
+    try {
+      const sessionId = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+      const session = sessionId ? await storage.getSession(sessionId) : null;
+      const user = session ? await authProvider.findUser(session.user.username) : null;
+
+      if (session && user) {
+        req.user = user;
+        req.sessionId = session.id;
+        await storage.touchSession(session.id, new Date(Date.now() + ttlMs).toISOString());
+      } else if (session) {
+        await storage.deleteSession(session.id);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  function requireAuth(req: Request, res: Response, next: NextFunction) {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    next();
+  }
+
+  return { startSession, endSession, loadSession, requireAuth };
+}
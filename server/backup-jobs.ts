@@ -0,0 +1,418 @@
+import { randomUUID } from "crypto";
+import type { ProbeResult } from "../shared/customer.js";
+import type { BackupProvider, RestoreStatus } from "./backup-providers/index.js";
+import type { Storage } from "./storage/index.js";
+import type { BackupJob } from "./types.js";
+
+export const JOB_STATES = {
+  QUEUED: 'queued',
+  REQUESTED: 'requested',
+  RESTORING: 'restoring',
+  READY: 'ready',
+  FAILED: 'failed',
+  TIMED_OUT: 'timed_out',
+  CANCELLED: 'cancelled'
+} as const;
+
+export type JobState = typeof JOB_STATES[keyof typeof JOB_STATES];
+
+const TERMINAL_STATES = new Set<string>([JOB_STATES.READY, JOB_STATES.FAILED, JOB_STATES.TIMED_OUT, JOB_STATES.CANCELLED]);
+
+const MAX_FINISHED_JOBS = 500;
+
+export function isTerminalState(state: string): boolean {
+  return TERMINAL_STATES.has(state);
+}
+
+// Owns every backup pull from the moment it is requested until the devel
+// environment is confirmed ready (or we give up), so the browser only has to
+// read job state instead of driving the pull itself.
+export function createBackupJobTracker({
+  storage,
+  provider,
+  probeEnvironment,
+  pollInterval = 60 * 1000,
+  maxRestoreTime = 30 * 60 * 1000,
+  stableTime = 2 * 60 * 1000,
+  maxConcurrentRequests = 2,
+  maxAttempts = 3,
+  retryDelay = 60 * 1000,
+  onJobUpdated,
+  onJobFinished
+}: {
+  storage: Storage;
+  provider: BackupProvider;
+  probeEnvironment: (job: BackupJob) => Promise<ProbeResult>;
+  pollInterval?: number;
+  maxRestoreTime?: number;
+  stableTime?: number;
+  maxConcurrentRequests?: number;
+  maxAttempts?: number;
+  retryDelay?: number;
+  onJobUpdated?: (job: BackupJob) => void;
+  onJobFinished?: (job: BackupJob) => unknown;
+}) {
+  const jobs = new Map<string, BackupJob>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Jobs waiting for a free slot to call the backup service, oldest first
+  const waiting: BackupJob[] = [];
+  let requestsInFlight = 0;
+
+  async function load() {
+    const storedJobs = await storage.listBackupJobs();
+    storedJobs.forEach(job => jobs.set(job.id, job));
+  }
+
+  async function save(job: BackupJob) {
+    try {
+      await storage.saveBackupJob({ ...job });
+    } catch (error) {
+      console.error(`Error saving backup job ${job.id}:`, error);
+    }
+  }
+
+  function notifyUpdated(job: BackupJob) {
+    if (!onJobUpdated) {
+      return;
+    }
+    try {
+      onJobUpdated({ ...job });
+    } catch (error) {
+      console.error(`Error publishing backup job ${job.id}:`, error);
+    }
+  }
+
+  async function pruneFinishedJobs() {
+    const finished = Array.from(jobs.values())
+      .filter(job => isTerminalState(job.state))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const expiredIds = finished
+      .slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))
+      .map(job => job.id);
+
+    if (expiredIds.length === 0) {
+      return;
+    }
+
+    expiredIds.forEach(id => jobs.delete(id));
+    try {
+      await storage.deleteBackupJobs(expiredIds);
+    } catch (error) {
+      console.error('Error pruning backup jobs:', error);
+    }
+  }
+
+  async function updateJob(job: BackupJob, changes: Partial<BackupJob>) {
+    const wasTerminal = isTerminalState(job.state);
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    const justFinished = isTerminalState(job.state) && !wasTerminal;
+    if (justFinished) {
+      job.finishedAt = job.updatedAt;
+    }
+    await save(job);
+    notifyUpdated(job);
+
+    if (justFinished) {
+      clearTimeout(timers.get(job.id));
+      timers.delete(job.id);
+      await pruneFinishedJobs();
+      if (onJobFinished) {
+        Promise.resolve(onJobFinished({ ...job })).catch(error => {
+          console.error(`Error finishing backup job ${job.id}:`, error);
+        });
+      }
+    }
+  }
+
+  function scheduleCheck(job: BackupJob, delay = pollInterval) {
+    clearTimeout(timers.get(job.id));
+    timers.set(job.id, setTimeout(() => checkEnvironment(job), delay));
+  }
+
+  async function checkEnvironment(job: BackupJob) {
+    if (isTerminalState(job.state)) {
+      return;
+    }
+
+    const startedAt = new Date(job.requestedAt || job.createdAt).getTime();
+    const elapsed = Date.now() - startedAt;
+
+    // Providers that know how their restore went can fail a pull straight
+    // away; getbackup can't, so it falls through to the environment checks.
+    if (job.providerReference) {
+      let restore: RestoreStatus = { state: 'unknown' };
+      try {
+        restore = await provider.status(job.providerReference);
+      } catch (error) {
+        console.error(`Restore status check failed for job ${job.id}:`, error);
+      }
+
+      if (restore.state === 'failed' || restore.state === 'cancelled') {
+        await updateJob(job, {
+          state: restore.state === 'failed' ? JOB_STATES.FAILED : JOB_STATES.CANCELLED,
+          lastCheckedAt: new Date().toISOString(),
+          error: restore.error || `Restore ${restore.state}`
+        });
+        return;
+      }
+    }
+
+    let environmentStatus: ProbeResult;
+    try {
+      environmentStatus = await probeEnvironment(job);
+    } catch (error) {
+      console.error(`Environment check failed for job ${job.id}:`, error);
+      environmentStatus = 'not_ready';
+    }
+
+    const lastCheckedAt = new Date().toISOString();
+
+    // The restore drops and recreates the devel database, so an environment
+    // that answers straight away may still be the old copy. Only call it ready
+    // once it has stayed up past the stability window.
+    if (environmentStatus === 'ready' && elapsed > stableTime) {
+      await updateJob(job, { state: JOB_STATES.READY, environmentStatus, lastCheckedAt });
+      return;
+    }
+
+    if (environmentStatus === 'unavailable') {
+      await updateJob(job, {
+        state: JOB_STATES.FAILED,
+        environmentStatus,
+        lastCheckedAt,
+        error: 'Environment is unavailable for this customer'
+      });
+      return;
+    }
+
+    if (elapsed > maxRestoreTime) {
+      await updateJob(job, {
+        state: JOB_STATES.TIMED_OUT,
+        environmentStatus,
+        lastCheckedAt,
+        error: 'Environment did not become ready in time'
+      });
+      return;
+    }
+
+    await updateJob(job, { environmentStatus, lastCheckedAt });
+    scheduleCheck(job);
+  }
+
+  async function runJob(job: BackupJob) {
+    const attempts = (job.attempts || 0) + 1;
+    await updateJob(job, {
+      state: JOB_STATES.REQUESTED,
+      requestedAt: new Date().toISOString(),
+      attempts,
+      nextAttemptAt: null
+    });
+
+    try {
+      const { reference, result } = await provider.request(job.dbname);
+      await updateJob(job, { state: JOB_STATES.RESTORING, providerReference: reference || null, result, error: null });
+    } catch (caught) {
+      const error = caught as Error;
+      if (error.name === 'AbortError') {
+        // The getbackup service regularly takes longer to answer than we are
+        // willing to wait, while the restore carries on. Keep watching the
+        // environment instead of failing the pull.
+        await updateJob(job, { state: JOB_STATES.RESTORING, requestError: 'Request timeout', error: null });
+      } else if (attempts < maxAttempts) {
+        const delay = retryDelay * attempts;
+        console.error(`Backup request failed for job ${job.id} (attempt ${attempts} of ${maxAttempts}), retrying in ${Math.round(delay / 1000)}s:`, error.message);
+        await updateJob(job, {
+          state: JOB_STATES.QUEUED,
+          error: error.message,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString()
+        });
+        scheduleRetry(job, delay);
+        return;
+      } else {
+        console.error(`Backup request failed for job ${job.id}:`, error);
+        await updateJob(job, { state: JOB_STATES.FAILED, error: error.message });
+        return;
+      }
+    }
+
+    scheduleCheck(job);
+  }
+
+  // At most `maxConcurrentRequests` jobs talk to the backup service at once;
+  // the rest wait in `waiting` and start as slots free up.
+  function drainQueue() {
+    while (requestsInFlight < maxConcurrentRequests && waiting.length > 0) {
+      const job = waiting.shift()!;
+      if (isTerminalState(job.state)) {
+        continue;
+      }
+
+      requestsInFlight++;
+      runJob(job)
+        .catch(error => {
+          console.error(`Backup job ${job.id} crashed:`, error);
+          return updateJob(job, { state: JOB_STATES.FAILED, error: (error as Error).message });
+        })
+        .finally(() => {
+          requestsInFlight--;
+          drainQueue();
+        });
+    }
+  }
+
+  function startJob(job: BackupJob) {
+    if (!waiting.includes(job)) {
+      waiting.push(job);
+    }
+    drainQueue();
+  }
+
+  function scheduleRetry(job: BackupJob, delay: number) {
+    clearTimeout(timers.get(job.id));
+    timers.set(job.id, setTimeout(() => {
+      timers.delete(job.id);
+      startJob(job);
+    }, Math.max(0, delay)));
+  }
+
+  function getActiveJobForCustomer(customerId: string | number): BackupJob | null {
+    return Array.from(jobs.values()).find(job =>
+      String(job.customerId) === String(customerId) && !isTerminalState(job.state)
+    ) || null;
+  }
+
+  async function createJob({ customerId, customerName, domain, dbname, residentHosting, itarHosting, requestedBy, batchId, scheduleId }: {
+    customerId: string | number;
+    customerName?: string | null;
+    domain?: string | null;
+    dbname: string;
+    residentHosting?: boolean;
+    itarHosting?: boolean;
+    requestedBy?: string | null;
+    batchId?: string | null;
+    scheduleId?: string | null;
+  }): Promise<{ job: BackupJob; created: boolean }> {
+    const existingJob = getActiveJobForCustomer(customerId);
+    if (existingJob) {
+      return { job: existingJob, created: false };
+    }
+
+    const now = new Date().toISOString();
+    const job: BackupJob = {
+      id: randomUUID(),
+      customerId,
+      customerName: customerName || null,
+      domain: domain || dbname,
+      dbname,
+      residentHosting: Boolean(residentHosting),
+      itarHosting: Boolean(itarHosting),
+      requestedBy: requestedBy || null,
+      batchId: batchId || null,
+      scheduleId: scheduleId || null,
+      state: JOB_STATES.QUEUED,
+      attempts: 0,
+      maxAttempts,
+      nextAttemptAt: null,
+      providerReference: null,
+      createdAt: now,
+      updatedAt: now,
+      requestedAt: null,
+      finishedAt: null,
+      environmentStatus: null,
+      lastCheckedAt: null,
+      result: null,
+      error: null
+    };
+
+    jobs.set(job.id, job);
+    await save(job);
+    notifyUpdated(job);
+    startJob(job);
+
+    return { job, created: true };
+  }
+
+  // Queued jobs are simply dropped from the queue. Once a restore has started
+  // it is only cancelled if the provider can actually stop it.
+  async function cancelJob(id: string, { cancelledBy }: { cancelledBy?: string } = {}): Promise<{ job: BackupJob | null; cancelled: boolean; message?: string }> {
+    const job = jobs.get(id);
+    if (!job) {
+      return { job: null, cancelled: false, message: 'Job not found' };
+    }
+    if (isTerminalState(job.state)) {
+      return { job, cancelled: false, message: `Job has already finished (${job.state})` };
+    }
+
+    if (job.state !== JOB_STATES.QUEUED) {
+      if (!job.providerReference) {
+        return { job, cancelled: false, message: 'The restore has not been acknowledged by the backup service yet' };
+      }
+      const outcome = await provider.cancel(job.providerReference);
+      if (!outcome.cancelled) {
+        return { job, cancelled: false, message: outcome.message || 'The backup service could not cancel this restore' };
+      }
+    }
+
+    const queueIndex = waiting.indexOf(job);
+    if (queueIndex !== -1) {
+      waiting.splice(queueIndex, 1);
+    }
+    await updateJob(job, { state: JOB_STATES.CANCELLED, cancelledBy: cancelledBy || null, error: 'Cancelled' });
+    return { job, cancelled: true };
+  }
+
+  function getJob(id: string): BackupJob | null {
+    return jobs.get(id) || null;
+  }
+
+  function listJobs({ customerId, active }: { customerId?: string | number; active?: boolean } = {}): BackupJob[] {
+    return Array.from(jobs.values())
+      .filter(job => customerId === undefined || String(job.customerId) === String(customerId))
+      .filter(job => active === undefined || active === !isTerminalState(job.state))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Pick up pulls that were in flight when the server stopped. A job that never
+  // reached the backup service goes back in the queue, keeping any retry it
+  // was waiting on; anything past that point just resumes environment checks.
+  async function resume() {
+    await load();
+
+    const queued = Array.from(jobs.values())
+      .filter(job => job.state === JOB_STATES.QUEUED)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of queued) {
+      if (job.nextAttemptAt) {
+        scheduleRetry(job, new Date(job.nextAttemptAt).getTime() - Date.now());
+      } else {
+        startJob(job);
+      }
+    }
+
+    for (const job of jobs.values()) {
+      if (job.state === JOB_STATES.REQUESTED || job.state === JOB_STATES.RESTORING) {
+        await updateJob(job, { state: JOB_STATES.RESTORING });
+        scheduleCheck(job, 0);
+      }
+    }
+  }
+
+  // Applies changed settings. Checks already scheduled keep their delay; the
+  // next one uses the new interval.
+  function configure(options: { pollInterval?: number; maxRestoreTime?: number }) {
+    pollInterval = options.pollInterval ?? pollInterval;
+    maxRestoreTime = options.maxRestoreTime ?? maxRestoreTime;
+  }
+
+  return {
+    resume,
+    configure,
+    createJob,
+    cancelJob,
+    getJob,
+    listJobs,
+    getActiveJobForCustomer
+  };
+}
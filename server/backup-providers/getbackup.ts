@@ -0,0 +1,53 @@
+import type { BackupProvider } from "./index.js";
+
+// The restore service on dev.cetecerpdevel.com. It starts a restore for a
+// dbname and answers when it feels like it; it has no notion of a restore id,
+// no status endpoint and no way to stop a restore once started.
+export function createGetbackupProvider({
+  baseUrl,
+  password,
+  requestTimeout = 45 * 1000
+}: {
+  baseUrl: string;
+  password?: string;
+  requestTimeout?: number;
+}): BackupProvider {
+  return {
+    name: 'getbackup',
+
+    async request(dbname: string) {
+      if (!password) {
+        throw new Error('TECHX_PASSWORD is not configured');
+      }
+
+      const backupApiUrl = `${baseUrl}?password=${encodeURIComponent(password)}&dbname=${encodeURIComponent(dbname)}`;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => {
+        controller.abort();
+      }, requestTimeout);
+
+      try {
+        const backupResponse = await fetch(backupApiUrl, {
+          signal: controller.signal
+        });
+
+        if (!backupResponse.ok) {
+          throw new Error(`Backup request failed: ${backupResponse.status}`);
+        }
+
+        return { reference: dbname, result: await backupResponse.json() };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+
+    // Only the devel environment itself can tell us how the restore went
+    async status() {
+      return { state: 'unknown' };
+    },
+
+    async cancel() {
+      return { cancelled: false, message: 'The getbackup service cannot cancel a restore once it has started' };
+    }
+  };
+}
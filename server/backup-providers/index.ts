@@ -0,0 +1,48 @@
+import { createGetbackupProvider } from "./getbackup.js";
+import { createMockBackupProvider } from "./mock.js";
+import type { MockBackupOptions } from "./mock.js";
+import type { ProbeResult } from "../../shared/customer.js";
+
+export type RestoreState = 'running' | 'complete' | 'failed' | 'cancelled' | 'unknown';
+
+export interface RestoreStatus {
+  state: RestoreState;
+  error?: string | null;
+}
+
+// A backup provider restores a customer's database into its devel environment:
+//   request(dbname)    -> { reference, result }  start a restore
+//   status(reference)  -> { state, error }       running | complete | failed | cancelled | unknown
+//   cancel(reference)  -> { cancelled, message }
+// and may offer probeEnvironment({ domain }) when the real devel host can't be
+// reached, as with the mock.
+export interface BackupProvider {
+  name: string;
+  request(dbname: string): Promise<{ reference: string | null; result: unknown }>;
+  status(reference: string): Promise<RestoreStatus>;
+  cancel(reference: string): Promise<{ cancelled: boolean; message?: string }>;
+  probeEnvironment?(target: { domain: string }): Promise<Exclude<ProbeResult, 'unavailable'>>;
+}
+
+export interface BackupProviderOptions {
+  provider?: string;
+  getbackupUrl: string;
+  techxPassword?: string;
+  mock?: MockBackupOptions;
+}
+
+const providers: Record<string, (options: BackupProviderOptions) => BackupProvider> = {
+  getbackup: (options) => createGetbackupProvider({
+    baseUrl: options.getbackupUrl,
+    password: options.techxPassword
+  }),
+  mock: (options) => createMockBackupProvider(options.mock)
+};
+
+export function createBackupProvider({ provider = 'getbackup', ...options }: BackupProviderOptions): BackupProvider {
+  const createProvider = providers[provider];
+  if (!createProvider) {
+    throw new Error(`Unknown backup provider "${provider}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return createProvider(options);
+}
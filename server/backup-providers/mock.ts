@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import type { BackupProvider, RestoreState } from "./index.js";
+
+export interface MockBackupOptions {
+  minDelay?: number;
+  maxDelay?: number;
+  failureRate?: number;
+  requestFailureRate?: number;
+  requestLatency?: number;
+}
+
+interface MockRestore {
+  reference: string;
+  dbname: string;
+  startedAt: number;
+  finishesAt: number;
+  willFail: boolean;
+  cancelled: boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stands in for the restore service on a laptop. Restores take a random time
+// between minDelay and maxDelay and a share of them fail, so the whole
+// pull -> validate -> ready cycle can be exercised without dev.cetecerpdevel.com.
+// Nothing survives a restart.
+export function createMockBackupProvider({
+  minDelay = 20 * 1000,
+  maxDelay = 60 * 1000,
+  failureRate = 0.1,
+  requestFailureRate = 0,
+  requestLatency = 500
+}: MockBackupOptions = {}): BackupProvider {
+  const restores = new Map<string, MockRestore>();
+  // Latest restore per dbname, so environment checks can answer for it
+  const latestByDbname = new Map<string, MockRestore>();
+
+  function currentState(restore: MockRestore): RestoreState {
+    if (restore.cancelled) {
+      return 'cancelled';
+    }
+    if (Date.now() < restore.finishesAt) {
+      return 'running';
+    }
+    return restore.willFail ? 'failed' : 'complete';
+  }
+
+  return {
+    name: 'mock',
+
+    async request(dbname) {
+      await sleep(requestLatency);
+
+      if (Math.random() < requestFailureRate) {
+        throw new Error('Mock backup service rejected the request');
+      }
+
+      const delay = minDelay + Math.random() * Math.max(0, maxDelay - minDelay);
+      const restore: MockRestore = {
+        reference: randomUUID(),
+        dbname,
+        startedAt: Date.now(),
+        finishesAt: Date.now() + delay,
+        willFail: Math.random() < failureRate,
+        cancelled: false
+      };
+      restores.set(restore.reference, restore);
+      latestByDbname.set(dbname, restore);
+
+      console.log(`[MOCK BACKUP] Restoring ${dbname} in ${Math.round(delay / 1000)}s${restore.willFail ? ' (will fail)' : ''}`);
+
+      return {
+        reference: restore.reference,
+        result: { provider: 'mock', status: 'started', reference: restore.reference, estimatedSeconds: Math.round(delay / 1000) }
+      };
+    },
+
+    async status(reference) {
+      const restore = restores.get(reference);
+      if (!restore) {
+        return { state: 'unknown' };
+      }
+
+      const state = currentState(restore);
+      return {
+        state,
+        error: state === 'failed' ? 'Mock restore failed' : null
+      };
+    },
+
+    async cancel(reference) {
+      const restore = restores.get(reference);
+      if (!restore || currentState(restore) !== 'running') {
+        return { cancelled: false, message: 'Restore is not running' };
+      }
+      restore.cancelled = true;
+      return { cancelled: true };
+    },
+
+    // There is no devel host to probe on a laptop. Databases this provider has
+    // never restored are treated as up; anything restored answers once its
+    // restore has completed.
+    async probeEnvironment({ domain }) {
+      const restore = latestByDbname.get(domain);
+      if (!restore) {
+        return 'ready';
+      }
+      return currentState(restore) === 'complete' ? 'ready' : 'not_ready';
+    }
+  };
+}
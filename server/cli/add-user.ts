@@ -0,0 +1,54 @@
+// Adds a user to the local users file, or resets their password.
+//   npm run user:add -- <username> ["Full Name"] [--role viewer|support|admin]
+// The password is read from the prompt, or from USER_PASSWORD when scripted.
+
+import path from "path";
+import readline from "readline/promises";
+import dotenv from "dotenv";
+import { fileURLToPath } from 'url';
+import { createAuthProvider, ROLES } from "../auth/index.js";
+import type { Role } from "../types.js";
+
+dotenv.config();
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function main() {
+  const args = process.argv.slice(2);
+  const roleIndex = args.indexOf('--role');
+  const role = roleIndex === -1 ? undefined : args[roleIndex + 1] as Role;
+  const [username, name] = roleIndex === -1 ? args : [...args.slice(0, roleIndex), ...args.slice(roleIndex + 2)];
+
+  if (!username) {
+    console.error('Usage: npm run user:add -- <username> ["Full Name"] [--role viewer|support|admin]');
+    process.exit(1);
+  }
+
+  if (role !== undefined && !ROLES.includes(role)) {
+    console.error(`Role must be one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+
+  let password = process.env.USER_PASSWORD;
+  if (!password) {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    password = await rl.question(`Password for ${username}: `);
+    rl.close();
+  }
+
+  if (!password || password.length < 8) {
+    console.error('Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  const usersFile = process.env.AUTH_USERS_FILE || path.join(__dirname, '..', '..', 'data', 'users.json');
+  const provider = createAuthProvider({ provider: 'local', usersFile });
+  await provider.upsertUser({ username, name, role, password });
+
+  console.log(`Saved user ${username}${role ? ` (${role})` : ''} to ${usersFile}`);
+}
+
+main().catch((error: Error) => {
+  console.error('Failed to save user:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+// Runs the mock CETEC API and devel login pages for offline development.
+//   npm run mock:cetec
+// Serves MOCK_CETEC_FIXTURES (default server/mock-cetec/fixtures) on
+// MOCK_CETEC_PORT (default 5098) and accepts PRESHARED_TOKEN as the token.
+
+import dotenv from "dotenv";
+import { createMockCetecApp, loadFixtures, DEFAULT_FIXTURES_DIR } from "../mock-cetec/index.js";
+
+dotenv.config();
+
+async function main() {
+  const port = Number(process.env.MOCK_CETEC_PORT || 5098);
+  const fixturesDir = process.env.MOCK_CETEC_FIXTURES || DEFAULT_FIXTURES_DIR;
+  const presharedToken = process.env.PRESHARED_TOKEN || 'mock-token';
+
+  const { customers, environments } = await loadFixtures(fixturesDir);
+  const app = createMockCetecApp({ customers, environments, presharedToken });
+
+  app.listen(port, () => {
+    const baseUrl = `http://localhost:${port}`;
+    console.log(`[MOCK CETEC] Serving ${customers.length} customers from ${fixturesDir}`);
+    console.log(`[MOCK CETEC] API_URL=${baseUrl}`);
+    console.log(`[MOCK CETEC] DEVEL_URL_TEMPLATE=${baseUrl}/devel/{domain}`);
+    if (!process.env.PRESHARED_TOKEN) {
+      console.log('[MOCK CETEC] PRESHARED_TOKEN is not set; accepting "mock-token"');
+    }
+  });
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+// Receives alert notifications locally and prints them, instead of sending
+// them to Slack or a real mail relay.
+//   npm run sink:notifications
+// Listens for webhooks on NOTIFICATION_SINK_HTTP_PORT (default 5097) and for
+// mail on NOTIFICATION_SINK_SMTP_PORT (default 2525).
+
+import dotenv from "dotenv";
+import { createNotificationSink } from "../notification-sink/index.js";
+import type { ReceivedEmail, ReceivedWebhook } from "../notification-sink/index.js";
+
+dotenv.config();
+
+function printMessage(kind: 'webhook' | 'email', message: ReceivedWebhook | ReceivedEmail) {
+  if (kind === 'email') {
+    const email = message as ReceivedEmail;
+    console.log(`[SINK] Mail from ${email.from} to ${email.to.join(', ')}: ${email.subject}\n${email.text}\n`);
+  } else {
+    const webhook = message as ReceivedWebhook;
+    console.log(`[SINK] POST /${webhook.channel}\n${JSON.stringify(webhook.body, null, 2)}\n`);
+  }
+}
+
+function main() {
+  const httpPort = Number(process.env.NOTIFICATION_SINK_HTTP_PORT || 5097);
+  const smtpPort = Number(process.env.NOTIFICATION_SINK_SMTP_PORT || 2525);
+  const { app, smtpServer } = createNotificationSink({ onMessage: printMessage });
+
+  app.listen(httpPort, () => {
+    const baseUrl = `http://localhost:${httpPort}`;
+    console.log(`[SINK] ALERT_WEBHOOK_URL=${baseUrl}/webhook`);
+    console.log(`[SINK] ALERT_SLACK_WEBHOOK_URL=${baseUrl}/slack`);
+    console.log(`[SINK] Everything received: ${baseUrl}/messages`);
+  });
+
+  smtpServer.listen(smtpPort, () => {
+    console.log(`[SINK] ALERT_SMTP_HOST=localhost ALERT_SMTP_PORT=${smtpPort}`);
+  });
+}
+
+main();
@@ -0,0 +1,192 @@
+import axios from "axios";
+import { isFlagSet, NO_ENVIRONMENT_DETAILS } from "../shared/customer.js";
+import { diffCustomers, hasChanges } from "../shared/customer-changes.js";
+import type { CetecCustomer, EnvironmentStatus } from "../shared/customer.js";
+import type { CustomerListDiff } from "../shared/customer-changes.js";
+
+export const DEFAULT_CUSTOMER_COLUMNS = 'id,name,domain,ok_to_bill,priority_support,resident_hosting,test_environment,itar_hosting_bc,num_prod_users,num_full_users,techx_password';
+
+// Never listed, whatever CETEC returns for them
+const EXCLUDED_CUSTOMER_IDS = new Set([5165]);
+
+// How long GET /api/customers answers from the last full list before asking
+// CETEC again, so paging and typing in the search box don't each cost a call
+const LIST_MAX_AGE_MS = 60 * 1000;
+
+// Earlier versions of the list kept to answer "what changed since"
+const MAX_LIST_VERSIONS = 20;
+
+export interface CustomerQuery {
+  id?: string;
+  name?: string;
+  external_key?: string;
+  columns?: string;
+}
+
+function isBillable(customer: CetecCustomer): boolean {
+  const okToBill = customer.ok_to_bill;
+  return Boolean(okToBill) && okToBill !== 0 && okToBill !== '' && okToBill !== '0' && okToBill !== 'false';
+}
+
+export function hasValidDomain(domain: string | null | undefined): domain is string {
+  return typeof domain === 'string' && domain.trim() !== '' && domain !== 'undefined';
+}
+
+// Reads customers from the CETEC customer API. Which resident customers have a
+// database comes from server/resident-databases.ts.
+export function createCustomerDirectory({
+  apiUrl,
+  getPresharedToken,
+  hasResidentDatabase
+}: {
+  apiUrl: string;
+  getPresharedToken: () => string | undefined;
+  hasResidentDatabase: (domain: string | null | undefined) => boolean;
+}) {
+  // Last full record seen for each customer, so routes that act on a customer
+  // can check it without trusting what the browser sent.
+  const customerCache = new Map<string, CetecCustomer>();
+
+  // Every full list that differed from the one before it, oldest first. A
+  // version is named after when it was loaded.
+  const listVersions: { version: string; customers: CetecCustomer[] }[] = [];
+  let listLoadedAt = 0;
+
+  async function requestCustomers(queryParams: URLSearchParams, presharedToken: string | undefined): Promise<CetecCustomer[]> {
+    queryParams.append('preshared_token', presharedToken || '');
+
+    const baseUrl = apiUrl.startsWith('http://') || apiUrl.startsWith('https://') ? apiUrl : `https://${apiUrl}`;
+    const response = await axios.get(`${baseUrl}/api/customer?${queryParams.toString()}`, {
+      timeout: 10000
+    });
+
+    if (!Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    return response.data
+      .filter(isBillable)
+      .filter((customer: CetecCustomer) => !EXCLUDED_CUSTOMER_IDS.has(customer.id));
+  }
+
+  async function fetchCustomers({ id, name, external_key, columns }: CustomerQuery = {}, presharedToken = getPresharedToken()): Promise<CetecCustomer[]> {
+    const queryParams = new URLSearchParams();
+    if (id) queryParams.append('id', id);
+    if (name) queryParams.append('name', name);
+    if (external_key) queryParams.append('external_key', external_key);
+    if (columns) queryParams.append('columns', columns);
+
+    queryParams.append('ok_to_bill', '1');
+
+    if (!columns) {
+      queryParams.append('columns', DEFAULT_CUSTOMER_COLUMNS);
+    }
+
+    const customers = await requestCustomers(queryParams, presharedToken);
+    if (!Array.isArray(customers)) {
+      return customers;
+    }
+
+    if (!columns) {
+      customers.forEach(customer => customerCache.set(String(customer.id), { ...customer }));
+    }
+
+    if (!columns && !id && !name && !external_key) {
+      recordList(customers);
+    }
+
+    return customers;
+  }
+
+  function recordList(customers: CetecCustomer[]) {
+    listLoadedAt = Date.now();
+    const latest = listVersions[listVersions.length - 1];
+    if (latest && !hasChanges(diffCustomers(latest.customers, customers))) {
+      latest.customers = customers;
+      return;
+    }
+
+    listVersions.push({ version: new Date(listLoadedAt).toISOString(), customers });
+    listVersions.splice(0, Math.max(0, listVersions.length - MAX_LIST_VERSIONS));
+  }
+
+  // Every billable customer, from the last full list if it is recent enough.
+  // The validation sweep's fetches count too.
+  async function listCustomers({ refresh = false }: { refresh?: boolean } = {}): Promise<{ customers: CetecCustomer[]; version: string }> {
+    if (refresh || listVersions.length === 0 || Date.now() - listLoadedAt > LIST_MAX_AGE_MS) {
+      const customers = await fetchCustomers();
+      if (!Array.isArray(customers)) {
+        throw new Error('CETEC returned unexpected data format');
+      }
+    }
+
+    const latest = listVersions[listVersions.length - 1];
+    return { customers: latest.customers, version: latest.version };
+  }
+
+  // What changed between an earlier version of the list and the latest one,
+  // or null when that version is no longer kept (e.g. after a restart)
+  function getChangesSince(version: string): CustomerListDiff | null {
+    const earlier = listVersions.find(entry => entry.version === version);
+    if (!earlier) {
+      return null;
+    }
+    return diffCustomers(earlier.customers, listVersions[listVersions.length - 1].customers);
+  }
+
+  async function findCustomer(customerId: string | number): Promise<CetecCustomer | null> {
+    const cached = customerCache.get(String(customerId));
+    if (cached) {
+      return cached;
+    }
+
+    if (!getPresharedToken()) {
+      return null;
+    }
+
+    const customers = await fetchCustomers({ id: String(customerId) });
+    return Array.isArray(customers)
+      ? customers.find(customer => String(customer.id) === String(customerId)) || null
+      : null;
+  }
+
+  // Every column CETEC has for one customer, not just the ones the list
+  // asks for, for the customer page
+  async function fetchCustomerRecord(customerId: string | number): Promise<CetecCustomer | null> {
+    if (!getPresharedToken()) {
+      return null;
+    }
+
+    const queryParams = new URLSearchParams({ id: String(customerId), ok_to_bill: '1' });
+    const customers = await requestCustomers(queryParams, getPresharedToken());
+    return Array.isArray(customers)
+      ? customers.find(customer => String(customer.id) === String(customerId)) || null
+      : null;
+  }
+
+  // Status that follows from the customer record alone. Returns null when the
+  // devel environment has to be probed to know.
+  function getStaticEnvironmentStatus(customer: CetecCustomer): EnvironmentStatus | null {
+    if (!hasValidDomain(customer.domain)) {
+      return { state: 'invalid_domain', reason: 'no_domain', ...NO_ENVIRONMENT_DETAILS };
+    }
+    if (isFlagSet(customer.itar_hosting_bc)) {
+      return { state: 'itar_hosting', reason: 'itar_hosting', ...NO_ENVIRONMENT_DETAILS };
+    }
+    if (isFlagSet(customer.resident_hosting)) {
+      return hasResidentDatabase(customer.domain)
+        ? { state: 'resident_hosting', reason: 'resident_database_mapped', ...NO_ENVIRONMENT_DETAILS }
+        : { state: 'unavailable', reason: 'no_resident_database', ...NO_ENVIRONMENT_DETAILS };
+    }
+    return null;
+  }
+
+  return {
+    fetchCustomers,
+    listCustomers,
+    getChangesSince,
+    findCustomer,
+    fetchCustomerRecord,
+    getStaticEnvironmentStatus
+  };
+}
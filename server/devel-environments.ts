@@ -0,0 +1,104 @@
+import axios from "axios";
+import { buildDevelBaseUrl } from "./login-links.js";
+import type { ProbedStatus } from "../shared/customer.js";
+import type { BackupProvider } from "./backup-providers/index.js";
+
+// What a request for a devel login page came back with
+export type LinkCheck =
+  | { reachable: true; status: number; finalUrl: string }
+  | { reachable: false; status: number; finalUrl: string; reason: 'redirected_to_main_site' }
+  | { reachable: false; status: number; error: string; reason: 'server_error' }
+  | { reachable: false; error: string; reason: 'network_error' };
+
+export interface EnvironmentProbe {
+  domain: string;
+  residentHosting?: boolean;
+  itarHosting?: boolean;
+}
+
+// The environment monitor caches each probe with the domain it was for
+export type CachedEnvironmentStatus = ProbedStatus & { domain: string | null };
+
+export function toEnvironmentStatus({ state, reason, checkedAt, probeUrl, httpStatus, detail }: CachedEnvironmentStatus): ProbedStatus {
+  return { state, reason, checkedAt, probeUrl, httpStatus, detail } as ProbedStatus;
+}
+
+// Probes devel environments. A devel host whose database has not been
+// restored yet redirects its login page to the main cetecerp.com site.
+export function createDevelEnvironments({
+  develUrlTemplate,
+  backupProvider,
+  hasResidentDatabase,
+  probeTimeout = 5000
+}: {
+  develUrlTemplate: string;
+  backupProvider: BackupProvider;
+  hasResidentDatabase: (domain: string) => boolean;
+  probeTimeout?: number;
+}) {
+  function develLoginUrl(domain: string): string {
+    return `${buildDevelBaseUrl(domain, develUrlTemplate)}/auth/login_new`;
+  }
+
+  async function checkLink(domain: string): Promise<LinkCheck> {
+    try {
+      const response = await axios.get(develLoginUrl(domain), {
+        timeout: probeTimeout,
+        maxRedirects: 5,
+        validateStatus: (status) => status < 500
+      });
+
+      const finalUrl: string = response.request.res.responseUrl || response.config.url;
+      const isRedirectedToMainSite = finalUrl.includes('cetecerp.com') && !finalUrl.includes(domain);
+
+      return isRedirectedToMainSite
+        ? { reachable: false, status: response.status, finalUrl, reason: 'redirected_to_main_site' }
+        : { reachable: true, status: response.status, finalUrl };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        return { reachable: false, status: error.response.status, error: error.message, reason: 'server_error' };
+      }
+      return { reachable: false, error: (error as Error).message, reason: 'network_error' };
+    }
+  }
+
+  async function checkEnvironmentStatus({ domain, residentHosting, itarHosting }: EnvironmentProbe): Promise<ProbedStatus> {
+    const checkedAt = new Date().toISOString();
+    const notProbed = { checkedAt, probeUrl: null, httpStatus: null, detail: null };
+
+    if (itarHosting) {
+      return { state: 'unavailable', reason: 'itar_hosting', ...notProbed };
+    }
+    if (residentHosting && !hasResidentDatabase(domain)) {
+      return { state: 'unavailable', reason: 'no_resident_database', ...notProbed };
+    }
+
+    if (backupProvider.probeEnvironment) {
+      const state = await backupProvider.probeEnvironment({ domain });
+      return { state, reason: 'reported_by_provider', ...notProbed };
+    }
+
+    const probeUrl = develLoginUrl(domain);
+    const link = await checkLink(domain);
+    const probed = { checkedAt, probeUrl, httpStatus: 'status' in link ? link.status : null };
+
+    if (link.reachable) {
+      return { state: 'ready', reason: 'login_page_loaded', ...probed, detail: null };
+    }
+    if (link.reason === 'redirected_to_main_site') {
+      return { state: 'not_ready', reason: link.reason, ...probed, detail: `Redirected to ${link.finalUrl}` };
+    }
+    return { state: 'not_ready', reason: link.reason, ...probed, detail: link.error };
+  }
+
+  function configure(options: { probeTimeout?: number }) {
+    probeTimeout = options.probeTimeout ?? probeTimeout;
+  }
+
+  return {
+    configure,
+    develLoginUrl,
+    checkLink,
+    checkEnvironmentStatus
+  };
+}
@@ -0,0 +1,172 @@
+import type { ProbedStatus } from "../shared/customer.js";
+import type { CachedEnvironmentStatus, EnvironmentProbe } from "./devel-environments.js";
+import type { Storage } from "./storage/index.js";
+
+// Probes every customer's devel environment on a schedule so the dashboard can
+// show a known status the moment it loads, instead of each browser probing
+// every customer itself. Results ({ state, reason, checkedAt, probeUrl,
+// httpStatus, detail }) are cached in storage and survive restarts.
+
+// Each change of state or reason is also kept, up to this many per customer,
+// for the customer page. Sweeps that find nothing new add nothing.
+const HISTORY_LIMIT = 50;
+
+// A customer whose environment has to be probed to know its status
+export interface MonitoredCustomer extends EnvironmentProbe {
+  id: string | number;
+}
+
+export interface SweepSummary {
+  finishedAt: string;
+  customers: number;
+  durationMs: number;
+}
+
+export function createEnvironmentMonitor({
+  storage,
+  listCustomers,
+  probeEnvironment,
+  interval = 15 * 60 * 1000,
+  concurrency = 5,
+  onStatusChanged
+}: {
+  storage: Storage;
+  listCustomers: () => Promise<MonitoredCustomer[]>;
+  probeEnvironment: (customer: MonitoredCustomer) => Promise<ProbedStatus>;
+  interval?: number;
+  concurrency?: number;
+  onStatusChanged?: (customerId: string | number, entry: CachedEnvironmentStatus) => void;
+}) {
+  let statuses: Record<string, CachedEnvironmentStatus> = {};
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let sweepInProgress: Promise<void> | null = null;
+  let lastSweep: SweepSummary | null = null;
+
+  async function load() {
+    statuses = await storage.getEnvironmentStatuses();
+  }
+
+  async function recordStatus(customerId: string | number, domain: string | null, status: ProbedStatus): Promise<CachedEnvironmentStatus> {
+    const key = String(customerId);
+    const previous = statuses[key];
+    const entry: CachedEnvironmentStatus = { ...status, domain: domain || null, checkedAt: status.checkedAt || new Date().toISOString() };
+    statuses[key] = entry;
+
+    try {
+      await storage.saveEnvironmentStatus(key, entry);
+    } catch (error) {
+      console.error(`Error saving environment status for customer ${key}:`, error);
+    }
+
+    const changed = !previous || previous.state !== entry.state || previous.reason !== entry.reason;
+    if (changed) {
+      try {
+        await storage.appendEnvironmentHistory(key, entry, { keep: HISTORY_LIMIT });
+      } catch (error) {
+        console.error(`Error saving environment history for customer ${key}:`, error);
+      }
+    }
+
+    if (onStatusChanged && changed) {
+      onStatusChanged(customerId, entry);
+    }
+
+    return entry;
+  }
+
+  async function checkCustomer(customer: MonitoredCustomer): Promise<CachedEnvironmentStatus> {
+    const status = await probeEnvironment(customer);
+    return recordStatus(customer.id, customer.domain, status);
+  }
+
+  async function runSweep() {
+    let customers: MonitoredCustomer[];
+    try {
+      customers = await listCustomers();
+    } catch (error) {
+      console.error('[VALIDATION] Could not load customers for validation:', (error as Error).message);
+      return;
+    }
+
+    const startedAt = Date.now();
+    const queue = [...customers];
+
+    // A fixed number of workers pull from the shared queue, so at most
+    // `concurrency` probes are ever in flight.
+    const worker = async () => {
+      while (queue.length > 0) {
+        const customer = queue.shift()!;
+        try {
+          await checkCustomer(customer);
+        } catch (error) {
+          console.error(`[VALIDATION] Probe failed for customer ${customer.id}:`, (error as Error).message);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+
+    lastSweep = { finishedAt: new Date().toISOString(), customers: customers.length, durationMs: Date.now() - startedAt };
+    console.log(`[VALIDATION] Checked ${customers.length} environments in ${Math.round(lastSweep.durationMs / 1000)}s`);
+  }
+
+  // Overlapping sweeps would double the probe load, so a request for a sweep
+  // while one is running just waits for the running one.
+  function sweep(): Promise<void> {
+    if (!sweepInProgress) {
+      sweepInProgress = runSweep().finally(() => {
+        sweepInProgress = null;
+      });
+    }
+    return sweepInProgress;
+  }
+
+  async function start() {
+    await load();
+    sweep();
+    timer = setInterval(sweep, interval);
+  }
+
+  function stop() {
+    clearInterval(timer ?? undefined);
+    timer = null;
+  }
+
+  // Applies changed settings. A new interval restarts the timer if the
+  // monitor is running; a new concurrency applies from the next sweep.
+  function configure(options: { interval?: number; concurrency?: number }) {
+    concurrency = options.concurrency ?? concurrency;
+    if (options.interval !== undefined && options.interval !== interval) {
+      interval = options.interval;
+      if (timer) {
+        clearInterval(timer);
+        timer = setInterval(sweep, interval);
+      }
+    }
+  }
+
+  function getStatus(customerId: string | number): CachedEnvironmentStatus | null {
+    return statuses[String(customerId)] || null;
+  }
+
+  // Newest first
+  function getHistory(customerId: string | number): Promise<CachedEnvironmentStatus[]> {
+    return storage.getEnvironmentHistory(String(customerId));
+  }
+
+  function getLastSweep(): SweepSummary | null {
+    return lastSweep;
+  }
+
+  return {
+    start,
+    stop,
+    configure,
+    sweep,
+    checkCustomer,
+    recordStatus,
+    getStatus,
+    getHistory,
+    getLastSweep
+  };
+}
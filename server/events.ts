@@ -0,0 +1,69 @@
+import type { Request, Response } from "express";
+
+export const EVENT_TYPES = {
+  CONNECTED: 'connected',
+  JOB: 'job',
+  ENVIRONMENT: 'environment',
+  PULL: 'pull',
+  SCHEDULE: 'schedule',
+  CONFIG: 'config',
+  ALERT: 'alert'
+} as const;
+
+export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
+
+interface EventClient {
+  res: Response;
+  username: string | null;
+}
+
+// Server-Sent Events fan-out. Every signed-in tab keeps one stream open and
+// receives the same job, environment, pull, schedule, settings and alert
+// updates, so nothing in the browser has to poll to stay current.
+export function createEventStream({ heartbeatInterval = 25 * 1000 }: { heartbeatInterval?: number } = {}) {
+  const clients = new Set<EventClient>();
+  let nextEventId = 1;
+
+  function write(res: Response, event: EventType, data: unknown) {
+    res.write(`id: ${nextEventId++}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  function publish(event: EventType, data: unknown) {
+    clients.forEach(client => {
+      try {
+        write(client.res, event, data);
+      } catch (error) {
+        console.error(`[EVENTS] Dropping client ${client.username}:`, error);
+        clients.delete(client);
+      }
+    });
+  }
+
+  function handler(req: Request, res: Response) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const client: EventClient = { res, username: req.user ? req.user.username : null };
+    clients.add(client);
+    write(res, EVENT_TYPES.CONNECTED, { connectedAt: new Date().toISOString() });
+
+    // Comments keep idle connections from being closed by proxies.
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), heartbeatInterval);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(client);
+    });
+  }
+
+  return {
+    handler,
+    publish,
+    clientCount: () => clients.size
+  };
+}
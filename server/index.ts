@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+import { createServer } from "./app.js";
+
+dotenv.config();
+
+const port = process.env.PORT || 5001;
+const { app, backupProvider, initialize, startBackgroundWork } = createServer();
+
+app.listen(port, async () => {
+  console.log(`Server running at http://backups.cetecerpdevel.com:${port}`);
+  console.log(`[BACKUP] Using the ${backupProvider.name} backup provider`);
+
+  await initialize();
+  await startBackgroundWork();
+}).on('error', (error: NodeJS.ErrnoException) => {
+  console.error('Failed to start server:', error.message);
+  if (error.code === 'EADDRINUSE') {
+    console.error(`Port ${port} is already in use. Please stop the process using that port or change the PORT environment variable.`);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import { isFlagSet } from "../shared/customer.js";
+import type { CetecCustomer } from "../shared/customer.js";
+
+export const ENVIRONMENTS = ['devel', 'test', 'production'];
+
+// Base URL of a customer's devel environment. `{domain}` is replaced with the
+// customer's domain; DEVEL_URL_TEMPLATE overrides it, e.g. for the mock CETEC server.
+export const DEFAULT_DEVEL_URL_TEMPLATE = 'http://{domain}.cetecerpdevel.com';
+
+export class LoginLinkError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'LoginLinkError';
+    this.status = status;
+  }
+}
+
+// One or more host name labels, so a domain can't add a path, port or
+// credentials to the URL it is put into
+const HOST_NAME = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*$/i;
+
+export function buildDevelBaseUrl(domain: unknown, template = DEFAULT_DEVEL_URL_TEMPLATE): string {
+  if (typeof domain !== 'string' || !HOST_NAME.test(domain)) {
+    throw new LoginLinkError(`"${domain}" is not a valid customer domain`);
+  }
+  return template.replace('{domain}', domain).replace(/\/+$/, '');
+}
+
+function techxLoginUrl(baseUrl: string, password: string): string {
+  return `${baseUrl}/auth/login?username=techx&password=${encodeURIComponent(password)}`;
+}
+
+// Builds the techx auto-login URL for one of a customer's environments. The
+// passwords never leave the server: the browser is only ever redirected here.
+export function buildEnvironmentLoginUrl(
+  customer: CetecCustomer,
+  environment: string,
+  { techxPassword, develUrlTemplate }: { techxPassword?: string; develUrlTemplate?: string }
+): string {
+  const domain = customer.domain;
+  if (!domain || domain === 'undefined' || String(domain).trim() === '') {
+    throw new LoginLinkError('Customer has no domain');
+  }
+
+  const isResidentHosting = isFlagSet(customer.resident_hosting);
+
+  switch (environment) {
+    case 'devel': {
+      if (isFlagSet(customer.itar_hosting_bc)) {
+        throw new LoginLinkError('ITAR hosting customers have no devel environment');
+      }
+      if (!techxPassword) {
+        throw new LoginLinkError('TECHX_PASSWORD is not configured', 500);
+      }
+      return techxLoginUrl(buildDevelBaseUrl(domain, develUrlTemplate), techxPassword);
+    }
+
+    case 'test': {
+      const testEnvironment = customer.test_environment;
+      if (!isResidentHosting && (!testEnvironment || testEnvironment === '0')) {
+        throw new LoginLinkError('Customer has no test environment');
+      }
+      if (isResidentHosting && domain.includes('.')) {
+        throw new LoginLinkError('Test environment not available for this domain format');
+      }
+      if (!techxPassword) {
+        throw new LoginLinkError('TECHX_PASSWORD is not configured', 500);
+      }
+      return isResidentHosting
+        ? techxLoginUrl(`https://cetecerp-beta.${domain}.com`, techxPassword)
+        : techxLoginUrl(`https://${domain}_test.cetecerp.com`, techxPassword);
+    }
+
+    case 'production': {
+      if (!customer.techx_password) {
+        throw new LoginLinkError('Customer has no production login');
+      }
+      if (isResidentHosting) {
+        return domain.includes('.')
+          ? techxLoginUrl(`https://${domain}`, customer.techx_password)
+          : techxLoginUrl(`https://cetecerp.${domain}.com`, customer.techx_password);
+      }
+      return techxLoginUrl(`https://${domain}.cetecerp.com`, customer.techx_password);
+    }
+
+    default:
+      throw new LoginLinkError(`Unknown environment "${environment}"`, 404);
+  }
+}
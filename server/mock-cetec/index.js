@@ -0,0 +1,115 @@
+import express from "express";
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// How each devel domain answers /auth/login_new:
+//   ready      the login page
+//   not_ready  a redirect to the main site, as an unrestored devel host does
+//   down       a 503
+// Domains without an entry behave as not_ready.
+export const ENVIRONMENT_STATES = ['ready', 'not_ready', 'down'];
+
+export async function loadFixtures(dir = DEFAULT_FIXTURES_DIR) {
+  const readJson = async (file, fallback) => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return fallback;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    customers: await readJson('customers.json', []),
+    environments: await readJson('environments.json', {})
+  };
+}
+
+function splitList(value) {
+  return String(value)
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function pickColumns(customer, columns) {
+  return Object.fromEntries(columns
+    .filter(column => column in customer)
+    .map(column => [column, customer[column]]));
+}
+
+// Applies the query parameters `/api/customer` honours to the fixture list.
+// Like the real API it ignores ok_to_bill, so unbilled customers and 5165
+// come back and the server's own filtering is what removes them.
+export function queryCustomers(customers, { id, name, external_key, columns } = {}) {
+  let results = customers;
+
+  if (id !== undefined && id !== '') {
+    const ids = splitList(id);
+    results = results.filter(customer => ids.includes(String(customer.id)));
+  }
+
+  if (name) {
+    const needle = String(name).toLowerCase();
+    results = results.filter(customer => String(customer.name || '').toLowerCase().includes(needle));
+  }
+
+  if (external_key) {
+    results = results.filter(customer => String(customer.external_key || '') === String(external_key));
+  }
+
+  if (columns) {
+    const wanted = splitList(columns);
+    results = results.map(customer => pickColumns(customer, wanted));
+  }
+
+  return results.map(customer => ({ ...customer }));
+}
+
+// Stand-in for the CETEC ERP customer API and the *.cetecerpdevel.com login
+// pages, so the app runs and can be tested without network access. Point
+// API_URL at this server and DEVEL_URL_TEMPLATE at `<this server>/devel/{domain}`.
+export function createMockCetecApp({ customers = [], environments = {}, presharedToken }) {
+  if (!presharedToken) {
+    throw new Error('The mock CETEC API needs a preshared token');
+  }
+
+  const app = express();
+
+  app.get("/api/customer", (req, res) => {
+    if (req.query.preshared_token !== presharedToken) {
+      return res.status(401).json({ error: 'Invalid preshared token' });
+    }
+    res.json(queryCustomers(customers, req.query));
+  });
+
+  app.get("/devel/:domain/auth/login_new", (req, res) => {
+    const state = environments[req.params.domain] || 'not_ready';
+
+    if (state === 'down') {
+      return res.status(503).send('Service Unavailable');
+    }
+    if (state !== 'ready') {
+      return res.redirect(302, '/www.cetecerp.com/');
+    }
+    res.type('text/plain').send(`${req.params.domain} devel login`);
+  });
+
+  // Auto-login links land here; the page just confirms where they went.
+  app.get("/devel/:domain/auth/login", (req, res) => {
+    res.type('text/plain').send(`Signed in to ${req.params.domain} devel as ${req.query.username || 'unknown'}`);
+  });
+
+  app.get("/www.cetecerp.com/", (req, res) => {
+    res.type('text/plain').send('Cetec ERP');
+  });
+
+  return app;
+}
@@ -0,0 +1,169 @@
+import express from "express";
+import type { Express } from "express";
+import net from "net";
+
+// Stand-ins for a webhook receiver and a mail relay, so alert rules can be
+// tried out on a laptop and in tests. Everything received is kept in memory
+// and listed at GET /messages.
+
+export interface ReceivedWebhook {
+  channel: string;
+  body: unknown;
+  receivedAt: string;
+}
+
+export interface ReceivedEmail {
+  from: string | null;
+  to: string[];
+  subject: string;
+  text: string;
+  raw: string;
+  receivedAt: string;
+}
+
+export type SinkMessageHandler = {
+  (kind: 'webhook', message: ReceivedWebhook): void;
+  (kind: 'email', message: ReceivedEmail): void;
+};
+
+function decodeBody(headers: Record<string, string>, body: string): string {
+  return /base64/i.test(headers['content-transfer-encoding'] || '')
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : body;
+}
+
+function decodeHeader(value: string): string {
+  return value.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_match, encoded: string) => Buffer.from(encoded, 'base64').toString('utf8'));
+}
+
+export function parseMessage(raw: string): { subject: string; text: string } {
+  const separator = raw.indexOf('\r\n\r\n');
+  const head = separator === -1 ? raw : raw.slice(0, separator);
+  const body = separator === -1 ? '' : raw.slice(separator + 4);
+  const headers: Record<string, string> = {};
+  head.split('\r\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  });
+  return { subject: decodeHeader(headers.subject || ''), text: decodeBody(headers, body) };
+}
+
+// Accepts any mail without checking credentials and never offers STARTTLS
+function createSmtpSink({ emails, onMessage }: { emails: ReceivedEmail[]; onMessage: SinkMessageHandler }): net.Server {
+  return net.createServer(socket => {
+    let buffer = '';
+    let envelope: { from: string | null; to: string[] } = { from: null, to: [] };
+    let data: string[] | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    function handleLine(line: string) {
+      if (data !== null) {
+        if (line === '.') {
+          const email: ReceivedEmail = { ...envelope, ...parseMessage(data.join('\r\n')), raw: data.join('\r\n'), receivedAt: new Date().toISOString() };
+          emails.push(email);
+          onMessage('email', email);
+          data = null;
+          envelope = { from: null, to: [] };
+          reply('250 OK: queued');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        return;
+      }
+
+      const verb = line.split(' ')[0].toUpperCase();
+      switch (verb) {
+        case 'EHLO':
+          reply('250-notification-sink');
+          reply('250 AUTH PLAIN LOGIN');
+          break;
+        case 'HELO':
+          reply('250 notification-sink');
+          break;
+        case 'AUTH':
+          reply('235 Authentication succeeded');
+          break;
+        case 'MAIL':
+          envelope.from = (/<([^>]*)>/.exec(line) || [])[1] || null;
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push((/<([^>]*)>/.exec(line) || [])[1] || '');
+          reply('250 OK');
+          break;
+        case 'DATA':
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: null, to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        handleLine(line);
+      }
+    });
+    socket.on('error', () => {});
+
+    reply('220 notification-sink ESMTP');
+  });
+}
+
+// POST /:channel records any JSON body, so /webhook and /slack can stand in
+// for ALERT_WEBHOOK_URL and ALERT_SLACK_WEBHOOK_URL
+export function createNotificationSink({ onMessage = () => {} }: { onMessage?: SinkMessageHandler } = {}): {
+  app: Express;
+  smtpServer: net.Server;
+  webhooks: ReceivedWebhook[];
+  emails: ReceivedEmail[];
+} {
+  const webhooks: ReceivedWebhook[] = [];
+  const emails: ReceivedEmail[] = [];
+
+  const app = express();
+  app.use(express.json());
+
+  app.post("/:channel", (req, res) => {
+    const webhook: ReceivedWebhook = { channel: req.params.channel, body: req.body, receivedAt: new Date().toISOString() };
+    webhooks.push(webhook);
+    onMessage('webhook', webhook);
+    res.json({ ok: true });
+  });
+
+  app.get("/messages", (_req, res) => {
+    res.json({ webhooks, emails });
+  });
+
+  app.delete("/messages", (_req, res) => {
+    webhooks.splice(0);
+    emails.splice(0);
+    res.json({ ok: true });
+  });
+
+  return {
+    app,
+    smtpServer: createSmtpSink({ emails, onMessage }),
+    webhooks,
+    emails
+  };
+}
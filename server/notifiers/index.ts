@@ -0,0 +1,46 @@
+import { createWebhookNotifier } from "./webhook.js";
+import { createSlackNotifier } from "./slack.js";
+import { createSmtpNotifier } from "./smtp.js";
+import type { SmtpOptions } from "./smtp.js";
+import type { Alert, NotifierChannel } from "../../shared/alerts.js";
+
+export interface Notification {
+  event: 'opened' | 'resolved' | 'test';
+  title: string;
+  text: string;
+  alert: Alert | null;
+}
+
+// A notifier delivers alert notifications to one channel: send() resolves
+// once the notification is delivered and throws if it isn't.
+export interface Notifier {
+  name: NotifierChannel;
+  send: (notification: Notification) => Promise<void>;
+}
+
+export type Notifiers = Partial<Record<NotifierChannel, Notifier>>;
+
+export interface NotifierOptions {
+  webhookUrl?: string;
+  slackWebhookUrl?: string;
+  smtp?: Partial<SmtpOptions> & { to: string[] };
+}
+
+// Only channels with their settings present are created; rules that name
+// another channel record it as failed.
+const notifiers: Record<NotifierChannel, (options: NotifierOptions) => Notifier | null> = {
+  webhook: (options) => options.webhookUrl ? createWebhookNotifier({ url: options.webhookUrl }) : null,
+  slack: (options) => options.slackWebhookUrl ? createSlackNotifier({ url: options.slackWebhookUrl }) : null,
+  email: ({ smtp }) => smtp && smtp.host && smtp.to.length > 0 ? createSmtpNotifier({ ...smtp, host: smtp.host }) : null
+};
+
+export function createNotifiers(options: NotifierOptions = {}): Notifiers {
+  const configured: Notifiers = {};
+  (Object.keys(notifiers) as NotifierChannel[]).forEach(channel => {
+    const notifier = notifiers[channel](options);
+    if (notifier) {
+      configured[channel] = notifier;
+    }
+  });
+  return configured;
+}
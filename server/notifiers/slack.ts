@@ -0,0 +1,14 @@
+import { postJson } from "./webhook.js";
+import type { Notifier } from "./index.js";
+
+// Slack incoming webhooks take { text } with *bold* markup. Mattermost and
+// Rocket.Chat accept the same payload.
+export function createSlackNotifier({ url, requestTimeout = 10 * 1000 }: { url: string; requestTimeout?: number }): Notifier {
+  return {
+    name: 'slack',
+
+    async send({ title, text }) {
+      await postJson(url, { text: `*${title}*\n${text}` }, { requestTimeout });
+    }
+  };
+}
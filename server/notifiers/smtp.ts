@@ -0,0 +1,212 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+import type { Notifier } from "./index.js";
+
+// Just enough SMTP to hand a plain-text message to a relay: EHLO, STARTTLS
+// when the server offers it (or TLS from the start with `secure`), AUTH PLAIN
+// when a user is set, then MAIL, RCPT, DATA and QUIT. Credentials are only
+// ever sent over TLS.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+type Socket = net.Socket | tls.TLSSocket;
+
+function openConnection({ host, port, secure, timeout }: { host: string; port: number; secure: boolean; timeout: number }): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    socket.setTimeout(timeout, () => socket.destroy(new Error(`SMTP server ${host}:${port} did not answer in time`)));
+    socket.once(secure ? 'secureConnect' : 'connect', () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+// Replies are read one at a time; a multi-line reply ends at the line whose
+// code is followed by a space.
+function createReplyReader(socket: Socket) {
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+
+  function deliver(reply: SmtpReply) {
+    const waiter = waiting.shift();
+    if (waiter) {
+      waiter.resolve(reply);
+    } else {
+      replies.push(reply);
+    }
+  }
+
+  function onData(chunk: Buffer) {
+    buffer += chunk.toString('utf8');
+    let index;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        deliver({ code: Number(line.slice(0, 3)), lines: lines.map(text => text.slice(4)) });
+        lines = [];
+      }
+    }
+  }
+
+  function onFailure(error: Error | null) {
+    failure = failure || error || new Error('SMTP connection closed unexpectedly');
+    waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+  }
+  const onClose = () => onFailure(null);
+
+  socket.on('data', onData);
+  socket.on('error', onFailure);
+  socket.on('close', onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      if (replies.length > 0) {
+        return Promise.resolve(replies.shift()!);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onFailure);
+      socket.off('close', onClose);
+    }
+  };
+}
+
+const encodeHeader = (value: string): string => (
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+);
+
+export function buildMessage({ from, to, subject, text }: MailMessage): string {
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd();
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+export async function sendMail({
+  host,
+  port = 25,
+  secure = false,
+  user,
+  password,
+  from,
+  to,
+  subject,
+  text,
+  timeout = 15 * 1000
+}: Partial<SmtpOptions> & MailMessage & { host: string; timeout?: number }): Promise<void> {
+  let socket = await openConnection({ host, port, secure, timeout });
+  let reader = createReplyReader(socket);
+  let encrypted = secure;
+
+  async function command(line: string | null, expectedCodes: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+    const reply = await reader.next();
+    if (!expectedCodes.includes(reply.code)) {
+      const verb = line === null ? 'Greeting' : line.split(' ')[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  try {
+    await command(null, [220]);
+    const hello = await command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!secure && hello.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      const plain = socket;
+      socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const upgraded = tls.connect({ socket: plain, servername: host }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+      encrypted = true;
+      reader = createReplyReader(socket);
+      await command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (user) {
+      // Without TLS the password would cross the network readable by anyone
+      // on the path, including whoever stripped STARTTLS from the reply
+      if (!encrypted) {
+        throw new Error(`SMTP server ${host}:${port} did not offer STARTTLS; not sending the password unencrypted. Set ALERT_SMTP_SECURE=true for a TLS-only port.`);
+      }
+      const credentials = Buffer.from(`\0${user}\0${password || ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${from}>`, [250]);
+    for (const recipient of to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+    // base64 lines never start with a dot, so no dot-stuffing is needed
+    await command(`${buildMessage({ from, to, subject, text })}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => {});
+  } finally {
+    reader.detach();
+    socket.on('error', () => {});
+    socket.destroy();
+  }
+}
+
+export function createSmtpNotifier({
+  host,
+  port,
+  secure,
+  user,
+  password,
+  from = `backups@${os.hostname()}`,
+  to
+}: Partial<SmtpOptions> & { host: string; to: string[] }): Notifier {
+  return {
+    name: 'email',
+
+    async send({ title, text }) {
+      await sendMail({ host, port, secure, user, password, from, to, subject: title, text });
+    }
+  };
+}
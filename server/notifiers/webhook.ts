@@ -0,0 +1,35 @@
+import type { Notifier } from "./index.js";
+
+// POSTs the whole notification as JSON, for anything that wants to act on
+// alerts itself: { event, title, text, alert }
+export async function postJson(url: string, body: unknown, { requestTimeout }: { requestTimeout: number }): Promise<void> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+  }, requestTimeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function createWebhookNotifier({ url, requestTimeout = 10 * 1000 }: { url: string; requestTimeout?: number }): Notifier {
+  return {
+    name: 'webhook',
+
+    async send(notification) {
+      await postJson(url, notification, { requestTimeout });
+    }
+  };
+}
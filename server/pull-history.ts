@@ -0,0 +1,80 @@
+import { AUDIT_OUTCOMES } from "./audit.js";
+import { EVENT_TYPES } from "./events.js";
+import type { BackupJob } from "./types.js";
+import type { createStorage } from "./storage/index.js";
+import type { createAuditLog } from "./audit.js";
+import type { createEventStream } from "./events.js";
+
+export interface PullHistoryEntry {
+  jobId: string | null;
+  requestedAt: string;
+  requestedBy: string | null;
+  dbname: string | null;
+  state: string | null;
+  backupResult: unknown;
+  requestError: string | null;
+  error: string | null;
+  durationMs: number | null;
+  environmentStatus: string | null;
+  finishedAt: string | null;
+}
+
+export function toPullHistoryEntry(job: BackupJob): PullHistoryEntry {
+  const requestedAt = job.requestedAt || job.createdAt;
+  const finishedAt = job.finishedAt || null;
+
+  return {
+    jobId: job.id,
+    requestedAt: requestedAt,
+    requestedBy: job.requestedBy || null,
+    dbname: job.dbname,
+    state: job.state,
+    backupResult: job.result || null,
+    requestError: job.requestError || null,
+    error: job.error || null,
+    durationMs: finishedAt ? new Date(finishedAt).getTime() - new Date(requestedAt).getTime() : null,
+    environmentStatus: job.environmentStatus || null,
+    finishedAt: finishedAt
+  };
+}
+
+// Last-pulled times and the per-customer pull history
+export function createPullRecorder({
+  storage,
+  audit,
+  events
+}: {
+  storage: ReturnType<typeof createStorage>;
+  audit: ReturnType<typeof createAuditLog>;
+  events: ReturnType<typeof createEventStream>;
+}) {
+  async function recordPullClick(customerId: string | number) {
+    try {
+      const now = new Date().toISOString();
+      await storage.recordPull(customerId, now);
+      events.publish(EVENT_TYPES.PULL, { customerId: customerId, lastPulled: now });
+      return { success: true as const, timestamp: now };
+    } catch (error) {
+      console.error('Error recording pull click:', error);
+      return { success: false as const, error: (error as Error).message };
+    }
+  }
+
+  // History entries are only ever appended, once the pull has an outcome, so
+  // earlier pulls are never overwritten by later ones.
+  async function appendPullHistory(job: BackupJob) {
+    await storage.appendPullHistory(job.customerId, toPullHistoryEntry(job));
+    await audit.record(null, 'backup_finished', {
+      actor: job.requestedBy,
+      outcome: job.state === 'ready' ? AUDIT_OUTCOMES.SUCCESS : AUDIT_OUTCOMES.FAILURE,
+      customerId: job.customerId,
+      domain: job.domain,
+      details: { jobId: job.id, state: job.state, error: job.error || undefined }
+    });
+  }
+
+  return {
+    recordPullClick,
+    appendPullHistory
+  };
+}
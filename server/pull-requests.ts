@@ -0,0 +1,118 @@
+import { hasPermission, PERMISSIONS } from "./auth/index.js";
+import { AUDIT_OUTCOMES } from "./audit.js";
+import { hasValidDomain } from "./customers.js";
+import { isEnterpriseTier } from "../shared/customer-query.js";
+import { isFlagSet } from "../shared/customer.js";
+import type { ActingUser, BackupJob } from "./types.js";
+import type { createCustomerDirectory } from "./customers.js";
+import type { createResidentDatabases } from "./resident-databases.js";
+import type { createBackupJobTracker } from "./backup-jobs.js";
+import type { createAuditLog } from "./audit.js";
+import type { createPullRecorder } from "./pull-history.js";
+
+export interface PullOptions {
+  override?: boolean;
+  batchId?: string | null;
+  scheduleId?: string | null;
+}
+
+export interface PullOutcome {
+  status: number;
+  body: { success?: boolean; job?: BackupJob; message?: string; error?: string };
+}
+
+export function createPullRequester({
+  customers,
+  residentDatabases,
+  backupJobs,
+  audit,
+  pulls
+}: {
+  customers: ReturnType<typeof createCustomerDirectory>;
+  residentDatabases: ReturnType<typeof createResidentDatabases>;
+  backupJobs: ReturnType<typeof createBackupJobTracker>;
+  audit: ReturnType<typeof createAuditLog>;
+  pulls: ReturnType<typeof createPullRecorder>;
+}) {
+  // Checks one customer against the caller's role and the ITAR/resident rules
+  // and queues a pull job. Shared by single, bulk and scheduled pulls, so all
+  // of them enforce exactly the same rules; returns the HTTP status and body
+  // for that customer.
+  async function queueBackupPull(
+    acting: ActingUser,
+    customerId: string | number | undefined,
+    { override = false, batchId = null, scheduleId = null }: PullOptions = {}
+  ): Promise<PullOutcome> {
+    if (!customerId) {
+      return { status: 400, body: { error: "Customer ID is required" } };
+    }
+
+    const customer = await customers.findCustomer(customerId);
+
+    if (!customer) {
+      return { status: 404, body: { error: "Customer not found" } };
+    }
+
+    const dbname = customer.domain;
+    const residentHosting = isFlagSet(customer.resident_hosting);
+    const itarHosting = isFlagSet(customer.itar_hosting_bc);
+
+    if (!hasValidDomain(dbname)) {
+      return { status: 400, body: { error: "Database name is required" } };
+    }
+
+    if (isEnterpriseTier(customer.priority_support) && !hasPermission(acting.user, PERMISSIONS.PULL_ENTERPRISE_BACKUP)) {
+      await audit.record(acting, 'backup_request', { outcome: AUDIT_OUTCOMES.DENIED, customerId: customer.id, domain: dbname, details: { reason: 'enterprise' } });
+      return { status: 403, body: { error: "You do not have permission to pull backups for Enterprise customers" } };
+    }
+
+    const isRestricted = itarHosting || (residentHosting && !residentDatabases.has(dbname));
+    const canOverride = Boolean(override) && hasPermission(acting.user, PERMISSIONS.OVERRIDE_RESTRICTIONS);
+
+    if (isRestricted && !canOverride) {
+      if (override) {
+        await audit.record(acting, 'backup_request', { outcome: AUDIT_OUTCOMES.DENIED, customerId: customer.id, domain: dbname, details: { reason: 'override' } });
+        return { status: 403, body: { error: "You do not have permission to override ITAR/resident restrictions" } };
+      }
+      if (itarHosting) {
+        return { status: 400, body: { error: "Backups cannot be pulled for ITAR hosting customers" } };
+      }
+      return { status: 400, body: { error: "No resident database is configured for this customer" } };
+    }
+
+    const { job, created } = await backupJobs.createJob({
+      customerId: customer.id,
+      customerName: customer.name,
+      domain: dbname,
+      dbname,
+      // An override pull is watched like a regular devel restore
+      residentHosting: residentHosting && !isRestricted,
+      itarHosting: itarHosting && !isRestricted,
+      requestedBy: acting.user?.username,
+      batchId,
+      scheduleId
+    });
+
+    if (created) {
+      await pulls.recordPullClick(customer.id);
+      await audit.record(acting, 'backup_request', {
+        customerId: job.customerId,
+        domain: dbname,
+        details: { jobId: job.id, override: isRestricted, batchId: batchId || undefined, scheduleId: scheduleId || undefined }
+      });
+    }
+
+    return {
+      status: created ? 202 : 200,
+      body: {
+        success: true,
+        job: job,
+        message: created ? "Backup request queued" : "A backup pull is already in progress for this customer"
+      }
+    };
+  }
+
+  return {
+    queueBackupPull
+  };
+}
@@ -0,0 +1,223 @@
+import fs from "fs/promises";
+import { watch } from "fs";
+import type { FSWatcher } from "fs";
+import path from "path";
+
+// CETEC domains are hostnames; database names are MySQL identifiers
+const DOMAIN_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+const DATABASE_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+
+export class ResidentDatabaseError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ResidentDatabaseError';
+    this.status = status;
+  }
+}
+
+export interface ResidentDatabaseMapping {
+  domain: string;
+  database: string;
+}
+
+// Domains are matched without regard to case or surrounding whitespace, so
+// "WAYNE" in CETEC finds the "wayne" mapping
+export function normalizeResidentDomain(domain: string | null | undefined): string {
+  return String(domain ?? '').trim().toLowerCase();
+}
+
+function validateDomain(domain: unknown): string {
+  const normalized = normalizeResidentDomain(domain as string);
+  if (!normalized) {
+    throw new ResidentDatabaseError('Domain is required');
+  }
+  if (!DOMAIN_PATTERN.test(normalized)) {
+    throw new ResidentDatabaseError('Domain may only contain letters, digits, hyphens and dots');
+  }
+  return normalized;
+}
+
+function validateDatabase(database: unknown): string {
+  const name = String(database ?? '').trim();
+  if (!name) {
+    throw new ResidentDatabaseError('Database name is required');
+  }
+  if (!DATABASE_PATTERN.test(name)) {
+    throw new ResidentDatabaseError('Database name may only contain letters, digits and underscores (at most 64)');
+  }
+  return name;
+}
+
+// Keys are lower-cased on the way in; a second spelling of the same domain is
+// dropped with a warning rather than silently winning
+function toMappings(raw: unknown): Map<string, string> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('expected an object of domain -> database');
+  }
+
+  const mappings = new Map<string, string>();
+  Object.entries(raw as Record<string, unknown>).forEach(([domain, database]) => {
+    const key = normalizeResidentDomain(domain);
+    if (!key || typeof database !== 'string' || !database) {
+      console.warn(`[CONFIG] Ignoring resident DB entry "${domain}": expected a domain and a database name`);
+      return;
+    }
+    if (mappings.has(key)) {
+      console.warn(`[CONFIG] Ignoring resident DB entry "${domain}": ${key} is already mapped to ${mappings.get(key)}`);
+      return;
+    }
+    mappings.set(key, database);
+  });
+  return mappings;
+}
+
+// The resident-hosting domain -> database map that decides which resident
+// customers can be pulled. It lives in a JSON file:
+//   { "wayne": "wayne_resident" }
+// which admins edit through /api/resident-databases. Hand edits to the file
+// are picked up while the server runs once watch() has been called.
+export function createResidentDatabases({ file }: { file: string }) {
+  let mappings = new Map<string, string>();
+  let watcher: FSWatcher | null = null;
+  let reloadTimer: NodeJS.Timeout | null = null;
+  // Writes go one at a time so two admins saving at once can't lose an edit
+  let writing: Promise<unknown> = Promise.resolve();
+
+  // A file that is missing or unreadable at startup means no mappings; one
+  // that breaks while the server runs keeps the mappings already loaded.
+  async function load() {
+    try {
+      mappings = toMappings(JSON.parse(await fs.readFile(file, 'utf8')));
+    } catch (error) {
+      console.warn('[CONFIG] Could not load resident DBs configuration:', (error as Error).message);
+      if (!watcher) {
+        mappings = new Map();
+      }
+    }
+  }
+
+  async function save(next: Map<string, string>) {
+    const sorted = Object.fromEntries(Array.from(next.entries()).sort(([a], [b]) => a.localeCompare(b)));
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tempFile, `${JSON.stringify(sorted, null, 2)}\n`);
+    await fs.rename(tempFile, file);
+    mappings = next;
+  }
+
+  function update<T>(change: (next: Map<string, string>) => T): Promise<T> {
+    const run = writing.then(async () => {
+      const next = new Map(mappings);
+      const result = change(next);
+      await save(next);
+      return result;
+    });
+    writing = run.catch(() => {});
+    return run;
+  }
+
+  function list(): ResidentDatabaseMapping[] {
+    return Array.from(mappings.entries())
+      .map(([domain, database]) => ({ domain, database }))
+      .sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  function find(domain: string | null | undefined): ResidentDatabaseMapping | null {
+    const key = normalizeResidentDomain(domain);
+    const database = key ? mappings.get(key) : undefined;
+    return database === undefined ? null : { domain: key, database };
+  }
+
+  function has(domain: string | null | undefined): boolean {
+    return find(domain) !== null;
+  }
+
+  function getDatabaseName(domain: string | null | undefined): string | null {
+    return find(domain)?.database ?? null;
+  }
+
+  function create({ domain, database }: { domain?: unknown; database?: unknown }): Promise<ResidentDatabaseMapping> {
+    const key = validateDomain(domain);
+    const name = validateDatabase(database);
+    return update(next => {
+      if (next.has(key)) {
+        throw new ResidentDatabaseError(`${key} is already mapped to ${next.get(key)}`, 409);
+      }
+      next.set(key, name);
+      return { domain: key, database: name };
+    });
+  }
+
+  function replace(domain: string, { database }: { database?: unknown }): Promise<ResidentDatabaseMapping & { previous: string }> {
+    const key = normalizeResidentDomain(domain);
+    const name = validateDatabase(database);
+    return update(next => {
+      const previous = next.get(key);
+      if (previous === undefined) {
+        throw new ResidentDatabaseError('Resident DB mapping not found', 404);
+      }
+      next.set(key, name);
+      return { domain: key, database: name, previous };
+    });
+  }
+
+  function remove(domain: string): Promise<ResidentDatabaseMapping> {
+    const key = normalizeResidentDomain(domain);
+    return update(next => {
+      const database = next.get(key);
+      if (database === undefined) {
+        throw new ResidentDatabaseError('Resident DB mapping not found', 404);
+      }
+      next.delete(key);
+      return { domain: key, database };
+    });
+  }
+
+  // Watches the directory rather than the file, since editors and save()
+  // replace the file instead of writing to it
+  function startWatching() {
+    if (watcher) {
+      return;
+    }
+    try {
+      watcher = watch(path.dirname(file), (_eventType, filename) => {
+        if (filename !== path.basename(file)) {
+          return;
+        }
+        if (reloadTimer) {
+          clearTimeout(reloadTimer);
+        }
+        reloadTimer = setTimeout(() => {
+          reloadTimer = null;
+          writing = writing.then(load);
+        }, 200);
+      });
+    } catch (error) {
+      console.warn(`[CONFIG] Not watching ${file} for changes:`, (error as Error).message);
+    }
+  }
+
+  function stopWatching() {
+    if (reloadTimer) {
+      clearTimeout(reloadTimer);
+      reloadTimer = null;
+    }
+    watcher?.close();
+    watcher = null;
+  }
+
+  return {
+    load,
+    list,
+    find,
+    has,
+    getDatabaseName,
+    create,
+    replace,
+    remove,
+    startWatching,
+    stopWatching
+  };
+}
@@ -0,0 +1,95 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { requirePermission, PERMISSIONS } from "../auth/index.js";
+import { AlertError } from "../alerts.js";
+import type { ServerContext } from "../types.js";
+
+function sendAlertError(res: Response, error: unknown, message: string) {
+  if (error instanceof AlertError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ success: false, error: (error as Error).message, message: message });
+}
+
+// Anyone signed in can see the rules and the alerts they raised; only admins
+// change rules, send test notifications or run a check on demand.
+export function createAlertRoutes({ alertMonitor, audit }: ServerContext): Router {
+  const router = Router();
+
+  router.get("/api/alerts", async (_req, res) => {
+    try {
+      res.json({ success: true, alerts: await alertMonitor.listAlerts() });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to load alerts");
+    }
+  });
+
+  router.post("/api/alerts/check", requirePermission(PERMISSIONS.MANAGE_ALERTS), async (_req, res) => {
+    try {
+      const { opened, resolved } = await alertMonitor.check();
+      res.json({ success: true, opened: opened, resolved: resolved });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to check alert rules");
+    }
+  });
+
+  router.get("/api/alert-rules", (_req, res) => {
+    res.json({ success: true, rules: alertMonitor.listRules(), channels: alertMonitor.configuredChannels() });
+  });
+
+  router.post("/api/alert-rules", requirePermission(PERMISSIONS.MANAGE_ALERTS), async (req, res) => {
+    try {
+      const { name, kind, threshold, priority_support, channels, enabled } = req.body || {};
+      const rule = await alertMonitor.createRule({ name, kind, threshold, priority_support, channels, enabled }, req.user?.username || null);
+
+      await audit.record(req, 'alert_rule_create', {
+        details: { ruleId: rule.id, name: rule.name, kind: rule.kind, threshold: rule.threshold }
+      });
+
+      res.status(201).json({ success: true, rule: rule });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to create alert rule");
+    }
+  });
+
+  router.put("/api/alert-rules/:id", requirePermission(PERMISSIONS.MANAGE_ALERTS), async (req, res) => {
+    try {
+      const { name, kind, threshold, priority_support, channels, enabled } = req.body || {};
+      const rule = await alertMonitor.updateRule(req.params.id, { name, kind, threshold, priority_support, channels, enabled });
+
+      await audit.record(req, 'alert_rule_update', {
+        details: { ruleId: rule.id, name: rule.name, threshold: rule.threshold, enabled: rule.enabled }
+      });
+
+      res.json({ success: true, rule: rule });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to update alert rule");
+    }
+  });
+
+  router.delete("/api/alert-rules/:id", requirePermission(PERMISSIONS.MANAGE_ALERTS), async (req, res) => {
+    try {
+      const rule = await alertMonitor.removeRule(req.params.id);
+
+      await audit.record(req, 'alert_rule_delete', {
+        details: { ruleId: rule.id, name: rule.name }
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to delete alert rule");
+    }
+  });
+
+  router.post("/api/alert-rules/:id/test", requirePermission(PERMISSIONS.MANAGE_ALERTS), async (req, res) => {
+    try {
+      const deliveries = await alertMonitor.testRule(req.params.id);
+      res.json({ success: deliveries.every(delivery => delivery.ok), deliveries: deliveries });
+    } catch (error) {
+      sendAlertError(res, error, "Failed to send test notification");
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { requirePermission, PERMISSIONS } from "../auth/index.js";
+import { auditEntriesToCsv } from "../audit.js";
+import type { ServerContext } from "../types.js";
+
+function parseAuditFilters(query: Request['query']) {
+  const { actor, action, outcome, customerId, domain, from, to } = query as Record<string, string | undefined>;
+  return {
+    actor: actor || undefined,
+    action: action || undefined,
+    outcome: outcome || undefined,
+    customerId: customerId || undefined,
+    domain: domain || undefined,
+    from: from || undefined,
+    to: to || undefined
+  };
+}
+
+export function createAuditRoutes({ audit }: ServerContext): Router {
+  const router = Router();
+
+  router.get("/api/audit", requirePermission(PERMISSIONS.VIEW_AUDIT), async (req, res) => {
+    try {
+      const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+      const pageSize = Math.min(500, Math.max(1, parseInt(String(req.query.pageSize), 10) || 50));
+
+      const result = await audit.query(parseAuditFilters(req.query), { page, pageSize });
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error('Error querying audit log:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Failed to load audit log" });
+    }
+  });
+
+  router.get("/api/audit/export", requirePermission(PERMISSIONS.VIEW_AUDIT), async (req, res) => {
+    try {
+      const entries = await audit.exportAll(parseAuditFilters(req.query));
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      await audit.record(req, 'export_audit', { details: { entries: entries.length } });
+
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(auditEntriesToCsv(entries));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Failed to export audit log" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { toClientUser } from "../auth/index.js";
+import { AUDIT_OUTCOMES } from "../audit.js";
+import type { ServerContext } from "../types.js";
+
+export function createAuthRoutes({ authProvider, sessions, audit }: ServerContext): Router {
+  const router = Router();
+
+  router.post("/api/auth/login", async (req, res) => {
+    try {
+      const { username, password } = req.body || {};
+
+      if (!username || !password) {
+        return res.status(400).json({ error: "Username and password are required" });
+      }
+
+      const user = await authProvider.authenticate(username, password);
+
+      if (!user) {
+        await audit.record(req, 'login', { outcome: AUDIT_OUTCOMES.FAILURE, actor: username });
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      await sessions.startSession(res, user);
+      await audit.record(req, 'login', { actor: user.username, details: { role: user.role } });
+
+      res.json({ success: true, user: toClientUser(user) });
+    } catch (error) {
+      console.error('Error during login:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Login failed" });
+    }
+  });
+
+  router.post("/api/auth/logout", async (req, res) => {
+    try {
+      await sessions.endSession(req, res);
+      if (req.user) {
+        await audit.record(req, 'logout');
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error during logout:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Logout failed" });
+    }
+  });
+
+  router.get("/api/auth/session", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json({ success: true, user: toClientUser(req.user) });
+  });
+
+  return router;
+}
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { randomUUID } from "crypto";
+import { requirePermission, PERMISSIONS } from "../auth/index.js";
+import { AUDIT_OUTCOMES } from "../audit.js";
+import type { ServerContext } from "../types.js";
+
+const MAX_BULK_PULLS = 50;
+
+export function createBackupRoutes({ backupJobs, pullRequests, audit }: ServerContext): Router {
+  const router = Router();
+
+  router.post("/api/backup/request", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { customerId, override } = req.body;
+      const { status, body } = await pullRequests.queueBackupPull(req, customerId, { override });
+      res.status(status).json(body);
+    } catch (error) {
+      console.error('Error in backup request:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Backup request failed"
+      });
+    }
+  });
+
+  router.post("/api/backup/bulk", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { customerIds } = req.body || {};
+
+      if (!Array.isArray(customerIds) || customerIds.length === 0) {
+        return res.status(400).json({ error: "customerIds must be a non-empty array" });
+      }
+
+      const uniqueIds = Array.from(new Set(customerIds.map(String)));
+      if (uniqueIds.length > MAX_BULK_PULLS) {
+        return res.status(400).json({ error: `At most ${MAX_BULK_PULLS} customers can be pulled at once` });
+      }
+
+      // Overrides are deliberately not available in bulk; restricted customers
+      // have to be pulled one at a time.
+      const batchId = randomUUID();
+      const results = [];
+      for (const customerId of uniqueIds) {
+        try {
+          const { status, body } = await pullRequests.queueBackupPull(req, customerId, { batchId });
+          results.push({ customerId, status, job: body.job || null, error: body.error || null });
+        } catch (error) {
+          console.error(`Error queueing bulk pull for customer ${customerId}:`, error);
+          results.push({ customerId, status: 500, job: null, error: (error as Error).message });
+        }
+      }
+
+      const queued = results.filter(result => result.job).length;
+
+      res.status(202).json({
+        success: true,
+        batchId: batchId,
+        queued: queued,
+        failed: results.length - queued,
+        results: results
+      });
+    } catch (error) {
+      console.error('Error in bulk backup request:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Bulk backup request failed"
+      });
+    }
+  });
+
+  router.get("/api/backup/jobs", async (req, res) => {
+    try {
+      const { customerId, active } = req.query as Record<string, string | undefined>;
+
+      const jobs = backupJobs.listJobs({
+        customerId: customerId || undefined,
+        active: active === undefined ? undefined : active === 'true' || active === '1'
+      });
+
+      res.json({ success: true, jobs: jobs });
+    } catch (error) {
+      console.error('Error listing backup jobs:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Failed to list backup jobs" });
+    }
+  });
+
+  router.get("/api/backup/jobs/:id", async (req, res) => {
+    const job = backupJobs.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ success: false, error: "Backup job not found" });
+    }
+
+    res.json({ success: true, job: job });
+  });
+
+  router.post("/api/backup/jobs/:id/cancel", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { job, cancelled, message } = await backupJobs.cancelJob(req.params.id, { cancelledBy: req.user?.username });
+
+      if (!job) {
+        return res.status(404).json({ success: false, error: message });
+      }
+
+      await audit.record(req, 'backup_cancel', {
+        outcome: cancelled ? AUDIT_OUTCOMES.SUCCESS : AUDIT_OUTCOMES.FAILURE,
+        customerId: job.customerId,
+        domain: job.domain,
+        details: { jobId: job.id, message: message }
+      });
+
+      if (!cancelled) {
+        return res.status(409).json({ success: false, error: message, job: job });
+      }
+
+      res.json({ success: true, job: job });
+    } catch (error) {
+      console.error('Error cancelling backup job:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Failed to cancel backup job" });
+    }
+  });
+
+  return router;
+}
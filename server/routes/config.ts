@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { requirePermission, PERMISSIONS } from "../auth/index.js";
+import { AppConfigError } from "../app-config.js";
+import type { ServerContext } from "../types.js";
+
+export function createConfigRoutes({ appConfig, audit }: ServerContext): Router {
+  const router = Router();
+
+  // Every signed-in dashboard loads this at startup; the defaults are for the
+  // Settings page
+  router.get("/api/config", (_req, res) => {
+    res.json({ success: true, config: appConfig.get(), defaults: appConfig.getDefaults() });
+  });
+
+  // Takes any subset of sections and keys, e.g. { "ui": { "tablePageSize": 100 } }
+  router.put("/api/config", requirePermission(PERMISSIONS.MANAGE_SETTINGS), async (req, res) => {
+    try {
+      const { config, changed } = await appConfig.update(req.body);
+
+      if (changed.length > 0) {
+        await audit.record(req, 'config_update', {
+          details: Object.fromEntries(changed.map(path => {
+            const [section, key] = path.split('.');
+            return [path, (config[section as keyof typeof config] as Record<string, unknown>)[key]];
+          }))
+        });
+      }
+
+      res.json({ success: true, config: config, changed: changed });
+    } catch (error) {
+      if (error instanceof AppConfigError) {
+        return res.status(error.status).json({ success: false, error: error.message, errors: error.errors });
+      }
+      console.error('Error updating settings:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Failed to update settings" });
+    }
+  });
+
+  return router;
+}
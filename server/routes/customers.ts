@@ -0,0 +1,301 @@
+import { Router } from "express";
+import { hasPermission, requirePermission, PERMISSIONS } from "../auth/index.js";
+import { AUDIT_OUTCOMES } from "../audit.js";
+import { buildEnvironmentLoginUrl, LoginLinkError } from "../login-links.js";
+import { toPullHistoryEntry } from "../pull-history.js";
+import { toEnvironmentStatus } from "../devel-environments.js";
+import { NO_ENVIRONMENT_DETAILS } from "../../shared/customer.js";
+import {
+  compareCustomers,
+  getCustomerFacets,
+  matchesCustomerFilters,
+  parseCustomerQuery,
+  summarizeCustomers
+} from "../../shared/customer-query.js";
+import type { Request } from "express";
+import type { CachedEnvironmentStatus } from "../devel-environments.js";
+import type { CetecCustomer, Customer, CustomerDetail, EnvironmentState, EnvironmentStatus } from "../../shared/customer.js";
+import type { CustomerPage } from "../../shared/customer-query.js";
+import type { ServerContext } from "../types.js";
+
+// Columns the customer page never shows, whatever CETEC adds in future
+const SECRET_FIELD = /password|token|secret/i;
+
+function withoutSecrets<T extends object>(record: T): Omit<T, 'techx_password'> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !SECRET_FIELD.test(key))) as Omit<T, 'techx_password'>;
+}
+
+export function createCustomerRoutes({
+  customers,
+  residentDatabases,
+  environmentMonitor,
+  scheduler,
+  storage,
+  backupJobs,
+  audit,
+  pulls,
+  appConfig,
+  develUrlTemplate
+}: ServerContext): Router {
+  const router = Router();
+
+  // Customers whose status can't be read off the record get the last result
+  // from the background validation sweep. Until the first sweep reaches them
+  // they stay pending and the card updates over /api/events.
+  function getEnvironmentStatus(customer: CetecCustomer): EnvironmentStatus {
+    const staticStatus = customers.getStaticEnvironmentStatus(customer);
+    if (staticStatus) {
+      return staticStatus;
+    }
+
+    const cached: CachedEnvironmentStatus | null = environmentMonitor.getStatus(customer.id);
+    return cached ? toEnvironmentStatus(cached) : { state: 'pending_validation', reason: 'not_checked_yet', ...NO_ENVIRONMENT_DETAILS };
+  }
+
+  // Production passwords stay on the server; the card only needs to know
+  // whether a production login exists for the open broker to use. Any other
+  // secret column, e.g. one asked for with ?columns=, is dropped too.
+  async function toCustomers(req: Request, cetecCustomers: CetecCustomer[], statuses = cetecCustomers.map(getEnvironmentStatus)): Promise<Customer[]> {
+    const lastPulledTimes = await storage.getLastPulledTimes();
+    const canOpenProduction = hasPermission(req.user, PERMISSIONS.OPEN_PRODUCTION);
+
+    return cetecCustomers.map(({ techx_password, ...customer }, index): Customer => ({
+      ...withoutSecrets(customer),
+      has_production_login: canOpenProduction && Boolean(techx_password),
+      environment: statuses[index],
+      lastPulled: lastPulledTimes[String(customer.id)] || null,
+      nextScheduledPull: scheduler.getNextRunForCustomer(customer.id)
+    }));
+  }
+
+  // One page of the customer list, searched, filtered and sorted here so the
+  // dashboard only ever renders a page of cards. Takes search, the filter
+  // columns, sort, order, page and pageSize (default ui.tablePageSize).
+  // refresh=true reloads the list from CETEC first, and since=<listVersion>
+  // adds what changed after that version of the list.
+  router.get("/api/customers", async (req, res) => {
+    try {
+      if (!process.env.PRESHARED_TOKEN) {
+        return res.status(400).json({ success: false, error: "PRESHARED_TOKEN is not configured" });
+      }
+
+      const config = appConfig.get();
+      const query = parseCustomerQuery(req.query, { pageSize: config.ui.tablePageSize });
+      const since = typeof req.query.since === 'string' ? req.query.since : null;
+
+      const list = await customers.listCustomers({ refresh: req.query.refresh === 'true' });
+      const allCustomers = await toCustomers(req, list.customers);
+      const matching = allCustomers
+        .filter(customer => matchesCustomerFilters(customer, query, config))
+        .sort(compareCustomers(query));
+
+      const lastPage = Math.max(1, Math.ceil(matching.length / query.pageSize));
+      const page = Math.min(query.page, lastPage);
+      const start = (page - 1) * query.pageSize;
+
+      const result: CustomerPage = {
+        success: true,
+        customers: matching.slice(start, start + query.pageSize),
+        total: matching.length,
+        totalCustomers: allCustomers.length,
+        page: page,
+        pageSize: query.pageSize,
+        summary: summarizeCustomers(allCustomers, matching),
+        facets: getCustomerFacets(allCustomers),
+        listVersion: list.version,
+        changes: since && since !== list.version ? customers.getChangesSince(since) : null
+      };
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error in /api/customers:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Failed to fetch customer data"
+      });
+    }
+  });
+
+  // Everything known about one customer, for the customer page. Pull history
+  // and schedules come from their own endpoints.
+  router.get("/api/customers/:id", async (req, res) => {
+    try {
+      if (!process.env.PRESHARED_TOKEN) {
+        return res.status(400).json({ success: false, error: "PRESHARED_TOKEN is not configured" });
+      }
+
+      const record = await customers.fetchCustomerRecord(req.params.id);
+      if (!record) {
+        return res.status(404).json({ success: false, error: "Customer not found" });
+      }
+
+      const fields = withoutSecrets(record);
+      const [customer] = await toCustomers(req, [record]);
+      const history: CachedEnvironmentStatus[] = await environmentMonitor.getHistory(record.id);
+
+      const result: CustomerDetail = {
+        success: true,
+        customer: customer,
+        fields: fields,
+        residentDatabase: residentDatabases.getDatabaseName(record.domain),
+        environmentHistory: history.map(toEnvironmentStatus)
+      };
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error loading customer:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Failed to load customer"
+      });
+    }
+  });
+
+  router.get("/api/cetec/customer", async (req, res) => {
+    try {
+      const { id, name, external_key, columns } = req.query as Record<string, string | undefined>;
+      const presharedToken = process.env.PRESHARED_TOKEN || (req.query.preshared_token as string | undefined);
+
+      if (!presharedToken) {
+        return res.status(400).json({ error: "preshared_token is required" });
+      }
+
+      const responseData = await customers.fetchCustomers({ id, name, external_key, columns }, presharedToken);
+      if (!Array.isArray(responseData)) {
+        return res.status(502).json({
+          error: "CETEC returned unexpected data format",
+          message: "Failed to fetch customer data"
+        });
+      }
+
+      const statuses = responseData.map(getEnvironmentStatus);
+      const enrichedData = await toCustomers(req, responseData, statuses);
+
+      const countState = (state: EnvironmentState) => statuses.filter(status => status.state === state).length;
+      const totalCustomers = enrichedData.length;
+
+      const result = {
+        customers: enrichedData,
+        metadata: {
+          total_customers: totalCustomers,
+          mysql_status: 'link_validation_mode',
+          mysql_enabled: false,
+          timestamp: new Date().toISOString(),
+          summary: {
+            total_customers: totalCustomers,
+            pending_validation: countState('pending_validation'),
+            resident_hosting: countState('resident_hosting'),
+            itar_hosting: countState('itar_hosting'),
+            invalid_domains: countState('invalid_domain')
+          },
+          last_validation_sweep: environmentMonitor.getLastSweep()
+        }
+      };
+
+      res.json(result);
+
+    } catch (error) {
+      console.error('Error in /api/cetec/customer:', error);
+      res.status(500).json({
+        error: (error as Error).message,
+        message: "Failed to fetch customer data"
+      });
+    }
+  });
+
+  router.post("/api/pull/record", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { customerId } = req.body;
+
+      if (!customerId) {
+        return res.status(400).json({ error: "Customer ID is required" });
+      }
+
+      const result = await pulls.recordPullClick(customerId);
+      await audit.record(req, 'record_pull', { customerId: customerId, outcome: result.success ? AUDIT_OUTCOMES.SUCCESS : AUDIT_OUTCOMES.FAILURE });
+
+      if (result.success) {
+        res.json({
+          success: true,
+          customerId: customerId,
+          timestamp: result.timestamp,
+          message: "Pull timestamp recorded successfully"
+        });
+      } else {
+        res.status(500).json({
+          success: false,
+          error: result.error,
+          message: "Failed to record pull timestamp"
+        });
+      }
+
+    } catch (error) {
+      console.error('Error recording pull click:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Internal server error"
+      });
+    }
+  });
+
+  router.get("/api/customers/:id/pulls", async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      const { lastPulled, history } = await storage.getPullHistory(customerId);
+      const activeJob = backupJobs.getActiveJobForCustomer(customerId);
+
+      res.json({
+        success: true,
+        customerId: customerId,
+        lastPulled: lastPulled,
+        pulls: activeJob ? [toPullHistoryEntry(activeJob), ...history] : history
+      });
+    } catch (error) {
+      console.error('Error loading pull history:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Failed to load pull history"
+      });
+    }
+  });
+
+  router.get("/api/customers/:id/open/:env", async (req, res) => {
+    const { id, env } = req.params;
+
+    try {
+      if (env === 'production' && !hasPermission(req.user, PERMISSIONS.OPEN_PRODUCTION)) {
+        await audit.record(req, 'open_environment', { outcome: AUDIT_OUTCOMES.DENIED, customerId: id, details: { environment: env } });
+        return res.status(403).type('text').send("You do not have permission to open production environments");
+      }
+
+      const customer = await customers.findCustomer(id);
+
+      if (!customer) {
+        return res.status(404).type('text').send("Customer not found");
+      }
+
+      const loginUrl = buildEnvironmentLoginUrl(customer, env, {
+        techxPassword: process.env.TECHX_PASSWORD,
+        develUrlTemplate: develUrlTemplate
+      });
+
+      await audit.record(req, 'open_environment', { customerId: customer.id, domain: customer.domain, details: { environment: env } });
+
+      res.set('Cache-Control', 'no-store');
+      res.set('Referrer-Policy', 'no-referrer');
+      res.redirect(302, loginUrl);
+    } catch (error) {
+      if (error instanceof LoginLinkError) {
+        return res.status(error.status).type('text').send(error.message);
+      }
+      console.error('Error opening environment:', error);
+      res.status(500).type('text').send("Failed to open environment");
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,100 @@
+import { Router } from "express";
+import { toEnvironmentStatus } from "../devel-environments.js";
+import { LoginLinkError } from "../login-links.js";
+import { isFlagSet } from "../../shared/customer.js";
+import type { ServerContext } from "../types.js";
+
+export function createEnvironmentRoutes({ events, customers, environmentMonitor, develEnvironments, audit }: ServerContext): Router {
+  const router = Router();
+
+  // Live job, environment and pull updates for every open tab
+  router.get("/api/events", events.handler);
+
+  router.get("/api/test-mysql", async (_req, res) => {
+    res.json({
+      status: 'deprecated',
+      message: 'MySQL endpoint deprecated - application now uses URL validation instead of database queries',
+      environment: process.env.NODE_ENV || 'development',
+      note: 'This endpoint will be removed in a future version'
+    });
+
+  });
+
+  // NEW ENDPOINT: URL validation for checking if development environment is ready.
+  // The result is cached and broadcast, so the domain and hosting flags come
+  // from the customer's CETEC record rather than the request.
+  router.post("/api/validate-environment", async (req, res) => {
+    try {
+      const { customerId } = req.body || {};
+
+      if (!customerId) {
+        return res.status(400).json({ error: "Customer ID is required" });
+      }
+
+      const customer = await customers.findCustomer(customerId);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      if (!customer.domain) {
+        return res.status(400).json({ error: "Customer has no domain" });
+      }
+
+      const environment = toEnvironmentStatus(await environmentMonitor.checkCustomer({
+        id: customer.id,
+        domain: customer.domain,
+        residentHosting: isFlagSet(customer.resident_hosting),
+        itarHosting: isFlagSet(customer.itar_hosting_bc)
+      }));
+      await audit.record(req, 'validate_environment', {
+        customerId: customer.id,
+        domain: customer.domain,
+        details: { environmentStatus: environment.state, reason: environment.reason, httpStatus: environment.httpStatus ?? undefined }
+      });
+
+      res.json({
+        success: true,
+        customerId: customer.id,
+        domain: customer.domain,
+        environment: environment
+      });
+
+    } catch (error) {
+      if (error instanceof LoginLinkError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error('Error in environment validation:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: "Environment validation failed"
+      });
+    }
+  });
+
+  router.post("/api/validate-link", async (req, res) => {
+    try {
+      const { domain } = req.body;
+      if (!domain) {
+        return res.status(400).json({ error: "Domain is required" });
+      }
+
+      await audit.record(req, 'validate_link', { domain: domain });
+      const link = await develEnvironments.checkLink(domain);
+
+      res.json({
+        success: true,
+        domain: domain,
+        url: develEnvironments.develLoginUrl(domain),
+        ...link
+      });
+    } catch (error) {
+      if (error instanceof LoginLinkError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error('Error in link validation:', error);
+      res.status(500).json({ success: false, error: (error as Error).message, message: "Link validation failed" });
+    }
+  });
+
+  return router;
+}
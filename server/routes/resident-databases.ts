@@ -0,0 +1,71 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { requirePermission, PERMISSIONS } from "../auth/index.js";
+import { ResidentDatabaseError } from "../resident-databases.js";
+import type { ServerContext } from "../types.js";
+
+function sendResidentDatabaseError(res: Response, error: unknown, message: string) {
+  if (error instanceof ResidentDatabaseError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ success: false, error: (error as Error).message, message: message });
+}
+
+export function createResidentDatabaseRoutes({ residentDatabases, audit }: ServerContext): Router {
+  const router = Router();
+  const requireManage = requirePermission(PERMISSIONS.MANAGE_RESIDENT_DATABASES);
+
+  router.get("/api/resident-databases", requireManage, (_req, res) => {
+    res.json({ success: true, mappings: residentDatabases.list() });
+  });
+
+  router.post("/api/resident-databases", requireManage, async (req, res) => {
+    try {
+      const { domain, database } = req.body || {};
+      const mapping = await residentDatabases.create({ domain, database });
+
+      await audit.record(req, 'resident_db_create', {
+        domain: mapping.domain,
+        details: { database: mapping.database }
+      });
+
+      res.status(201).json({ success: true, mapping: mapping });
+    } catch (error) {
+      sendResidentDatabaseError(res, error, "Failed to add resident DB mapping");
+    }
+  });
+
+  router.put("/api/resident-databases/:domain", requireManage, async (req, res) => {
+    try {
+      const { database } = req.body || {};
+      const { previous, ...mapping } = await residentDatabases.replace(req.params.domain, { database });
+
+      await audit.record(req, 'resident_db_update', {
+        domain: mapping.domain,
+        details: { database: mapping.database, previous: previous }
+      });
+
+      res.json({ success: true, mapping: mapping });
+    } catch (error) {
+      sendResidentDatabaseError(res, error, "Failed to update resident DB mapping");
+    }
+  });
+
+  router.delete("/api/resident-databases/:domain", requireManage, async (req, res) => {
+    try {
+      const mapping = await residentDatabases.remove(req.params.domain);
+
+      await audit.record(req, 'resident_db_delete', {
+        domain: mapping.domain,
+        details: { database: mapping.database }
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendResidentDatabaseError(res, error, "Failed to delete resident DB mapping");
+    }
+  });
+
+  return router;
+}
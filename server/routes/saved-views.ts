@@ -0,0 +1,58 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { SavedViewError } from "../saved-views.js";
+import type { ServerContext } from "../types.js";
+
+function sendSavedViewError(res: Response, error: unknown, message: string) {
+  if (error instanceof SavedViewError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ success: false, error: (error as Error).message, message: message });
+}
+
+// Any signed-in user keeps their own views, so no permission is needed and
+// nothing here is audited
+export function createSavedViewRoutes({ savedViews }: ServerContext): Router {
+  const router = Router();
+  const ownerOf = (req: Request) => req.user!.username;
+
+  router.get("/api/saved-views", async (req, res) => {
+    try {
+      res.json({ success: true, views: await savedViews.list(ownerOf(req)) });
+    } catch (error) {
+      sendSavedViewError(res, error, "Failed to load saved views");
+    }
+  });
+
+  router.post("/api/saved-views", async (req, res) => {
+    try {
+      const { name, query } = req.body || {};
+      const view = await savedViews.create(ownerOf(req), { name, query });
+      res.status(201).json({ success: true, view: view });
+    } catch (error) {
+      sendSavedViewError(res, error, "Failed to save view");
+    }
+  });
+
+  router.put("/api/saved-views/:id", async (req, res) => {
+    try {
+      const { name, query } = req.body || {};
+      const view = await savedViews.update(ownerOf(req), req.params.id, { name, query });
+      res.json({ success: true, view: view });
+    } catch (error) {
+      sendSavedViewError(res, error, "Failed to update saved view");
+    }
+  });
+
+  router.delete("/api/saved-views/:id", async (req, res) => {
+    try {
+      await savedViews.remove(ownerOf(req), req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendSavedViewError(res, error, "Failed to delete saved view");
+    }
+  });
+
+  return router;
+}
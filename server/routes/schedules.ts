@@ -0,0 +1,150 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { hasPermission, requirePermission, PERMISSIONS } from "../auth/index.js";
+import { ScheduleError } from "../schedules.js";
+import { isFlagSet } from "../../shared/customer.js";
+import { isEnterpriseTier } from "../../shared/customer-query.js";
+import type { CetecCustomer } from "../../shared/customer.js";
+import type { ServerContext, SessionUser } from "../types.js";
+
+function sendScheduleError(res: Response, error: unknown, message: string) {
+  if (error instanceof ScheduleError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ success: false, error: (error as Error).message, message: message });
+}
+
+export function createScheduleRoutes({ scheduler, customers, residentDatabases, audit }: ServerContext): Router {
+  const router = Router();
+
+  // Schedules run as their owner, so nobody may set up or change one for a
+  // customer they couldn't pull themselves
+  function checkCustomer(user: SessionUser | undefined, customer: CetecCustomer, { restrictions = true } = {}) {
+    if (isEnterpriseTier(customer.priority_support) && !hasPermission(user, PERMISSIONS.PULL_ENTERPRISE_BACKUP)) {
+      return { status: 403, error: "You do not have permission to pull backups for Enterprise customers" };
+    }
+    if (restrictions && (isFlagSet(customer.itar_hosting_bc) || (isFlagSet(customer.resident_hosting) && !residentDatabases.has(customer.domain)))) {
+      return { status: 400, error: "Scheduled pulls are not available for ITAR or unmapped resident customers" };
+    }
+    return null;
+  }
+
+  function findSchedule(id: string) {
+    const schedule = scheduler.get(id);
+    if (!schedule) {
+      throw new ScheduleError('Schedule not found', 404);
+    }
+    return schedule;
+  }
+
+  router.get("/api/schedules", async (req, res) => {
+    const { customerId } = req.query as Record<string, string | undefined>;
+    res.json({ success: true, schedules: scheduler.list({ customerId: customerId || undefined }) });
+  });
+
+  router.post("/api/schedules", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { customerId, frequency, time, dayOfWeek, cron, paused } = req.body || {};
+
+      if (!customerId) {
+        return res.status(400).json({ error: "Customer ID is required" });
+      }
+
+      const customer = await customers.findCustomer(customerId);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+
+      // Catch what would fail every run now rather than at 6am on Monday
+      const refusal = checkCustomer(req.user, customer);
+      if (refusal) {
+        return res.status(refusal.status).json({ error: refusal.error });
+      }
+
+      const schedule = await scheduler.create({
+        customerId: customer.id,
+        customerName: customer.name,
+        frequency,
+        time,
+        dayOfWeek,
+        cron,
+        paused,
+        createdBy: req.user?.username
+      });
+
+      await audit.record(req, 'schedule_create', {
+        customerId: customer.id,
+        domain: customer.domain,
+        details: { scheduleId: schedule.id, cron: schedule.cron }
+      });
+
+      res.status(201).json({ success: true, schedule: schedule });
+    } catch (error) {
+      sendScheduleError(res, error, "Failed to create schedule");
+    }
+  });
+
+  router.put("/api/schedules/:id", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      const { frequency, time, dayOfWeek, cron, paused } = req.body || {};
+      const customer = await customers.findCustomer(findSchedule(req.params.id).customerId);
+      if (!customer) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      // Pausing or resuming leaves the schedule as it was set up, so it can
+      // still be paused after the customer becomes ITAR or loses its
+      // resident database, and it keeps running as its owner
+      const retimed = [frequency, time, dayOfWeek, cron].some(value => value !== undefined);
+      const refusal = checkCustomer(req.user, customer, { restrictions: retimed });
+      if (refusal) {
+        return res.status(refusal.status).json({ error: refusal.error });
+      }
+
+      // Whoever changes the timing takes the schedule over, so it runs with
+      // their role
+      const schedule = await scheduler.update(req.params.id, {
+        frequency,
+        time,
+        dayOfWeek,
+        cron,
+        paused,
+        createdBy: retimed ? req.user?.username : undefined
+      });
+
+      await audit.record(req, 'schedule_update', {
+        customerId: schedule.customerId,
+        details: { scheduleId: schedule.id, cron: schedule.cron, paused: schedule.paused }
+      });
+
+      res.json({ success: true, schedule: schedule });
+    } catch (error) {
+      sendScheduleError(res, error, "Failed to update schedule");
+    }
+  });
+
+  router.delete("/api/schedules/:id", requirePermission(PERMISSIONS.PULL_BACKUP), async (req, res) => {
+    try {
+      // Deleting never pulls anything, so a schedule for a customer that has
+      // since become ITAR or lost its resident database can still be cleared
+      const customer = await customers.findCustomer(findSchedule(req.params.id).customerId);
+      const refusal = customer && checkCustomer(req.user, customer, { restrictions: false });
+      if (refusal) {
+        return res.status(refusal.status).json({ error: refusal.error });
+      }
+
+      const schedule = await scheduler.remove(req.params.id);
+
+      await audit.record(req, 'schedule_delete', {
+        customerId: schedule.customerId,
+        details: { scheduleId: schedule.id }
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      sendScheduleError(res, error, "Failed to delete schedule");
+    }
+  });
+
+  return router;
+}
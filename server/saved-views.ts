@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import { CUSTOMER_FILTER_KEYS, parseCustomerQuery } from "../shared/customer-query.js";
+import type { SavedView, SavedViewQuery } from "../shared/customer-query.js";
+import type { createStorage } from "./storage/index.js";
+
+const MAX_NAME_LENGTH = 60;
+const MAX_VIEWS_PER_USER = 50;
+
+export class SavedViewError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SavedViewError';
+    this.status = status;
+  }
+}
+
+export interface StoredView extends SavedView {
+  owner: string;
+}
+
+function validateName(name: unknown): string {
+  const trimmed = String(name ?? '').trim();
+  if (!trimmed) {
+    throw new SavedViewError('Name is required');
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new SavedViewError(`Name may be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+// Only the search, filters and sort are kept; unknown keys and values are
+// dropped the same way GET /api/customers drops them
+function toViewQuery(query: unknown): SavedViewQuery {
+  if (!query || typeof query !== 'object' || Array.isArray(query)) {
+    throw new SavedViewError('Query must be an object of filters and sort');
+  }
+  const parsed = parseCustomerQuery(query as Record<string, unknown>, { pageSize: 1 });
+  const viewQuery: SavedViewQuery = { sort: parsed.sort, order: parsed.order };
+  CUSTOMER_FILTER_KEYS.forEach(key => {
+    if (parsed[key]) {
+      viewQuery[key] = parsed[key];
+    }
+  });
+  return viewQuery;
+}
+
+const toSavedView = ({ id, name, query, createdAt, updatedAt }: StoredView): SavedView =>
+  ({ id, name, query, createdAt, updatedAt });
+
+// Named customer list views, per user. Nobody sees, changes or removes
+// another user's views; asking for one answers 404 as if it didn't exist.
+export function createSavedViews({ storage }: { storage: ReturnType<typeof createStorage> }) {
+  async function listStored(owner: string): Promise<StoredView[]> {
+    const views: StoredView[] = await storage.listSavedViews(owner);
+    return views.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+  }
+
+  function assertUniqueName(views: StoredView[], name: string, exceptId?: string) {
+    const clash = views.find(view => view.id !== exceptId && view.name.toLowerCase() === name.toLowerCase());
+    if (clash) {
+      throw new SavedViewError(`You already have a view called "${clash.name}"`, 409);
+    }
+  }
+
+  async function list(owner: string): Promise<SavedView[]> {
+    return (await listStored(owner)).map(toSavedView);
+  }
+
+  async function create(owner: string, { name, query }: { name?: unknown; query?: unknown }): Promise<SavedView> {
+    const views = await listStored(owner);
+    const viewName = validateName(name);
+    assertUniqueName(views, viewName);
+    if (views.length >= MAX_VIEWS_PER_USER) {
+      throw new SavedViewError(`You can keep at most ${MAX_VIEWS_PER_USER} saved views`);
+    }
+
+    const now = new Date().toISOString();
+    const view: StoredView = {
+      id: randomUUID(),
+      owner,
+      name: viewName,
+      query: toViewQuery(query),
+      createdAt: now,
+      updatedAt: now
+    };
+    await storage.saveSavedView(view);
+    return toSavedView(view);
+  }
+
+  async function update(owner: string, id: string, { name, query }: { name?: unknown; query?: unknown }): Promise<SavedView> {
+    const views = await listStored(owner);
+    const existing = views.find(view => view.id === id);
+    if (!existing) {
+      throw new SavedViewError('Saved view not found', 404);
+    }
+
+    const view: StoredView = { ...existing, updatedAt: new Date().toISOString() };
+    if (name !== undefined) {
+      view.name = validateName(name);
+      assertUniqueName(views, view.name, id);
+    }
+    if (query !== undefined) {
+      view.query = toViewQuery(query);
+    }
+    await storage.saveSavedView(view);
+    return toSavedView(view);
+  }
+
+  async function remove(owner: string, id: string): Promise<SavedView> {
+    const existing = (await listStored(owner)).find(view => view.id === id);
+    if (!existing) {
+      throw new SavedViewError('Saved view not found', 404);
+    }
+    await storage.deleteSavedView(id);
+    return toSavedView(existing);
+  }
+
+  return { list, create, update, remove };
+}
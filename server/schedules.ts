@@ -0,0 +1,288 @@
+import { randomUUID } from "crypto";
+import { CronExpressionParser } from "cron-parser";
+import type { Storage } from "./storage/index.js";
+
+export const SCHEDULE_FREQUENCIES = ['daily', 'weekly', 'cron'] as const;
+
+export type ScheduleFrequency = typeof SCHEDULE_FREQUENCIES[number];
+
+export interface Schedule {
+  id: string;
+  customerId: string | number;
+  customerName: string | null;
+  frequency: ScheduleFrequency;
+  time: string | null;
+  dayOfWeek: number | null;
+  cron: string;
+  paused: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastJobId: string | null;
+  lastStatus: 'queued' | 'failed' | null;
+  lastError: string | null;
+}
+
+// When a schedule runs, as a request describes it. Values come straight from
+// the request body, so they are checked rather than trusted.
+export interface ScheduleTiming {
+  frequency?: string;
+  time?: string | null;
+  dayOfWeek?: number | string | null;
+  cron?: string | null;
+}
+
+// What running a due schedule came to: the queued job, or why there is none
+export interface ScheduleRunOutcome {
+  job?: { id: string };
+  error?: string;
+}
+
+export class ScheduleError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ScheduleError';
+    this.status = status;
+  }
+}
+
+function parseTime(time: string | null | undefined): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(time || ''));
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new ScheduleError('Time must be HH:MM (24-hour)');
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+// Daily and weekly presets are stored as cron too, so there is only one way a
+// next run is worked out. Cron times use the server's local time zone.
+export function buildCronExpression({ frequency, time, dayOfWeek, cron }: ScheduleTiming): string {
+  switch (frequency) {
+    case 'daily': {
+      const { hour, minute } = parseTime(time);
+      return `${minute} ${hour} * * *`;
+    }
+    case 'weekly': {
+      const { hour, minute } = parseTime(time);
+      // Number(null) and Number('') are 0, which would quietly mean Sunday
+      const day = dayOfWeek === null || dayOfWeek === '' ? NaN : Number(dayOfWeek);
+      if (!Number.isInteger(day) || day < 0 || day > 6) {
+        throw new ScheduleError('Day of week must be 0 (Sunday) to 6 (Saturday)');
+      }
+      return `${minute} ${hour} * * ${day}`;
+    }
+    case 'cron': {
+      const expression = String(cron || '').trim();
+      if (expression.split(/\s+/).length !== 5) {
+        throw new ScheduleError('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+      }
+      try {
+        CronExpressionParser.parse(expression);
+      } catch (error) {
+        throw new ScheduleError(`Invalid cron expression: ${(error as Error).message}`);
+      }
+      return expression;
+    }
+    default:
+      throw new ScheduleError(`Frequency must be one of: ${SCHEDULE_FREQUENCIES.join(', ')}`);
+  }
+}
+
+export function getNextRun(cron: string, from = new Date()): string {
+  return CronExpressionParser.parse(cron, { currentDate: from }).next().toDate().toISOString();
+}
+
+// Recurring pulls per customer. Every minute, any schedule that is due is
+// handed to `runSchedule`, which goes through the same checks and job queue as
+// a pull someone clicked. A run missed while the server was down happens once
+// at startup rather than once per missed slot.
+export function createBackupScheduler({
+  storage,
+  runSchedule,
+  checkInterval = 60 * 1000,
+  onScheduleChanged
+}: {
+  storage: Storage;
+  runSchedule: (schedule: Schedule) => Promise<ScheduleRunOutcome>;
+  checkInterval?: number;
+  onScheduleChanged?: (schedule: Schedule & { deleted?: boolean }) => void;
+}) {
+  const schedules = new Map<string, Schedule>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let ticking = false;
+
+  async function save(schedule: Schedule) {
+    await storage.saveSchedule({ ...schedule });
+    if (onScheduleChanged) {
+      onScheduleChanged({ ...schedule });
+    }
+  }
+
+  async function runDueSchedule(schedule: Schedule) {
+    let outcome: ScheduleRunOutcome;
+    try {
+      outcome = await runSchedule({ ...schedule });
+    } catch (error) {
+      console.error(`[SCHEDULES] Schedule ${schedule.id} failed:`, error);
+      outcome = { error: (error as Error).message };
+    }
+
+    const now = new Date();
+    Object.assign(schedule, {
+      lastRunAt: now.toISOString(),
+      lastJobId: outcome.job ? outcome.job.id : null,
+      lastStatus: outcome.job ? 'queued' : 'failed',
+      lastError: outcome.error || null,
+      nextRunAt: getNextRun(schedule.cron, now),
+      updatedAt: now.toISOString()
+    });
+    await save(schedule);
+  }
+
+  async function tick() {
+    if (ticking) {
+      return;
+    }
+    ticking = true;
+
+    try {
+      const now = new Date().toISOString();
+      const due = Array.from(schedules.values())
+        .filter(schedule => !schedule.paused && schedule.nextRunAt && schedule.nextRunAt <= now);
+
+      for (const schedule of due) {
+        await runDueSchedule(schedule);
+      }
+    } finally {
+      ticking = false;
+    }
+  }
+
+  async function start() {
+    const stored = await storage.listSchedules();
+    stored.forEach(schedule => schedules.set(schedule.id, schedule));
+
+    timer = setInterval(() => {
+      tick().catch(error => console.error('[SCHEDULES] Tick failed:', error));
+    }, checkInterval);
+    await tick();
+  }
+
+  function stop() {
+    clearInterval(timer ?? undefined);
+    timer = null;
+  }
+
+  function list({ customerId }: { customerId?: string | number } = {}): Schedule[] {
+    return Array.from(schedules.values())
+      .filter(schedule => customerId === undefined || String(schedule.customerId) === String(customerId))
+      .sort((a, b) => (a.nextRunAt || '').localeCompare(b.nextRunAt || ''))
+      .map(schedule => ({ ...schedule }));
+  }
+
+  function get(id: string): Schedule | null {
+    const schedule = schedules.get(id);
+    return schedule ? { ...schedule } : null;
+  }
+
+  async function create({ customerId, customerName, frequency, time, dayOfWeek, cron, paused, createdBy }: ScheduleTiming & {
+    customerId: string | number;
+    customerName?: string | null;
+    paused?: boolean;
+    createdBy?: string | null;
+  }): Promise<Schedule> {
+    const expression = buildCronExpression({ frequency, time, dayOfWeek, cron });
+    const now = new Date().toISOString();
+    const schedule: Schedule = {
+      id: randomUUID(),
+      customerId,
+      customerName: customerName || null,
+      // buildCronExpression has already rejected anything else
+      frequency: frequency as ScheduleFrequency,
+      time: frequency === 'cron' ? null : time ?? null,
+      dayOfWeek: frequency === 'weekly' ? Number(dayOfWeek) : null,
+      cron: expression,
+      paused: Boolean(paused),
+      createdBy: createdBy || null,
+      createdAt: now,
+      updatedAt: now,
+      nextRunAt: getNextRun(expression),
+      lastRunAt: null,
+      lastJobId: null,
+      lastStatus: null,
+      lastError: null
+    };
+
+    schedules.set(schedule.id, schedule);
+    await save(schedule);
+    return { ...schedule };
+  }
+
+  async function update(id: string, changes: ScheduleTiming & { paused?: boolean; createdBy?: string }): Promise<Schedule> {
+    const schedule = schedules.get(id);
+    if (!schedule) {
+      throw new ScheduleError('Schedule not found', 404);
+    }
+
+    const timing = {
+      frequency: changes.frequency ?? schedule.frequency,
+      time: changes.time ?? schedule.time,
+      dayOfWeek: changes.dayOfWeek ?? schedule.dayOfWeek,
+      cron: changes.cron ?? schedule.cron
+    };
+    const expression = buildCronExpression(timing);
+
+    Object.assign(schedule, {
+      frequency: timing.frequency as ScheduleFrequency,
+      time: timing.frequency === 'cron' ? null : timing.time ?? null,
+      dayOfWeek: timing.frequency === 'weekly' ? Number(timing.dayOfWeek) : null,
+      cron: expression,
+      paused: changes.paused === undefined ? schedule.paused : Boolean(changes.paused),
+      createdBy: changes.createdBy || schedule.createdBy,
+      // Resuming or re-timing a schedule starts counting from now, so a
+      // schedule paused over its slot does not fire the moment it resumes.
+      nextRunAt: getNextRun(expression),
+      updatedAt: new Date().toISOString()
+    });
+
+    await save(schedule);
+    return { ...schedule };
+  }
+
+  async function remove(id: string): Promise<Schedule> {
+    const schedule = schedules.get(id);
+    if (!schedule) {
+      throw new ScheduleError('Schedule not found', 404);
+    }
+    schedules.delete(id);
+    await storage.deleteSchedule(id);
+    if (onScheduleChanged) {
+      onScheduleChanged({ ...schedule, deleted: true });
+    }
+    return { ...schedule };
+  }
+
+  // Earliest upcoming run for a customer across its active schedules
+  function getNextRunForCustomer(customerId: string | number): string | null {
+    return Array.from(schedules.values())
+      .filter(schedule => !schedule.paused && String(schedule.customerId) === String(customerId))
+      .map(schedule => schedule.nextRunAt)
+      .filter(Boolean)
+      .sort()[0] || null;
+  }
+
+  return {
+    start,
+    stop,
+    list,
+    get,
+    create,
+    update,
+    remove,
+    getNextRunForCustomer
+  };
+}
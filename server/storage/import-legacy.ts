@@ -0,0 +1,62 @@
+import fs from "fs/promises";
+import type { Storage } from "./index.js";
+import type { PullHistoryEntry } from "../pull-history.js";
+import type { BackupJob } from "../types.js";
+
+const LEGACY_IMPORT_SETTING = 'legacy_json_import';
+
+// The shape pull-timestamps.json had: one entry per customer id
+type LegacyTimestampData = Record<string, { lastPulled?: string; history?: PullHistoryEntry[] } | null>;
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (caught) {
+    const error = caught as NodeJS.ErrnoException;
+    if (error.code !== 'ENOENT') {
+      console.warn(`[STORAGE] Could not read ${filePath}:`, error.message);
+    }
+    return null;
+  }
+}
+
+// One-time import of the JSON files the server used before it had a storage
+// layer. The files are left in place; a setting records that the import ran so
+// later boots skip it.
+export async function importLegacyJsonData(
+  storage: Storage,
+  { timestampDataPath, backupJobsPath }: { timestampDataPath: string; backupJobsPath: string }
+) {
+  if (await storage.getSetting(LEGACY_IMPORT_SETTING)) {
+    return null;
+  }
+
+  const summary = { pulls: 0, history: 0, jobs: 0 };
+
+  const timestampData = await readJsonFile(timestampDataPath) as LegacyTimestampData | null;
+  if (timestampData && typeof timestampData === 'object') {
+    for (const [customerId, info] of Object.entries(timestampData)) {
+      if (info && info.lastPulled) {
+        await storage.recordPull(customerId, info.lastPulled);
+        summary.pulls++;
+      }
+      for (const entry of (info && Array.isArray(info.history)) ? info.history : []) {
+        await storage.appendPullHistory(customerId, entry);
+        summary.history++;
+      }
+    }
+  }
+
+  const backupJobs = await readJsonFile(backupJobsPath) as BackupJob[] | null;
+  if (Array.isArray(backupJobs)) {
+    for (const job of backupJobs) {
+      await storage.saveBackupJob(job);
+      summary.jobs++;
+    }
+  }
+
+  await storage.setSetting(LEGACY_IMPORT_SETTING, { importedAt: new Date().toISOString(), ...summary });
+  console.log(`[STORAGE] Imported legacy JSON data: ${summary.pulls} pull timestamps, ${summary.history} history entries, ${summary.jobs} jobs`);
+
+  return summary;
+}
@@ -0,0 +1,82 @@
+import { createSqliteStorage } from "./sqlite.js";
+import { createMemoryStorage } from "./memory.js";
+import type { Alert, AlertRule } from "../../shared/alerts.js";
+import type { AuditEntry, AuditFilters, NewAuditEntry } from "../audit.js";
+import type { StoredSession } from "../auth/sessions.js";
+import type { CachedEnvironmentStatus } from "../devel-environments.js";
+import type { PullHistoryEntry } from "../pull-history.js";
+import type { StoredView } from "../saved-views.js";
+import type { Schedule } from "../schedules.js";
+import type { BackupJob } from "../types.js";
+
+export { importLegacyJsonData } from "./import-legacy.js";
+
+// Every driver exposes the same async interface
+export interface Storage {
+  driver: string;
+
+  getLastPulledTimes(): Promise<Record<string, string>>;
+  recordPull(customerId: string | number, timestamp: string): Promise<void>;
+  appendPullHistory(customerId: string | number, entry: PullHistoryEntry): Promise<void>;
+  getPullHistory(customerId: string | number): Promise<{ lastPulled: string | null; history: PullHistoryEntry[] }>;
+
+  listBackupJobs(): Promise<BackupJob[]>;
+  saveBackupJob(job: BackupJob): Promise<void>;
+  deleteBackupJobs(ids: string[]): Promise<void>;
+
+  createSession(session: StoredSession): Promise<void>;
+  // Expired sessions are never returned
+  getSession(id: string): Promise<StoredSession | null>;
+  touchSession(id: string, expiresAt: string): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  deleteExpiredSessions(): Promise<void>;
+
+  appendAuditEntry(entry: NewAuditEntry): Promise<void>;
+  // Newest first; without a limit every matching entry is returned
+  queryAuditEntries(filters?: AuditFilters, page?: { limit?: number; offset?: number }): Promise<{ entries: AuditEntry[]; total: number }>;
+  deleteAuditEntriesBefore(timestamp: string): Promise<number>;
+
+  getEnvironmentStatuses(): Promise<Record<string, CachedEnvironmentStatus>>;
+  saveEnvironmentStatus(customerId: string | number, status: CachedEnvironmentStatus): Promise<void>;
+  appendEnvironmentHistory(customerId: string | number, entry: CachedEnvironmentStatus, options: { keep: number }): Promise<void>;
+  // Newest first
+  getEnvironmentHistory(customerId: string | number): Promise<CachedEnvironmentStatus[]>;
+
+  listSchedules(): Promise<Schedule[]>;
+  saveSchedule(schedule: Schedule): Promise<void>;
+  deleteSchedule(id: string): Promise<void>;
+
+  listSavedViews(owner: string): Promise<StoredView[]>;
+  saveSavedView(view: StoredView): Promise<void>;
+  deleteSavedView(id: string): Promise<void>;
+
+  listAlertRules(): Promise<AlertRule[]>;
+  saveAlertRule(rule: AlertRule): Promise<void>;
+  // The rule's alerts go with it
+  deleteAlertRule(id: string): Promise<void>;
+  // Newest first: every open alert, or the latest `limit` of all of them
+  listAlerts(options?: { openOnly?: boolean; limit?: number }): Promise<Alert[]>;
+  saveAlert(alert: Alert): Promise<void>;
+
+  getSetting(key: string): Promise<unknown>;
+  setSetting(key: string, value: unknown): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface StorageOptions {
+  driver?: string;
+  sqlitePath?: string;
+}
+
+const drivers: Record<string, (options: StorageOptions) => Storage> = {
+  sqlite: (options) => createSqliteStorage({ filename: options.sqlitePath ?? ':memory:' }),
+  memory: () => createMemoryStorage()
+};
+
+export function createStorage({ driver = 'sqlite', ...options }: StorageOptions = {}): Storage {
+  const createDriver = drivers[driver];
+  if (!createDriver) {
+    throw new Error(`Unknown storage driver "${driver}". Expected one of: ${Object.keys(drivers).join(', ')}`);
+  }
+  return createDriver(options);
+}
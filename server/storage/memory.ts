@@ -0,0 +1,215 @@
+import type { Alert, AlertRule } from "../../shared/alerts.js";
+import type { AuditEntry, AuditFilters } from "../audit.js";
+import type { StoredSession } from "../auth/sessions.js";
+import type { CachedEnvironmentStatus } from "../devel-environments.js";
+import type { PullHistoryEntry } from "../pull-history.js";
+import type { StoredView } from "../saved-views.js";
+import type { Schedule } from "../schedules.js";
+import type { BackupJob } from "../types.js";
+import type { Storage } from "./index.js";
+
+// In-process store with the same interface as the SQLite store. Nothing
+// survives a restart, so it is only meant for tests and throwaway runs.
+export function createMemoryStorage(): Storage {
+  const pulls = new Map<string, string>();
+  const history = new Map<string, PullHistoryEntry[]>();
+  const jobs = new Map<string, BackupJob>();
+  const settings = new Map<string, unknown>();
+  const sessions = new Map<string, StoredSession>();
+  const environmentStatuses = new Map<string, CachedEnvironmentStatus>();
+  const environmentHistory = new Map<string, CachedEnvironmentStatus[]>();
+  const schedules = new Map<string, Schedule>();
+  const savedViews = new Map<string, StoredView>();
+  const alertRules = new Map<string, AlertRule>();
+  const alerts = new Map<string, Alert>();
+  let auditEntries: AuditEntry[] = [];
+  let nextAuditId = 1;
+
+  const matchesAuditFilters = (entry: AuditEntry, filters: AuditFilters) =>
+    (!filters.actor || entry.actor === filters.actor) &&
+    (!filters.action || entry.action === filters.action) &&
+    (!filters.outcome || entry.outcome === filters.outcome) &&
+    (!filters.customerId || entry.customerId === String(filters.customerId)) &&
+    (!filters.domain || String(entry.domain || '').includes(filters.domain)) &&
+    (!filters.from || entry.occurredAt >= filters.from) &&
+    (!filters.to || entry.occurredAt <= filters.to);
+
+  const clone = <T>(value: T): T => value === undefined ? value : structuredClone(value);
+
+  return {
+    driver: 'memory',
+
+    async getLastPulledTimes() {
+      return Object.fromEntries(pulls);
+    },
+
+    async recordPull(customerId, timestamp) {
+      pulls.set(String(customerId), timestamp);
+    },
+
+    async appendPullHistory(customerId, entry) {
+      const key = String(customerId);
+      history.set(key, [...(history.get(key) || []), clone(entry)]);
+    },
+
+    async getPullHistory(customerId) {
+      const key = String(customerId);
+      return {
+        lastPulled: pulls.get(key) || null,
+        history: (history.get(key) || [])
+          .map(clone)
+          .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))
+      };
+    },
+
+    async listBackupJobs() {
+      return Array.from(jobs.values())
+        .map(clone)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async saveBackupJob(job) {
+      jobs.set(job.id, clone(job));
+    },
+
+    async deleteBackupJobs(ids) {
+      ids.forEach(id => jobs.delete(id));
+    },
+
+    async createSession(session) {
+      sessions.set(session.id, clone(session));
+    },
+
+    async getSession(id) {
+      const session = sessions.get(id);
+      return session && session.expiresAt > new Date().toISOString() ? clone(session) : null;
+    },
+
+    async touchSession(id, expiresAt) {
+      const session = sessions.get(id);
+      if (session) {
+        session.expiresAt = expiresAt;
+      }
+    },
+
+    async deleteSession(id) {
+      sessions.delete(id);
+    },
+
+    async deleteExpiredSessions() {
+      const now = new Date().toISOString();
+      Array.from(sessions.values())
+        .filter(session => session.expiresAt <= now)
+        .forEach(session => sessions.delete(session.id));
+    },
+
+    async appendAuditEntry(entry) {
+      auditEntries.push({
+        ...clone(entry),
+        id: nextAuditId++,
+        customerId: entry.customerId === undefined || entry.customerId === null ? null : String(entry.customerId)
+      });
+    },
+
+    async queryAuditEntries(filters = {}, { limit, offset = 0 } = {}) {
+      const matching = auditEntries
+        .filter(entry => matchesAuditFilters(entry, filters))
+        .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt) || b.id - a.id);
+      return {
+        entries: (limit === undefined ? matching.slice(offset) : matching.slice(offset, offset + limit)).map(clone),
+        total: matching.length
+      };
+    },
+
+    async deleteAuditEntriesBefore(timestamp) {
+      const before = auditEntries.length;
+      auditEntries = auditEntries.filter(entry => entry.occurredAt >= timestamp);
+      return before - auditEntries.length;
+    },
+
+    async getEnvironmentStatuses() {
+      return Object.fromEntries(Array.from(environmentStatuses, ([key, value]) => [key, clone(value)]));
+    },
+
+    async saveEnvironmentStatus(customerId, { domain, state, reason, checkedAt, probeUrl, httpStatus, detail }) {
+      environmentStatuses.set(String(customerId), {
+        domain: domain || null,
+        state,
+        reason,
+        checkedAt,
+        probeUrl: probeUrl || null,
+        httpStatus: httpStatus ?? null,
+        detail: detail || null
+      } as CachedEnvironmentStatus);
+    },
+
+    async appendEnvironmentHistory(customerId, entry, { keep }) {
+      const key = String(customerId);
+      environmentHistory.set(key, [...(environmentHistory.get(key) || []), clone(entry)].slice(-keep));
+    },
+
+    async getEnvironmentHistory(customerId) {
+      return (environmentHistory.get(String(customerId)) || [])
+        .map(clone)
+        .reverse();
+    },
+
+    async listSchedules() {
+      return Array.from(schedules.values()).map(clone);
+    },
+
+    async saveSchedule(schedule) {
+      schedules.set(schedule.id, clone(schedule));
+    },
+
+    async deleteSchedule(id) {
+      schedules.delete(id);
+    },
+
+    async listSavedViews(owner) {
+      return Array.from(savedViews.values()).filter(view => view.owner === owner).map(clone);
+    },
+
+    async saveSavedView(view) {
+      savedViews.set(view.id, clone(view));
+    },
+
+    async deleteSavedView(id) {
+      savedViews.delete(id);
+    },
+
+    async listAlertRules() {
+      return Array.from(alertRules.values()).map(clone);
+    },
+
+    async saveAlertRule(rule) {
+      alertRules.set(rule.id, clone(rule));
+    },
+
+    async deleteAlertRule(id) {
+      alertRules.delete(id);
+      Array.from(alerts.values())
+        .filter(alert => alert.ruleId === id)
+        .forEach(alert => alerts.delete(alert.id));
+    },
+
+    async listAlerts({ openOnly = false, limit = 100 } = {}) {
+      const newestFirst = Array.from(alerts.values()).sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+      return (openOnly ? newestFirst.filter(alert => !alert.resolvedAt) : newestFirst.slice(0, limit)).map(clone);
+    },
+
+    async saveAlert(alert) {
+      alerts.set(alert.id, clone(alert));
+    },
+
+    async getSetting(key) {
+      return clone(settings.get(key));
+    },
+
+    async setSetting(key, value) {
+      settings.set(key, clone(value));
+    },
+
+    async close() {}
+  };
+}
@@ -0,0 +1,179 @@
+// Schema migrations for the SQLite store. Each entry runs once, in order, and
+// the applied version is kept in PRAGMA user_version. Never edit a migration
+// that has shipped - add a new one instead.
+export interface Migration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'pull timestamps, pull history, backup jobs and settings',
+    sql: `
+      CREATE TABLE pulls (
+        customer_id TEXT PRIMARY KEY,
+        last_pulled TEXT NOT NULL
+      );
+
+      CREATE TABLE pull_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_id TEXT NOT NULL,
+        job_id TEXT,
+        requested_at TEXT NOT NULL,
+        requested_by TEXT,
+        dbname TEXT,
+        state TEXT,
+        backup_result TEXT,
+        request_error TEXT,
+        error TEXT,
+        duration_ms INTEGER,
+        environment_status TEXT,
+        finished_at TEXT
+      );
+
+      CREATE INDEX idx_pull_history_customer ON pull_history (customer_id, requested_at);
+
+      CREATE TABLE backup_jobs (
+        id TEXT PRIMARY KEY,
+        customer_id TEXT NOT NULL,
+        state TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_backup_jobs_customer ON backup_jobs (customer_id);
+
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 2,
+    description: 'login sessions',
+    sql: `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL,
+        user TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_sessions_expires ON sessions (expires_at);
+    `
+  },
+  {
+    version: 3,
+    description: 'audit log',
+    sql: `
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        occurred_at TEXT NOT NULL,
+        actor TEXT,
+        action TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        customer_id TEXT,
+        domain TEXT,
+        ip TEXT,
+        details TEXT
+      );
+
+      CREATE INDEX idx_audit_log_occurred ON audit_log (occurred_at);
+      CREATE INDEX idx_audit_log_actor ON audit_log (actor, occurred_at);
+      CREATE INDEX idx_audit_log_customer ON audit_log (customer_id, occurred_at);
+    `
+  },
+  {
+    version: 4,
+    description: 'cached environment status',
+    sql: `
+      CREATE TABLE environment_status (
+        customer_id TEXT PRIMARY KEY,
+        domain TEXT,
+        status TEXT NOT NULL,
+        checked_at TEXT NOT NULL
+      );
+    `
+  },
+  {
+    version: 5,
+    description: 'recurring backup schedules',
+    sql: `
+      CREATE TABLE backup_schedules (
+        id TEXT PRIMARY KEY,
+        customer_id TEXT NOT NULL,
+        next_run_at TEXT,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_backup_schedules_customer ON backup_schedules (customer_id);
+    `
+  },
+  {
+    version: 6,
+    description: 'environment status reasons and probe details',
+    // Cached results without a reason are dropped; the next validation sweep
+    // probes those customers again.
+    sql: `
+      ALTER TABLE environment_status RENAME COLUMN status TO state;
+      ALTER TABLE environment_status ADD COLUMN reason TEXT;
+      ALTER TABLE environment_status ADD COLUMN probe_url TEXT;
+      ALTER TABLE environment_status ADD COLUMN http_status INTEGER;
+      ALTER TABLE environment_status ADD COLUMN detail TEXT;
+      DELETE FROM environment_status;
+    `
+  },
+  {
+    version: 7,
+    description: 'saved customer list views',
+    sql: `
+      CREATE TABLE saved_views (
+        id TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_saved_views_owner ON saved_views (owner);
+    `
+  },
+  {
+    version: 8,
+    description: 'environment status history',
+    sql: `
+      CREATE TABLE environment_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        customer_id TEXT NOT NULL,
+        checked_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_environment_history_customer ON environment_history (customer_id, checked_at);
+    `
+  },
+  {
+    version: 9,
+    description: 'alert rules and the alerts they raised',
+    sql: `
+      CREATE TABLE alert_rules (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE alerts (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        opened_at TEXT NOT NULL,
+        resolved_at TEXT,
+        data TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_alerts_rule ON alerts (rule_id);
+      CREATE INDEX idx_alerts_opened_at ON alerts (opened_at);
+    `
+  }
+];
@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { migrations } from "./migrations.js";
+import type { Storage } from "./index.js";
+import type { AuditEntry, AuditFilters } from "../audit.js";
+import type { CachedEnvironmentStatus } from "../devel-environments.js";
+import type { PullHistoryEntry } from "../pull-history.js";
+
+interface HistoryRow {
+  customer_id: string;
+  job_id: string | null;
+  requested_at: string;
+  requested_by: string | null;
+  dbname: string | null;
+  state: string | null;
+  backup_result: string | null;
+  request_error: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  environment_status: string | null;
+  finished_at: string | null;
+}
+
+interface AuditRow {
+  id: number;
+  occurred_at: string;
+  actor: string | null;
+  action: AuditEntry['action'];
+  outcome: AuditEntry['outcome'];
+  customer_id: string | null;
+  domain: string | null;
+  ip: string | null;
+  details: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  user: string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface EnvironmentStatusRow {
+  customer_id: string;
+  domain: string | null;
+  state: string;
+  reason: string;
+  checked_at: string;
+  probe_url: string | null;
+  http_status: number | null;
+  detail: string | null;
+}
+
+// Jobs, schedules, views, alert rules and alerts are stored whole as JSON
+interface DataRow {
+  data: string;
+}
+
+function migrate(db: Database.Database) {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  const pending = migrations.filter(migration => migration.version > currentVersion);
+
+  pending.forEach(migration => {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`[STORAGE] Applied migration ${migration.version}: ${migration.description}`);
+  });
+}
+
+function toHistoryRow(customerId: string | number, entry: PullHistoryEntry): HistoryRow {
+  return {
+    customer_id: String(customerId),
+    job_id: entry.jobId || null,
+    requested_at: entry.requestedAt,
+    requested_by: entry.requestedBy || null,
+    dbname: entry.dbname || null,
+    state: entry.state || null,
+    backup_result: entry.backupResult === undefined || entry.backupResult === null ? null : JSON.stringify(entry.backupResult),
+    request_error: entry.requestError || null,
+    error: entry.error || null,
+    duration_ms: entry.durationMs ?? null,
+    environment_status: entry.environmentStatus || null,
+    finished_at: entry.finishedAt || null
+  };
+}
+
+function fromHistoryRow(row: HistoryRow): PullHistoryEntry {
+  return {
+    jobId: row.job_id,
+    requestedAt: row.requested_at,
+    requestedBy: row.requested_by,
+    dbname: row.dbname,
+    state: row.state,
+    backupResult: row.backup_result === null ? null : JSON.parse(row.backup_result),
+    requestError: row.request_error,
+    error: row.error,
+    durationMs: row.duration_ms,
+    environmentStatus: row.environment_status,
+    finishedAt: row.finished_at
+  };
+}
+
+function fromAuditRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actor: row.actor,
+    action: row.action,
+    outcome: row.outcome,
+    customerId: row.customer_id,
+    domain: row.domain,
+    ip: row.ip,
+    details: row.details === null ? null : JSON.parse(row.details)
+  };
+}
+
+function buildAuditWhere(filters: AuditFilters) {
+  const clauses: string[] = [];
+  const params: Record<string, string> = {};
+
+  if (filters.actor) {
+    clauses.push('actor = @actor');
+    params.actor = filters.actor;
+  }
+  if (filters.action) {
+    clauses.push('action = @action');
+    params.action = filters.action;
+  }
+  if (filters.outcome) {
+    clauses.push('outcome = @outcome');
+    params.outcome = filters.outcome;
+  }
+  if (filters.customerId) {
+    clauses.push('customer_id = @customerId');
+    params.customerId = String(filters.customerId);
+  }
+  if (filters.domain) {
+    // The filter is a plain substring, so LIKE's own wildcards are escaped
+    clauses.push("domain LIKE @domain ESCAPE '\\'");
+    params.domain = `%${String(filters.domain).replace(/[\\%_]/g, '\\$&')}%`;
+  }
+  if (filters.from) {
+    clauses.push('occurred_at >= @from');
+    params.from = filters.from;
+  }
+  if (filters.to) {
+    clauses.push('occurred_at <= @to');
+    params.to = filters.to;
+  }
+
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+export function createSqliteStorage({ filename }: { filename: string }): Storage {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  migrate(db);
+
+  const statements = {
+    lastPulledTimes: db.prepare('SELECT customer_id, last_pulled FROM pulls'),
+    lastPulled: db.prepare('SELECT last_pulled FROM pulls WHERE customer_id = ?'),
+    recordPull: db.prepare(`
+      INSERT INTO pulls (customer_id, last_pulled) VALUES (?, ?)
+      ON CONFLICT (customer_id) DO UPDATE SET last_pulled = excluded.last_pulled
+    `),
+    appendHistory: db.prepare(`
+      INSERT INTO pull_history (
+        customer_id, job_id, requested_at, requested_by, dbname, state, backup_result,
+        request_error, error, duration_ms, environment_status, finished_at
+      ) VALUES (
+        @customer_id, @job_id, @requested_at, @requested_by, @dbname, @state, @backup_result,
+        @request_error, @error, @duration_ms, @environment_status, @finished_at
+      )
+    `),
+    history: db.prepare('SELECT * FROM pull_history WHERE customer_id = ? ORDER BY requested_at DESC, id DESC'),
+    listJobs: db.prepare('SELECT data FROM backup_jobs ORDER BY created_at DESC'),
+    saveJob: db.prepare(`
+      INSERT INTO backup_jobs (id, customer_id, state, created_at, data) VALUES (@id, @customer_id, @state, @created_at, @data)
+      ON CONFLICT (id) DO UPDATE SET state = excluded.state, data = excluded.data
+    `),
+    deleteJob: db.prepare('DELETE FROM backup_jobs WHERE id = ?'),
+    createSession: db.prepare('INSERT INTO sessions (id, username, user, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'),
+    getSession: db.prepare('SELECT * FROM sessions WHERE id = ? AND expires_at > ?'),
+    touchSession: db.prepare('UPDATE sessions SET expires_at = ? WHERE id = ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE id = ?'),
+    deleteExpiredSessions: db.prepare('DELETE FROM sessions WHERE expires_at <= ?'),
+    appendAudit: db.prepare(`
+      INSERT INTO audit_log (occurred_at, actor, action, outcome, customer_id, domain, ip, details)
+      VALUES (@occurred_at, @actor, @action, @outcome, @customer_id, @domain, @ip, @details)
+    `),
+    deleteAuditBefore: db.prepare('DELETE FROM audit_log WHERE occurred_at < ?'),
+    environmentStatuses: db.prepare('SELECT * FROM environment_status'),
+    saveEnvironmentStatus: db.prepare(`
+      INSERT INTO environment_status (customer_id, domain, state, reason, checked_at, probe_url, http_status, detail)
+      VALUES (@customer_id, @domain, @state, @reason, @checked_at, @probe_url, @http_status, @detail)
+      ON CONFLICT (customer_id) DO UPDATE SET
+        domain = excluded.domain, state = excluded.state, reason = excluded.reason, checked_at = excluded.checked_at,
+        probe_url = excluded.probe_url, http_status = excluded.http_status, detail = excluded.detail
+    `),
+    appendEnvironmentHistory: db.prepare('INSERT INTO environment_history (customer_id, checked_at, data) VALUES (?, ?, ?)'),
+    environmentHistory: db.prepare('SELECT data FROM environment_history WHERE customer_id = ? ORDER BY checked_at DESC, id DESC'),
+    trimEnvironmentHistory: db.prepare(`
+      DELETE FROM environment_history WHERE customer_id = @customer_id AND id NOT IN (
+        SELECT id FROM environment_history WHERE customer_id = @customer_id ORDER BY checked_at DESC, id DESC LIMIT @keep
+      )
+    `),
+    listSchedules: db.prepare('SELECT data FROM backup_schedules'),
+    saveSchedule: db.prepare(`
+      INSERT INTO backup_schedules (id, customer_id, next_run_at, data) VALUES (@id, @customer_id, @next_run_at, @data)
+      ON CONFLICT (id) DO UPDATE SET customer_id = excluded.customer_id, next_run_at = excluded.next_run_at, data = excluded.data
+    `),
+    deleteSchedule: db.prepare('DELETE FROM backup_schedules WHERE id = ?'),
+    listSavedViews: db.prepare('SELECT data FROM saved_views WHERE owner = ?'),
+    saveSavedView: db.prepare(`
+      INSERT INTO saved_views (id, owner, data) VALUES (@id, @owner, @data)
+      ON CONFLICT (id) DO UPDATE SET owner = excluded.owner, data = excluded.data
+    `),
+    deleteSavedView: db.prepare('DELETE FROM saved_views WHERE id = ?'),
+    listAlertRules: db.prepare('SELECT data FROM alert_rules'),
+    saveAlertRule: db.prepare(`
+      INSERT INTO alert_rules (id, data) VALUES (@id, @data)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `),
+    deleteAlertRule: db.prepare('DELETE FROM alert_rules WHERE id = ?'),
+    deleteRuleAlerts: db.prepare('DELETE FROM alerts WHERE rule_id = ?'),
+    openAlerts: db.prepare('SELECT data FROM alerts WHERE resolved_at IS NULL ORDER BY opened_at DESC'),
+    recentAlerts: db.prepare('SELECT data FROM alerts ORDER BY opened_at DESC LIMIT ?'),
+    saveAlert: db.prepare(`
+      INSERT INTO alerts (id, rule_id, opened_at, resolved_at, data) VALUES (@id, @rule_id, @opened_at, @resolved_at, @data)
+      ON CONFLICT (id) DO UPDATE SET resolved_at = excluded.resolved_at, data = excluded.data
+    `),
+    getSetting: db.prepare('SELECT value FROM settings WHERE key = ?'),
+    setSetting: db.prepare(`
+      INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `)
+  };
+
+  const deleteJobs = db.transaction((ids: string[]) => {
+    ids.forEach(id => statements.deleteJob.run(id));
+  });
+
+  const deleteAlertRule = db.transaction((id: string) => {
+    statements.deleteRuleAlerts.run(id);
+    statements.deleteAlertRule.run(id);
+  });
+
+  return {
+    driver: 'sqlite',
+
+    async getLastPulledTimes() {
+      return Object.fromEntries(
+        (statements.lastPulledTimes.all() as { customer_id: string; last_pulled: string }[])
+          .map(row => [row.customer_id, row.last_pulled])
+      );
+    },
+
+    async recordPull(customerId, timestamp) {
+      statements.recordPull.run(String(customerId), timestamp);
+    },
+
+    async appendPullHistory(customerId, entry) {
+      statements.appendHistory.run(toHistoryRow(customerId, entry));
+    },
+
+    async getPullHistory(customerId) {
+      const lastPulledRow = statements.lastPulled.get(String(customerId)) as { last_pulled: string } | undefined;
+      return {
+        lastPulled: lastPulledRow ? lastPulledRow.last_pulled : null,
+        history: (statements.history.all(String(customerId)) as HistoryRow[]).map(fromHistoryRow)
+      };
+    },
+
+    async listBackupJobs() {
+      return (statements.listJobs.all() as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async saveBackupJob(job) {
+      statements.saveJob.run({
+        id: job.id,
+        customer_id: String(job.customerId),
+        state: job.state,
+        created_at: job.createdAt,
+        data: JSON.stringify(job)
+      });
+    },
+
+    async deleteBackupJobs(ids) {
+      deleteJobs(ids);
+    },
+
+    async createSession(session) {
+      statements.createSession.run(session.id, session.user.username, JSON.stringify(session.user), session.createdAt, session.expiresAt);
+    },
+
+    async getSession(id) {
+      const row = statements.getSession.get(id, new Date().toISOString()) as SessionRow | undefined;
+      return row ? { id: row.id, user: JSON.parse(row.user), createdAt: row.created_at, expiresAt: row.expires_at } : null;
+    },
+
+    async touchSession(id, expiresAt) {
+      statements.touchSession.run(expiresAt, id);
+    },
+
+    async deleteSession(id) {
+      statements.deleteSession.run(id);
+    },
+
+    async deleteExpiredSessions() {
+      statements.deleteExpiredSessions.run(new Date().toISOString());
+    },
+
+    async appendAuditEntry(entry) {
+      statements.appendAudit.run({
+        occurred_at: entry.occurredAt,
+        actor: entry.actor || null,
+        action: entry.action,
+        outcome: entry.outcome,
+        customer_id: entry.customerId === undefined || entry.customerId === null ? null : String(entry.customerId),
+        domain: entry.domain || null,
+        ip: entry.ip || null,
+        details: entry.details ? JSON.stringify(entry.details) : null
+      });
+    },
+
+    async queryAuditEntries(filters = {}, { limit, offset = 0 } = {}) {
+      const { where, params } = buildAuditWhere(filters);
+      const { count: total } = db.prepare(`SELECT COUNT(*) AS count FROM audit_log ${where}`).get(params) as { count: number };
+      const page = limit === undefined ? '' : 'LIMIT @limit OFFSET @offset';
+      const rows = db.prepare(`SELECT * FROM audit_log ${where} ORDER BY occurred_at DESC, id DESC ${page}`)
+        .all(limit === undefined ? params : { ...params, limit, offset }) as AuditRow[];
+      return { entries: rows.map(fromAuditRow), total };
+    },
+
+    async deleteAuditEntriesBefore(timestamp) {
+      return statements.deleteAuditBefore.run(timestamp).changes;
+    },
+
+    async getEnvironmentStatuses() {
+      return Object.fromEntries(
+        (statements.environmentStatuses.all() as EnvironmentStatusRow[]).map(row => [
+          row.customer_id,
+          {
+            domain: row.domain,
+            state: row.state,
+            reason: row.reason,
+            checkedAt: row.checked_at,
+            probeUrl: row.probe_url,
+            httpStatus: row.http_status,
+            detail: row.detail
+          } as CachedEnvironmentStatus
+        ])
+      );
+    },
+
+    async saveEnvironmentStatus(customerId, { domain, state, reason, checkedAt, probeUrl, httpStatus, detail }) {
+      statements.saveEnvironmentStatus.run({
+        customer_id: String(customerId),
+        domain: domain || null,
+        state,
+        reason,
+        checked_at: checkedAt,
+        probe_url: probeUrl || null,
+        http_status: httpStatus ?? null,
+        detail: detail || null
+      });
+    },
+
+    async appendEnvironmentHistory(customerId, entry, { keep }) {
+      const key = String(customerId);
+      statements.appendEnvironmentHistory.run(key, entry.checkedAt, JSON.stringify(entry));
+      statements.trimEnvironmentHistory.run({ customer_id: key, keep });
+    },
+
+    async getEnvironmentHistory(customerId) {
+      return (statements.environmentHistory.all(String(customerId)) as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async listSchedules() {
+      return (statements.listSchedules.all() as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async saveSchedule(schedule) {
+      statements.saveSchedule.run({
+        id: schedule.id,
+        customer_id: String(schedule.customerId),
+        next_run_at: schedule.nextRunAt || null,
+        data: JSON.stringify(schedule)
+      });
+    },
+
+    async deleteSchedule(id) {
+      statements.deleteSchedule.run(id);
+    },
+
+    async listSavedViews(owner) {
+      return (statements.listSavedViews.all(owner) as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async saveSavedView(view) {
+      statements.saveSavedView.run({ id: view.id, owner: view.owner, data: JSON.stringify(view) });
+    },
+
+    async deleteSavedView(id) {
+      statements.deleteSavedView.run(id);
+    },
+
+    async listAlertRules() {
+      return (statements.listAlertRules.all() as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async saveAlertRule(rule) {
+      statements.saveAlertRule.run({ id: rule.id, data: JSON.stringify(rule) });
+    },
+
+    // The rule's alerts go with it
+    async deleteAlertRule(id) {
+      deleteAlertRule(id);
+    },
+
+    async listAlerts({ openOnly = false, limit = 100 } = {}) {
+      const rows = openOnly ? statements.openAlerts.all() : statements.recentAlerts.all(limit);
+      return (rows as DataRow[]).map(row => JSON.parse(row.data));
+    },
+
+    async saveAlert(alert) {
+      statements.saveAlert.run({
+        id: alert.id,
+        rule_id: alert.ruleId,
+        opened_at: alert.openedAt,
+        resolved_at: alert.resolvedAt || null,
+        data: JSON.stringify(alert)
+      });
+    },
+
+    async getSetting(key) {
+      const row = statements.getSetting.get(key) as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : undefined;
+    },
+
+    async setSetting(key, value) {
+      statements.setSetting.run(key, JSON.stringify(value), new Date().toISOString());
+    },
+
+    async close() {
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,228 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+import { createNotificationSink } from "../notification-sink/index.ts";
+import { sendMail } from "../notifiers/smtp.ts";
+
+const customer = (id, fields) => ({
+  id,
+  name: `Customer ${id}`,
+  domain: `c${id}`,
+  ok_to_bill: 1,
+  priority_support: 'Standard',
+  resident_hosting: 0,
+  test_environment: '0',
+  itar_hosting_bc: 0,
+  ...fields
+});
+
+const CUSTOMERS = [
+  customer(4001, { priority_support: 'Enterprise' }),
+  customer(4002),
+  customer(4003, { priority_support: 'Enterprise', itar_hosting_bc: 1 }),
+  customer(4004, { priority_support: 'ent' })
+];
+
+const STALE_ENTERPRISE = {
+  name: 'Enterprise not pulled in 14 days',
+  kind: 'stale_backup',
+  threshold: 14,
+  priority_support: 'Enterprise',
+  channels: ['webhook', 'slack', 'email']
+};
+
+let server;
+let sink;
+let sinkServers;
+let admin;
+let support;
+
+const listen = (target) => new Promise(resolve => {
+  const listening = target.listen(0, '127.0.0.1', () => resolve(listening));
+});
+
+beforeAll(async () => {
+  sink = createNotificationSink();
+  sinkServers = [await listen(sink.app), await listen(sink.smtpServer)];
+  const [http, smtp] = sinkServers.map(listening => listening.address().port);
+
+  server = await startTestServer({
+    customers: CUSTOMERS,
+    env: {
+      ALERT_WEBHOOK_URL: `http://127.0.0.1:${http}/webhook`,
+      ALERT_SLACK_WEBHOOK_URL: `http://127.0.0.1:${http}/slack`,
+      ALERT_SMTP_HOST: '127.0.0.1',
+      ALERT_SMTP_PORT: String(smtp),
+      ALERT_EMAIL_FROM: 'backups@example.com',
+      ALERT_EMAIL_TO: 'support@example.com, oncall@example.com'
+    }
+  });
+  [admin, support] = await Promise.all(['admin', 'support'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+  await Promise.all(sinkServers.map(listening => new Promise(resolve => listening.close(resolve))));
+});
+
+const clearSink = () => {
+  sink.webhooks.splice(0);
+  sink.emails.splice(0);
+};
+
+async function createRule(rule) {
+  const response = await admin.post('/api/alert-rules').send(rule);
+  expect(response.status).toBe(201);
+  return response.body.rule;
+}
+
+describe("/api/alert-rules", () => {
+  it("needs the manage_alerts permission to change rules", async () => {
+    const response = await support.post('/api/alert-rules').send(STALE_ENTERPRISE);
+    expect(response.status).toBe(403);
+  });
+
+  it("rejects rules it can't check", async () => {
+    const tooSoon = await admin.post('/api/alert-rules').send({ ...STALE_ENTERPRISE, kind: 'pull_not_ready', threshold: 1 });
+    expect(tooSoon.status).toBe(400);
+    expect(tooSoon.body.error).toBe('Threshold must be a whole number of minutes between 5 and 1440');
+
+    const noChannel = await admin.post('/api/alert-rules').send({ ...STALE_ENTERPRISE, channels: ['pager'] });
+    expect(noChannel.status).toBe(400);
+  });
+
+  it("lists rules and the channels that are set up to anyone signed in", async () => {
+    const rule = await createRule({ ...STALE_ENTERPRISE, name: 'Listed', priority_support: 'ent' });
+    expect(rule).toMatchObject({ priority_support: 'Enterprise', enabled: true, createdBy: 'admin' });
+
+    const response = await support.get('/api/alert-rules');
+    expect(response.body.rules.map(listed => listed.name)).toContain('Listed');
+    expect(response.body.channels).toEqual(['webhook', 'slack', 'email']);
+
+    await admin.delete(`/api/alert-rules/${rule.id}`);
+  });
+
+  it("sends a test notification through every channel of a rule", async () => {
+    clearSink();
+    const rule = await createRule({ ...STALE_ENTERPRISE, name: 'Test me' });
+
+    const response = await admin.post(`/api/alert-rules/${rule.id}/test`);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.deliveries.map(delivery => delivery.channel)).toEqual(['webhook', 'slack', 'email']);
+    expect(sink.webhooks.find(webhook => webhook.channel === 'webhook').body).toMatchObject({ event: 'test', title: 'Test: Test me' });
+    expect(sink.webhooks.find(webhook => webhook.channel === 'slack').body.text).toMatch(/^\*Test: Test me\*\n/);
+    expect(sink.emails).toHaveLength(1);
+    expect(sink.emails[0]).toMatchObject({
+      from: 'backups@example.com',
+      to: ['support@example.com', 'oncall@example.com'],
+      subject: 'Test: Test me'
+    });
+    expect(sink.emails[0].text).toContain('Enterprise customers not pulled in 14 days');
+
+    await admin.delete(`/api/alert-rules/${rule.id}`);
+  });
+});
+
+describe("POST /api/alerts/check", () => {
+  it("opens one alert per matching customer and notifies once", async () => {
+    clearSink();
+    const rule = await createRule(STALE_ENTERPRISE);
+
+    const first = await admin.post('/api/alerts/check');
+    // 4003 is ITAR, so no backup could be pulled for it anyway
+    expect(first.body.opened.map(alert => alert.customerId).sort()).toEqual(['4001', '4004']);
+    expect(first.body.opened[0]).toMatchObject({ ruleId: rule.id, message: 'Never pulled', resolvedAt: null });
+    expect(sink.webhooks.filter(webhook => webhook.channel === 'webhook')).toHaveLength(2);
+    expect(sink.emails).toHaveLength(2);
+
+    const second = await admin.post('/api/alerts/check');
+    expect(second.body.opened).toEqual([]);
+    expect(sink.emails).toHaveLength(2);
+
+    const { body } = await support.get('/api/alerts');
+    expect(body.alerts.filter(alert => alert.ruleId === rule.id && !alert.resolvedAt)).toHaveLength(2);
+  });
+
+  it("resolves an alert once the customer is pulled", async () => {
+    clearSink();
+    await support.post('/api/pull/record').send({ customerId: 4001 });
+
+    const response = await admin.post('/api/alerts/check');
+
+    expect(response.body.opened).toEqual([]);
+    expect(response.body.resolved.map(alert => alert.customerId)).toEqual(['4001']);
+    expect(sink.webhooks.find(webhook => webhook.channel === 'webhook').body).toMatchObject({ event: 'resolved' });
+    expect(sink.emails[0].subject).toBe('Resolved – Enterprise not pulled in 14 days: Customer 4001 (#4001)');
+  });
+
+  it("resolves the alerts of a disabled rule without notifying", async () => {
+    clearSink();
+    const { body: { rules } } = await admin.get('/api/alert-rules');
+    const rule = rules.find(listed => listed.name === STALE_ENTERPRISE.name);
+    await admin.put(`/api/alert-rules/${rule.id}`).send({ enabled: false });
+
+    const response = await admin.post('/api/alerts/check');
+
+    expect(response.body.resolved.map(alert => alert.customerId)).toEqual(['4004']);
+    expect(sink.webhooks).toEqual([]);
+    expect(sink.emails).toEqual([]);
+
+    await admin.delete(`/api/alert-rules/${rule.id}`);
+    const { body } = await admin.get('/api/alerts');
+    expect(body.alerts.filter(alert => alert.ruleId === rule.id)).toEqual([]);
+  });
+
+  it("doesn't alert on pulls for a customer that was never pulled", async () => {
+    clearSink();
+    const rule = await createRule({ name: 'Enterprise pulls not ready', kind: 'pull_not_ready', threshold: 30, priority_support: 'Enterprise', channels: ['slack'] });
+
+    const response = await admin.post('/api/alerts/check');
+
+    expect(response.status).toBe(200);
+    expect(response.body.opened).toEqual([]);
+    expect(sink.webhooks).toEqual([]);
+
+    await admin.delete(`/api/alert-rules/${rule.id}`);
+  });
+
+  it("alerts when the last pull failed", async () => {
+    clearSink();
+    await createRule({ name: 'Standard pulls not ready', kind: 'pull_not_ready', threshold: 30, priority_support: 'Standard', channels: ['slack'] });
+    server.getbackup.status = 500;
+
+    const { body } = await support.post('/api/backup/request').send({ customerId: 4002 });
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const { body: status } = await support.get(`/api/backup/jobs/${body.job.id}`);
+      if (status.job.state === 'failed') {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const response = await admin.post('/api/alerts/check');
+
+    expect(response.body.opened).toHaveLength(1);
+    expect(response.body.opened[0].customerId).toBe('4002');
+    expect(response.body.opened[0].message).toMatch(/^The pull requested by support at \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC failed: Backup request failed: 500$/);
+    expect(sink.webhooks.map(webhook => webhook.channel)).toEqual(['slack']);
+  });
+});
+
+describe("sendMail", () => {
+  it("won't send a password to a relay that doesn't offer TLS", async () => {
+    clearSink();
+    const port = sinkServers[1].address().port;
+
+    await expect(sendMail({
+      host: '127.0.0.1',
+      port,
+      user: 'alerts',
+      password: 'secret',
+      from: 'backups@example.com',
+      to: ['support@example.com'],
+      subject: 'Not sent',
+      text: 'Not sent'
+    })).rejects.toThrow(/did not offer STARTTLS; not sending the password unencrypted/);
+    expect(sink.emails).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+import { createStorage } from "../storage/index.ts";
+
+let server;
+let admin;
+let support;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  [admin, support] = await Promise.all(['admin', 'support'].map(server.login));
+  await server.request().post('/api/auth/login').send({ username: 'support', password: 'wrong' });
+  await support.post('/api/pull/record').send({ customerId: 1002 });
+  await support.post('/api/validate-link').send({ domain: 'acme' });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("GET /api/audit", () => {
+  it("is for admins only", async () => {
+    expect((await support.get('/api/audit')).status).toBe(403);
+  });
+
+  it("records who did what, newest first", async () => {
+    const { body } = await admin.get('/api/audit');
+    expect(body.total).toBe(body.entries.length);
+    expect(body.entries[0]).toMatchObject({ action: 'validate_link', actor: 'support', domain: 'acme' });
+    expect(body.entries.map(entry => entry.occurredAt)).toEqual([...body.entries.map(entry => entry.occurredAt)].sort().reverse());
+  });
+
+  it("filters by actor, action, outcome and customer", async () => {
+    const failedLogins = (await admin.get('/api/audit?action=login&outcome=failure')).body.entries;
+    expect(failedLogins).toHaveLength(1);
+    expect(failedLogins[0].actor).toBe('support');
+
+    const pulls = (await admin.get('/api/audit?actor=support&customerId=1002')).body.entries;
+    expect(pulls.map(entry => entry.action)).toEqual(['record_pull']);
+  });
+
+  it("filters by time range", async () => {
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const { body } = await admin.get(`/api/audit?from=${encodeURIComponent(future)}`);
+    expect(body.entries).toEqual([]);
+  });
+
+  it("pages results", async () => {
+    const { body } = await admin.get('/api/audit?page=2&pageSize=2');
+    expect(body.entries).toHaveLength(2);
+    expect(body.total).toBeGreaterThan(4);
+  });
+});
+
+describe("GET /api/audit/export", () => {
+  it("is for admins only", async () => {
+    expect((await support.get('/api/audit/export')).status).toBe(403);
+  });
+
+  it("downloads the matching entries as CSV and audits the export", async () => {
+    const response = await admin.get('/api/audit/export?action=record_pull');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/csv/);
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="audit-log-\d{4}-\d{2}-\d{2}\.csv"$/);
+
+    const lines = response.text.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('record_pull');
+
+    const exports = (await admin.get('/api/audit?action=export_audit')).body.entries;
+    expect(exports[0].details).toEqual({ entries: 1 });
+  });
+
+  it("defuses values a spreadsheet would run as a formula", async () => {
+    await server.request().post('/api/auth/login').send({ username: '=HYPERLINK("http://evil.example","x")', password: 'wrong' });
+
+    const response = await admin.get('/api/audit/export?action=login&outcome=failure');
+
+    expect(response.text).toContain('"\'=HYPERLINK(""http://evil.example"",""x"")"');
+  });
+});
+
+describe.each(['memory', 'sqlite'])("%s audit storage", (driver) => {
+  it("matches the domain filter literally", async () => {
+    const storage = createStorage({ driver, sqlitePath: ':memory:' });
+    for (const domain of ['acme_test', 'acmextest', 'acme%']) {
+      await storage.appendAuditEntry({ occurredAt: new Date().toISOString(), actor: 'support', action: 'validate_link', outcome: 'success', customerId: null, domain, ip: null, details: null });
+    }
+
+    expect((await storage.queryAuditEntries({ domain: 'acme_' })).entries.map(entry => entry.domain)).toEqual(['acme_test']);
+    expect((await storage.queryAuditEntries({ domain: '%' })).entries.map(entry => entry.domain)).toEqual(['acme%']);
+
+    await storage.close();
+  });
+});
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs/promises";
+import { startTestServer, TEST_PASSWORD } from "./helpers.js";
+import { createAuthProvider } from "../auth/index.ts";
+
+let server;
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("POST /api/auth/login", () => {
+  it("requires a username and password", async () => {
+    const response = await server.request().post('/api/auth/login').send({ username: 'support' });
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects a wrong password", async () => {
+    const response = await server.request().post('/api/auth/login').send({ username: 'support', password: 'nope' });
+    expect(response.status).toBe(401);
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it("signs in case-insensitively and returns the user's permissions", async () => {
+    const response = await server.request().post('/api/auth/login').send({ username: 'SUPPORT', password: TEST_PASSWORD });
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({
+      username: 'support',
+      role: 'support',
+      permissions: ['pull_backup', 'open_production']
+    });
+    expect(response.headers['set-cookie'][0]).toMatch(/^backup_session=.*HttpOnly/);
+  });
+});
+
+describe("GET /api/auth/session", () => {
+  it("is 401 when signed out", async () => {
+    const response = await server.request().get('/api/auth/session');
+    expect(response.status).toBe(401);
+  });
+
+  it("returns the signed-in user", async () => {
+    const agent = await server.login('admin');
+    const response = await agent.get('/api/auth/session');
+    expect(response.status).toBe(200);
+    expect(response.body.user.username).toBe('admin');
+    expect(response.body.user.permissions).toContain('view_audit');
+  });
+});
+
+describe("loadSession", () => {
+  async function editUser(username, changes) {
+    const users = JSON.parse(await fs.readFile(server.usersFile, 'utf8'));
+    Object.assign(users.find(user => user.username === username), changes);
+    await fs.writeFile(server.usersFile, JSON.stringify(users, null, 2));
+  }
+
+  it("applies a role change to sessions that are already signed in", async () => {
+    const agent = await server.login('support');
+    await editUser('support', { role: 'viewer' });
+    try {
+      expect((await agent.get('/api/auth/session')).body.user).toMatchObject({ role: 'viewer', permissions: [] });
+      expect((await agent.post('/api/pull/record').send({ customerId: 1002 })).status).toBe(403);
+    } finally {
+      await editUser('support', { role: 'support' });
+    }
+  });
+
+  it("ends the sessions of a disabled user", async () => {
+    const agent = await server.login('viewer');
+    await editUser('viewer', { disabled: true });
+    try {
+      expect((await agent.get('/api/auth/session')).status).toBe(401);
+    } finally {
+      await editUser('viewer', { disabled: false });
+    }
+    expect((await agent.get('/api/auth/session')).status).toBe(401);
+  });
+});
+
+describe("upsertUser", () => {
+  it("updates an existing user whatever the case of the username", async () => {
+    const users = createAuthProvider({ provider: 'local', usersFile: server.usersFile });
+    await users.upsertUser({ username: 'ADMIN', password: 'new-password' });
+    try {
+      const stored = JSON.parse(await fs.readFile(server.usersFile, 'utf8'));
+      expect(stored.filter(user => user.username.toLowerCase() === 'admin')).toHaveLength(1);
+      expect(await users.authenticate('admin', 'new-password')).toMatchObject({ username: 'admin', role: 'admin' });
+    } finally {
+      await users.upsertUser({ username: 'admin', password: TEST_PASSWORD });
+    }
+  });
+});
+
+describe("POST /api/auth/logout", () => {
+  it("ends the session", async () => {
+    const agent = await server.login('viewer');
+    expect((await agent.post('/api/auth/logout')).status).toBe(200);
+    expect((await agent.get('/api/auth/session')).status).toBe(401);
+  });
+});
+
+describe("requireAuth", () => {
+  it("rejects every other /api route without a session", async () => {
+    const routes = [
+      ['get', '/api/cetec/customer'],
+      ['get', '/api/backup/jobs'],
+      ['post', '/api/backup/request'],
+      ['get', '/api/schedules'],
+      ['get', '/api/audit'],
+      ['post', '/api/validate-link']
+    ];
+    for (const [method, url] of routes) {
+      const response = await server.request()[method](url);
+      expect(response.status, `${method.toUpperCase()} ${url}`).toBe(401);
+    }
+  });
+});
+
+describe("GET /api/test-mysql", () => {
+  it("reports that the endpoint is deprecated", async () => {
+    const agent = await server.login('viewer');
+    const response = await agent.get('/api/test-mysql');
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe('deprecated');
+  });
+});
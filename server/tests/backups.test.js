@@ -0,0 +1,216 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+
+const customer = (id, fields) => ({
+  id,
+  name: `Customer ${id}`,
+  domain: `c${id}`,
+  ok_to_bill: 1,
+  priority_support: 'Standard',
+  resident_hosting: 0,
+  test_environment: '0',
+  itar_hosting_bc: 0,
+  ...fields
+});
+
+const CUSTOMERS = [
+  customer(3001),
+  customer(3002),
+  customer(3003),
+  customer(3004),
+  customer(3005),
+  customer(3006),
+  customer(3010, { priority_support: 'Enterprise' }),
+  customer(3011, { itar_hosting_bc: 1 }),
+  customer(3012, { resident_hosting: 1, domain: 'wayne' }),
+  customer(3013, { resident_hosting: 1, domain: 'unmapped' }),
+  customer(3014, { domain: '' })
+];
+
+let server;
+let support;
+let admin;
+let viewer;
+
+beforeAll(async () => {
+  server = await startTestServer({ customers: CUSTOMERS });
+  // The first pull sent to getbackup stays in flight, so with one request
+  // slot every later pull waits in the queue.
+  server.getbackup.hold = true;
+  [support, admin, viewer] = await Promise.all(['support', 'admin', 'viewer'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function waitForJob(agent, jobId, predicate) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const { body } = await agent.get(`/api/backup/jobs/${jobId}`);
+    if (predicate(body.job)) {
+      return body.job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Job ${jobId} never reached the expected state`);
+}
+
+describe("POST /api/backup/request", () => {
+  it("needs the pull_backup permission", async () => {
+    const response = await viewer.post('/api/backup/request').send({ customerId: 3001 });
+    expect(response.status).toBe(403);
+  });
+
+  it("requires a customer ID", async () => {
+    const response = await support.post('/api/backup/request').send({});
+    expect(response.status).toBe(400);
+  });
+
+  it("is a 404 for a customer CETEC doesn't know", async () => {
+    const response = await support.post('/api/backup/request').send({ customerId: 9999 });
+    expect(response.status).toBe(404);
+  });
+
+  it("rejects customers without a domain", async () => {
+    const response = await support.post('/api/backup/request').send({ customerId: 3014 });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Database name is required');
+  });
+
+  it("queues a job and sends the domain to getbackup", async () => {
+    const response = await support.post('/api/backup/request').send({ customerId: 3001 });
+    expect(response.status).toBe(202);
+    expect(response.body.job).toMatchObject({ customerId: 3001, dbname: 'c3001', requestedBy: 'support' });
+
+    await waitForJob(support, response.body.job.id, job => job.state === 'requested');
+    expect(server.getbackup.requests[0]).toEqual({ dbname: 'c3001', password: 'techx-test' });
+  });
+
+  it("returns the running job instead of queueing a second pull", async () => {
+    const first = await support.post('/api/backup/request').send({ customerId: 3002 });
+    const second = await support.post('/api/backup/request').send({ customerId: 3002 });
+    expect(second.status).toBe(200);
+    expect(second.body.job.id).toBe(first.body.job.id);
+  });
+
+  it("keeps Enterprise pulls for admins", async () => {
+    const denied = await support.post('/api/backup/request').send({ customerId: 3010 });
+    expect(denied.status).toBe(403);
+
+    const allowed = await admin.post('/api/backup/request').send({ customerId: 3010 });
+    expect(allowed.status).toBe(202);
+  });
+
+  it("refuses ITAR and unmapped resident customers", async () => {
+    const itar = await support.post('/api/backup/request').send({ customerId: 3011 });
+    expect(itar.status).toBe(400);
+    expect(itar.body.error).toMatch(/ITAR/);
+
+    const resident = await support.post('/api/backup/request').send({ customerId: 3013 });
+    expect(resident.status).toBe(400);
+    expect(resident.body.error).toMatch(/resident database/);
+  });
+
+  it("allows mapped resident customers", async () => {
+    const response = await support.post('/api/backup/request').send({ customerId: 3012 });
+    expect(response.status).toBe(202);
+  });
+
+  it("lets only admins override the ITAR restriction", async () => {
+    const denied = await support.post('/api/backup/request').send({ customerId: 3011, override: true });
+    expect(denied.status).toBe(403);
+
+    const allowed = await admin.post('/api/backup/request').send({ customerId: 3011, override: true });
+    expect(allowed.status).toBe(202);
+    expect(allowed.body.job.itarHosting).toBe(false);
+  });
+
+  it("audits denied requests", async () => {
+    const { body } = await admin.get('/api/audit?action=backup_request&outcome=denied');
+    const reasons = body.entries.map(entry => entry.details.reason);
+    expect(reasons).toEqual(expect.arrayContaining(['enterprise', 'override']));
+  });
+});
+
+describe("POST /api/backup/bulk", () => {
+  it("needs a non-empty customerIds array", async () => {
+    expect((await support.post('/api/backup/bulk').send({})).status).toBe(400);
+    expect((await support.post('/api/backup/bulk').send({ customerIds: [] })).status).toBe(400);
+  });
+
+  it("caps a batch at 50 customers", async () => {
+    const customerIds = Array.from({ length: 51 }, (_, index) => 4000 + index);
+    const response = await support.post('/api/backup/bulk').send({ customerIds });
+    expect(response.status).toBe(400);
+  });
+
+  it("queues what it can and reports every customer", async () => {
+    const response = await support.post('/api/backup/bulk').send({ customerIds: [3003, '3003', 3004, 3011, 9999] });
+    expect(response.status).toBe(202);
+    expect(response.body).toMatchObject({ queued: 2, failed: 2 });
+
+    const results = Object.fromEntries(response.body.results.map(result => [result.customerId, result]));
+    expect(results['3003'].status).toBe(202);
+    expect(results['3003'].job.batchId).toBe(response.body.batchId);
+    expect(results['3011'].status).toBe(400);
+    expect(results['9999'].status).toBe(404);
+  });
+
+  it("ignores override in bulk", async () => {
+    const response = await admin.post('/api/backup/bulk').send({ customerIds: [3013], override: true });
+    expect(response.body.results[0].status).toBe(400);
+  });
+});
+
+describe("GET /api/backup/jobs", () => {
+  it("lists jobs newest first and filters by customer and activity", async () => {
+    const all = (await viewer.get('/api/backup/jobs')).body.jobs;
+    expect(all.length).toBeGreaterThan(0);
+    expect(all.map(job => job.createdAt)).toEqual([...all.map(job => job.createdAt)].sort().reverse());
+
+    const forCustomer = (await viewer.get('/api/backup/jobs?customerId=3002')).body.jobs;
+    expect(forCustomer).toHaveLength(1);
+
+    const active = (await viewer.get('/api/backup/jobs?active=true')).body.jobs;
+    expect(active.every(job => !['ready', 'failed', 'timed_out', 'cancelled'].includes(job.state))).toBe(true);
+  });
+
+  it("is a 404 for an unknown job", async () => {
+    const response = await viewer.get('/api/backup/jobs/not-a-job');
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("POST /api/backup/jobs/:id/cancel", () => {
+  it("needs the pull_backup permission", async () => {
+    const { body } = await viewer.get('/api/backup/jobs?customerId=3001');
+    const response = await viewer.post(`/api/backup/jobs/${body.jobs[0].id}/cancel`);
+    expect(response.status).toBe(403);
+  });
+
+  it("cancels a queued pull", async () => {
+    const { body } = await support.post('/api/backup/request').send({ customerId: 3005 });
+    expect(body.job.state).toBe('queued');
+
+    const response = await support.post(`/api/backup/jobs/${body.job.id}/cancel`);
+    expect(response.status).toBe(200);
+    expect(response.body.job).toMatchObject({ state: 'cancelled', cancelledBy: 'support' });
+  });
+
+  it("is a 409 once the pull has been sent to getbackup", async () => {
+    const { body } = await support.get('/api/backup/jobs?customerId=3001');
+    const response = await support.post(`/api/backup/jobs/${body.jobs[0].id}/cancel`);
+    expect(response.status).toBe(409);
+  });
+
+  it("is a 404 for an unknown job", async () => {
+    const response = await support.post('/api/backup/jobs/not-a-job/cancel');
+    expect(response.status).toBe(404);
+  });
+
+  it("shows an active pull at the top of the customer's history", async () => {
+    const { body } = await support.post('/api/backup/request').send({ customerId: 3006 });
+    const history = await support.get('/api/customers/3006/pulls');
+    expect(history.body.pulls[0]).toMatchObject({ jobId: body.job.id });
+  });
+});
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createAppConfig } from "../app-config.ts";
+import { createStorage } from "../storage/index.ts";
+import { DEFAULT_APP_CONFIG } from "../../shared/app-config.ts";
+import { startTestServer } from "./helpers.js";
+
+let server;
+let admin;
+let viewer;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  [admin, viewer] = await Promise.all(['admin', 'viewer'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("GET /api/config", () => {
+  it("needs a signed-in user", async () => {
+    expect((await server.request().get('/api/config')).status).toBe(401);
+  });
+
+  it("gives every user the current settings and the defaults", async () => {
+    const { body } = await viewer.get('/api/config');
+    expect(body.config).toEqual(DEFAULT_APP_CONFIG);
+    expect(body.defaults).toEqual(DEFAULT_APP_CONFIG);
+  });
+});
+
+describe("PUT /api/config", () => {
+  it("is for admins only", async () => {
+    expect((await viewer.put('/api/config').send({ ui: { tablePageSize: 100 } })).status).toBe(403);
+  });
+
+  it("changes only the settings it is given and audits them", async () => {
+    const response = await admin.put('/api/config').send({ ui: { tablePageSize: 100 }, features: { exportEnabled: true } });
+    expect(response.status).toBe(200);
+    expect(response.body.changed).toEqual(['features.exportEnabled', 'ui.tablePageSize']);
+    expect(response.body.config.ui).toEqual({ ...DEFAULT_APP_CONFIG.ui, tablePageSize: 100 });
+
+    const { body } = await viewer.get('/api/config');
+    expect(body.config.features.exportEnabled).toBe(true);
+    expect(body.defaults.features.exportEnabled).toBe(false);
+
+    const audit = await admin.get('/api/audit?action=config_update');
+    expect(audit.body.entries[0]).toMatchObject({
+      actor: 'admin',
+      details: { 'features.exportEnabled': true, 'ui.tablePageSize': 100 }
+    });
+  });
+
+  it("rejects values outside the schema and keeps the current settings", async () => {
+    const response = await admin.put('/api/config').send({
+      ui: { tablePageSize: 5, refreshInterval: 'often' },
+      validation: { concurrency: 10 },
+      filters: { searchableColumns: ['name', 'techx_password'] }
+    });
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      'ui.tablePageSize must be between 10 and 500',
+      'ui.refreshInterval must be a whole number',
+      'filters.searchableColumns has unknown values techx_password. Expected some of: name, domain, id'
+    ]);
+
+    const { body } = await viewer.get('/api/config');
+    expect(body.config.validation.concurrency).toBe(DEFAULT_APP_CONFIG.validation.concurrency);
+    expect(body.config.ui.tablePageSize).toBe(100);
+  });
+
+  it("rejects unknown sections and settings", async () => {
+    const response = await admin.put('/api/config').send({ mysql: { enabled: true }, ui: { theme: 'dark' } });
+    expect(response.status).toBe(400);
+    expect(response.body.errors[0]).toMatch(/Unknown settings section "mysql"/);
+    expect(response.body.errors[1]).toBe('Unknown setting "ui.theme"');
+  });
+
+  it("doesn't take inherited object keys for settings", async () => {
+    const response = await admin.put('/api/config').set('Content-Type', 'application/json')
+      .send('{"toString":{},"ui":{"toString":"x","constructor":5}}');
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([
+      expect.stringMatching(/^Unknown settings section "toString"/),
+      'Unknown setting "ui.toString"',
+      'Unknown setting "ui.constructor"'
+    ]);
+  });
+});
+
+describe("createAppConfig", () => {
+  it("takes its defaults from the environment", async () => {
+    const envServer = await startTestServer({ env: { VALIDATION_INTERVAL_MINUTES: '30', VALIDATION_CONCURRENCY: '8' } });
+    try {
+      const agent = await envServer.login('viewer');
+      const { body } = await agent.get('/api/config');
+      expect(body.defaults.validation).toMatchObject({ intervalMinutes: 30, concurrency: 8 });
+    } finally {
+      await envServer.close();
+      delete process.env.VALIDATION_INTERVAL_MINUTES;
+      delete process.env.VALIDATION_CONCURRENCY;
+    }
+  });
+
+  it("stores only overrides, so changed defaults still apply", async () => {
+    const storage = createStorage({ driver: 'memory' });
+    const first = createAppConfig({ storage, defaults: DEFAULT_APP_CONFIG });
+    await first.load();
+    await first.update({ validation: { concurrency: 2 } });
+
+    const laterDefaults = structuredClone(DEFAULT_APP_CONFIG);
+    laterDefaults.validation.intervalMinutes = 60;
+    const second = createAppConfig({ storage, defaults: laterDefaults });
+    const loaded = await second.load();
+
+    expect(loaded.validation).toEqual({ ...DEFAULT_APP_CONFIG.validation, intervalMinutes: 60, concurrency: 2 });
+  });
+
+  it("drops stored values that no longer pass the schema", async () => {
+    const storage = createStorage({ driver: 'memory' });
+    await storage.setSetting('app_config', { ui: { tablePageSize: 100000, refreshInterval: 60 } });
+
+    const loaded = await createAppConfig({ storage, defaults: DEFAULT_APP_CONFIG }).load();
+    expect(loaded.ui).toEqual({ ...DEFAULT_APP_CONFIG.ui, refreshInterval: 60 });
+  });
+
+  it("reports changes to whoever is listening", async () => {
+    const changes = [];
+    const appConfig = createAppConfig({
+      storage: createStorage({ driver: 'memory' }),
+      defaults: DEFAULT_APP_CONFIG,
+      onChange: (config, changed) => changes.push({ probeTimeout: config.validation.probeTimeout, changed })
+    });
+    await appConfig.load();
+
+    await appConfig.update({ validation: { probeTimeout: 15 } });
+    await appConfig.update({ validation: { probeTimeout: 15 } });
+
+    expect(changes).toEqual([{ probeTimeout: 15, changed: ['validation.probeTimeout'] }]);
+  });
+});
@@ -0,0 +1,423 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+
+const customer = (id, fields) => ({
+  id,
+  name: `Customer ${id}`,
+  domain: `c${id}`,
+  ok_to_bill: 1,
+  priority_support: 'Standard',
+  resident_hosting: 0,
+  test_environment: '0',
+  itar_hosting_bc: 0,
+  techx_password: '',
+  ...fields
+});
+
+const CUSTOMERS = [
+  // ok_to_bill comes back from CETEC in several shapes
+  customer(2001, { domain: 'alpha', techx_password: 'alpha-techx', test_environment: 'Update Nightly' }),
+  customer(2002, { domain: 'bravo', ok_to_bill: '1', priority_support: 'e', num_prod_users: 30, num_full_users: 10 }),
+  customer(2003, { domain: 'charlie', ok_to_bill: true, priority_support: 'Enterprise', city: 'Austin', api_token: 'charlie-token', db_password: 'charlie-db' }),
+  customer(2004, { domain: 'delta', ok_to_bill: 'yes', priority_support: 'L', num_prod_users: 120 }),
+  customer(2010, { ok_to_bill: 0 }),
+  customer(2011, { ok_to_bill: '0' }),
+  customer(2012, { ok_to_bill: '' }),
+  customer(2013, { ok_to_bill: 'false' }),
+  customer(2014, { ok_to_bill: false }),
+  customer(2015, { ok_to_bill: null }),
+  customer(5165, { name: 'Cetec Internal', domain: 'internal' }),
+  // Statuses that follow from the record alone
+  customer(2020, { itar_hosting_bc: 1 }),
+  customer(2021, { itar_hosting_bc: true }),
+  customer(2022, { resident_hosting: 1, domain: 'wayne' }),
+  customer(2023, { resident_hosting: true, domain: 'WAYNE' }),
+  customer(2024, { resident_hosting: 1, domain: 'unmapped' }),
+  customer(2025, { domain: '' }),
+  customer(2026, { domain: 'undefined' }),
+  customer(2027, { domain: '   ' }),
+  customer(2028, { domain: '', itar_hosting_bc: 1 })
+];
+
+const ENVIRONMENTS = { alpha: 'ready', bravo: 'not_ready', charlie: 'down' };
+
+let server;
+
+beforeAll(async () => {
+  server = await startTestServer({ customers: CUSTOMERS, environments: ENVIRONMENTS });
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function fetchCustomers(username = 'support', query = '') {
+  const agent = await server.login(username);
+  const response = await agent.get(`/api/cetec/customer${query}`);
+  expect(response.status).toBe(200);
+  return response.body;
+}
+
+const byId = (customers) => Object.fromEntries(customers.map(entry => [entry.id, entry]));
+
+describe("GET /api/cetec/customer", () => {
+  it("asks CETEC for billable customers with the default columns and server token", async () => {
+    await fetchCustomers();
+    const { path, query } = server.cetecRequests.at(-1);
+    expect(path).toBe('/api/customer');
+    expect(query).toMatchObject({ ok_to_bill: '1', preshared_token: 'test-token' });
+    expect(query.columns.split(',')).toEqual(expect.arrayContaining(['id', 'name', 'domain', 'ok_to_bill', 'techx_password']));
+  });
+
+  it("passes id, name and external_key through to CETEC", async () => {
+    const agent = await server.login('viewer');
+    await agent.get('/api/cetec/customer?id=2001&name=Cust&external_key=EXT-1');
+    expect(server.cetecRequests.at(-1).query).toMatchObject({ id: '2001', name: 'Cust', external_key: 'EXT-1' });
+  });
+
+  it("keeps customers whose ok_to_bill is truthy in any shape", async () => {
+    const { customers } = await fetchCustomers();
+    const ids = customers.map(entry => entry.id);
+    expect(ids).toEqual(expect.arrayContaining([2001, 2002, 2003, 2004]));
+  });
+
+  it("drops customers whose ok_to_bill is 0, '0', '', 'false', false or null", async () => {
+    const { customers } = await fetchCustomers();
+    const ids = customers.map(entry => entry.id);
+    [2010, 2011, 2012, 2013, 2014, 2015].forEach(id => expect(ids).not.toContain(id));
+  });
+
+  it("never returns customer 5165", async () => {
+    const { customers } = await fetchCustomers();
+    expect(customers.map(entry => entry.id)).not.toContain(5165);
+  });
+
+  it("derives the environment status from the record where it can", async () => {
+    const customers = byId((await fetchCustomers()).customers);
+    expect(customers[2020].environment).toMatchObject({ state: 'itar_hosting', reason: 'itar_hosting' });
+    expect(customers[2021].environment.state).toBe('itar_hosting');
+    expect(customers[2022].environment).toMatchObject({ state: 'resident_hosting', reason: 'resident_database_mapped' });
+    expect(customers[2023].environment.state).toBe('resident_hosting');
+    expect(customers[2024].environment).toMatchObject({ state: 'unavailable', reason: 'no_resident_database' });
+    expect(customers[2025].environment).toMatchObject({ state: 'invalid_domain', reason: 'no_domain' });
+    expect(customers[2026].environment.state).toBe('invalid_domain');
+    expect(customers[2027].environment.state).toBe('invalid_domain');
+    // A missing domain wins over ITAR
+    expect(customers[2028].environment.state).toBe('invalid_domain');
+    expect(customers[2020].environment).toMatchObject({ checkedAt: null, probeUrl: null, httpStatus: null });
+    expect(customers[2020]).not.toHaveProperty('database_exists');
+  });
+
+  it("reports probed customers as pending until they have been checked", async () => {
+    const customers = byId((await fetchCustomers()).customers);
+    expect(customers[2004].environment).toEqual({
+      state: 'pending_validation',
+      reason: 'not_checked_yet',
+      checkedAt: null,
+      probeUrl: null,
+      httpStatus: null,
+      detail: null
+    });
+  });
+
+  it("returns the cached probe result with why and when it was checked", async () => {
+    const agent = await server.login('viewer');
+    for (const id of [2001, 2002, 2003]) {
+      await agent.post('/api/validate-environment').send({ customerId: id });
+    }
+
+    const customers = byId((await fetchCustomers()).customers);
+    expect(customers[2001].environment).toMatchObject({ state: 'ready', reason: 'login_page_loaded', httpStatus: 200 });
+    expect(customers[2001].environment.probeUrl).toMatch(/\/devel\/alpha\/auth\/login_new$/);
+    expect(customers[2002].environment).toMatchObject({ state: 'not_ready', reason: 'redirected_to_main_site' });
+    expect(customers[2003].environment).toMatchObject({ state: 'not_ready', reason: 'server_error', httpStatus: 503 });
+    expect(Date.parse(customers[2001].environment.checkedAt)).not.toBeNaN();
+  });
+
+  it("summarises the statuses in the metadata", async () => {
+    const { metadata, customers } = await fetchCustomers();
+    expect(metadata.total_customers).toBe(customers.length);
+    expect(metadata.summary).toMatchObject({ resident_hosting: 2, itar_hosting: 2, invalid_domains: 4 });
+  });
+
+  it("never sends production passwords, only whether the user can use one", async () => {
+    const forSupport = byId((await fetchCustomers('support')).customers);
+    const forViewer = byId((await fetchCustomers('viewer')).customers);
+
+    expect(forSupport[2001]).not.toHaveProperty('techx_password');
+    expect(forSupport[2001].has_production_login).toBe(true);
+    expect(forSupport[2002].has_production_login).toBe(false);
+    expect(forViewer[2001].has_production_login).toBe(false);
+  });
+
+  it("drops secret columns even when they are asked for", async () => {
+    const { customers } = await fetchCustomers('viewer', '?id=2003&columns=id,name,ok_to_bill,city,api_token,db_password,techx_password');
+
+    expect(customers).toHaveLength(1);
+    expect(customers[0]).toMatchObject({ id: 2003, city: 'Austin' });
+    ['api_token', 'db_password', 'techx_password'].forEach(key => expect(customers[0]).not.toHaveProperty(key));
+  });
+
+  it("is a 500 when CETEC rejects the token", async () => {
+    const token = process.env.PRESHARED_TOKEN;
+    process.env.PRESHARED_TOKEN = 'wrong-token';
+    try {
+      const agent = await server.login('viewer');
+      const response = await agent.get('/api/cetec/customer');
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Failed to fetch customer data');
+    } finally {
+      process.env.PRESHARED_TOKEN = token;
+    }
+  });
+
+  it("is a 502 when CETEC answers with something other than a list", async () => {
+    server.cetec.response = { error: 'Down for maintenance' };
+    try {
+      const agent = await server.login('viewer');
+      const response = await agent.get('/api/cetec/customer?id=2001');
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('CETEC returned unexpected data format');
+    } finally {
+      server.cetec.response = null;
+    }
+  });
+});
+
+describe("GET /api/customers", () => {
+  async function searchCustomers(query = '', username = 'support') {
+    const agent = await server.login(username);
+    const response = await agent.get(`/api/customers${query}`);
+    expect(response.status).toBe(200);
+    return response.body;
+  }
+
+  const ids = async (query) => (await searchCustomers(query)).customers.map(entry => entry.id);
+
+  it("pages the billable customers by name", async () => {
+    const body = await searchCustomers('?pageSize=5&page=2');
+    expect(body).toMatchObject({ total: 13, totalCustomers: 13, page: 2, pageSize: 5 });
+    expect(body.customers.map(entry => entry.id)).toEqual([2021, 2022, 2023, 2024, 2025]);
+    expect(body.customers[0]).not.toHaveProperty('techx_password');
+  });
+
+  it("keeps a page past the end on the last page", async () => {
+    const body = await searchCustomers('?pageSize=5&page=99');
+    expect(body.page).toBe(3);
+    expect(body.customers.map(entry => entry.id)).toEqual([2026, 2027, 2028]);
+  });
+
+  it("takes its page size from the settings unless asked", async () => {
+    const admin = await server.login('admin');
+    await admin.put('/api/config').send({ ui: { tablePageSize: 10 } });
+    try {
+      const body = await searchCustomers();
+      expect(body.pageSize).toBe(10);
+      expect(body.customers).toHaveLength(10);
+    } finally {
+      await admin.put('/api/config').send({ ui: { tablePageSize: 50 } });
+    }
+  });
+
+  it("searches names and domains, case-insensitively", async () => {
+    expect(await ids('?search=WAYNE')).toEqual([2022, 2023]);
+    expect(await ids('?search=alph')).toEqual([2001]);
+    expect(await ids('?search=%20%20')).toHaveLength(13);
+  });
+
+  it("normalises support tiers before matching", async () => {
+    expect(await ids('?priority_support=Enterprise')).toEqual([2002, 2003]);
+    expect(await ids('?priority_support=Lite')).toEqual([2004]);
+  });
+
+  it("treats hosting flags given as 1 and true the same", async () => {
+    expect(await ids('?resident_hosting=1')).toEqual([2022, 2023, 2024]);
+    expect(await ids('?itar_hosting_bc=true')).toEqual([2020, 2021, 2028]);
+  });
+
+  it("filters by environment state, optionally narrowed to one reason", async () => {
+    expect(await ids('?environment=itar_hosting')).toEqual([2020, 2021]);
+    expect(await ids('?environment=unavailable:no_resident_database')).toEqual([2024]);
+    expect(await ids('?environment=unavailable:itar_hosting')).toEqual([]);
+  });
+
+  it("filters by test environment presence and cadence", async () => {
+    expect(await ids('?test_environment=true')).toEqual([2001]);
+    expect(await ids('?test_environment=Update%20Nightly')).toEqual([2001]);
+    expect(await ids('?test_environment=false')).not.toContain(2001);
+  });
+
+  it("combines search and filters", async () => {
+    expect(await ids('?resident_hosting=1&environment=resident_hosting')).toEqual([2022, 2023]);
+    expect(await ids('?resident_hosting=1&search=unmapped')).toEqual([2024]);
+  });
+
+  it("ignores search and filters an admin has turned off", async () => {
+    const admin = await server.login('admin');
+    await admin.put('/api/config').send({ filters: { filterableColumns: ['environment'] }, features: { searchEnabled: false } });
+    try {
+      expect(await ids('?itar_hosting_bc=true&search=wayne')).toHaveLength(13);
+      expect(await ids('?environment=itar_hosting')).toEqual([2020, 2021]);
+    } finally {
+      await admin.put('/api/config').send({
+        filters: { filterableColumns: ['priority_support', 'resident_hosting', 'environment', 'itar_hosting_bc', 'test_environment'] },
+        features: { searchEnabled: true }
+      });
+    }
+  });
+
+  it("sorts by the requested field", async () => {
+    expect((await ids('?sort=priority_support&order=desc')).slice(0, 3)).toEqual([2002, 2003, 2001]);
+    expect((await ids('?sort=totalUsers&order=desc')).slice(0, 3)).toEqual([2004, 2002, 2001]);
+    expect((await ids('?sort=hosting&order=desc')).slice(0, 4)).toEqual([2020, 2021, 2028, 2022]);
+  });
+
+  it("sorts never-pulled customers as the stalest, biggest first", async () => {
+    const agent = await server.login('support');
+    await agent.post('/api/pull/record').send({ customerId: 2020 });
+
+    expect((await ids('?sort=lastPulled&order=desc')).slice(0, 3)).toEqual([2020, 2004, 2002]);
+    const oldestFirst = await ids('?sort=lastPulled&order=asc');
+    expect(oldestFirst.slice(0, 2)).toEqual([2004, 2002]);
+    expect(oldestFirst.at(-1)).toBe(2020);
+  });
+
+  it("summarises the whole list and the matches, and offers filters from the whole list", async () => {
+    const body = await searchCustomers('?priority_support=Enterprise');
+    expect(body.summary).toEqual({ residentHosting: 3, itarHosting: 3, tiers: { lite: 0, standard: 0, enterprise: 2 } });
+    expect(body.facets.testEnvironments).toEqual(['Update Nightly']);
+    expect(body.facets.environments).toContainEqual({ state: 'unavailable', reasons: ['no_resident_database'] });
+  });
+
+  it("answers from the last list until asked to refresh it", async () => {
+    await searchCustomers();
+    const before = server.cetecRequests.length;
+    await searchCustomers('?search=alpha');
+    await searchCustomers('?page=2');
+    expect(server.cetecRequests.length).toBe(before);
+
+    await searchCustomers('?refresh=true');
+    expect(server.cetecRequests.length).toBe(before + 1);
+  });
+
+  it("says what changed since a version of the list", async () => {
+    const { listVersion } = await searchCustomers('?refresh=true');
+    expect((await searchCustomers(`?refresh=true&since=${listVersion}`)).changes).toBeNull();
+
+    const delta = CUSTOMERS.find(entry => entry.id === 2004);
+    CUSTOMERS.push(customer(2030, { name: 'Zenith Labs', domain: 'zenith' }));
+    delta.priority_support = 'Enterprise';
+    try {
+      const body = await searchCustomers(`?refresh=true&since=${encodeURIComponent(listVersion)}`);
+      expect(body.listVersion).not.toBe(listVersion);
+      expect(body.changes).toEqual({
+        added: [{ id: 2030, name: 'Zenith Labs', domain: 'zenith' }],
+        removed: [],
+        changed: [{
+          customer: { id: 2004, name: 'Customer 2004', domain: 'delta' },
+          fields: [{ field: 'priority_support', label: 'Support tier', before: 'Lite', after: 'Enterprise' }]
+        }]
+      });
+      expect((await searchCustomers('?since=an-old-version')).changes).toBeNull();
+    } finally {
+      CUSTOMERS.pop();
+      delta.priority_support = 'L';
+      await searchCustomers('?refresh=true');
+    }
+  });
+});
+
+describe("GET /api/customers/:id", () => {
+  async function customerDetail(id, username = 'support') {
+    const agent = await server.login(username);
+    return agent.get(`/api/customers/${id}`);
+  }
+
+  it("sends every CETEC column except passwords and tokens", async () => {
+    const response = await customerDetail(2003);
+    expect(response.status).toBe(200);
+    expect(response.body.fields).toMatchObject({ id: 2003, domain: 'charlie', city: 'Austin', priority_support: 'Enterprise' });
+    expect(response.body.fields).not.toHaveProperty('techx_password');
+    expect(response.body.fields).not.toHaveProperty('api_token');
+    expect(response.body.customer).not.toHaveProperty('techx_password');
+    expect(response.body.customer).not.toHaveProperty('api_token');
+    expect(response.body.customer).not.toHaveProperty('db_password');
+    expect(JSON.stringify(response.body)).not.toMatch(/charlie-(token|db)/);
+    expect(server.cetecRequests.at(-1).query).not.toHaveProperty('columns');
+  });
+
+  it("includes the customer as the list shows it, and the resident DB mapping", async () => {
+    const { body } = await customerDetail(2022);
+    expect(body.customer).toMatchObject({ id: 2022, environment: { state: 'resident_hosting' }, has_production_login: false });
+    expect(body.residentDatabase).toBe('wayne_resident');
+
+    expect((await customerDetail(2001)).body.residentDatabase).toBeNull();
+  });
+
+  it("is 404 for unknown or unbilled customers", async () => {
+    expect((await customerDetail(9999)).status).toBe(404);
+    expect((await customerDetail(2010)).status).toBe(404);
+  });
+
+  it("keeps each change of environment state, newest first", async () => {
+    const agent = await server.login('support');
+    const validate = () => agent.post('/api/validate-environment').send({ customerId: 2001 });
+
+    await validate();
+    ENVIRONMENTS.alpha = 'not_ready';
+    try {
+      await validate();
+      await validate();
+    } finally {
+      ENVIRONMENTS.alpha = 'ready';
+    }
+    await validate();
+
+    const { body } = await customerDetail(2001);
+    expect(body.environmentHistory.map(entry => entry.state)).toEqual(['ready', 'not_ready', 'ready']);
+    expect(body.environmentHistory[1]).toMatchObject({ reason: 'redirected_to_main_site' });
+    expect(body.environmentHistory[0].probeUrl).toMatch(/\/devel\/alpha\//);
+  });
+});
+
+describe("POST /api/pull/record", () => {
+  it("needs the pull_backup permission", async () => {
+    const agent = await server.login('viewer');
+    const response = await agent.post('/api/pull/record').send({ customerId: 2001 });
+    expect(response.status).toBe(403);
+  });
+
+  it("requires a customer ID", async () => {
+    const agent = await server.login('support');
+    const response = await agent.post('/api/pull/record').send({});
+    expect(response.status).toBe(400);
+  });
+
+  it("records the pull time shown on the customer", async () => {
+    const agent = await server.login('support');
+    const response = await agent.post('/api/pull/record').send({ customerId: 2002 });
+    expect(response.status).toBe(200);
+
+    const customers = byId((await agent.get('/api/cetec/customer')).body.customers);
+    expect(customers[2002].lastPulled).toBe(response.body.timestamp);
+  });
+});
+
+describe("GET /api/customers/:id/pulls", () => {
+  it("returns the last pull and history, newest first", async () => {
+    const agent = await server.login('support');
+    await agent.post('/api/pull/record').send({ customerId: 2003 });
+    const second = await agent.post('/api/pull/record').send({ customerId: 2003 });
+
+    const response = await agent.get('/api/customers/2003/pulls');
+    expect(response.status).toBe(200);
+    expect(response.body.lastPulled).toBe(second.body.timestamp);
+    expect(Array.isArray(response.body.pulls)).toBe(true);
+  });
+
+  it("is empty for a customer that has never been pulled", async () => {
+    const agent = await server.login('viewer');
+    const response = await agent.get('/api/customers/2004/pulls');
+    expect(response.body).toMatchObject({ lastPulled: null, pulls: [] });
+  });
+});
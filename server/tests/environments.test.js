@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer, TEST_PASSWORD } from "./helpers.js";
+
+let server;
+let support;
+let viewer;
+
+// Default fixtures: acme is ready, globex redirects to the main site,
+// initech answers 503; 1003 Initech has a test environment but no
+// production login, 1004 Stark is ITAR.
+beforeAll(async () => {
+  server = await startTestServer();
+  [support, viewer] = await Promise.all(['support', 'viewer'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("POST /api/validate-environment", () => {
+  it("requires a known customer", async () => {
+    expect((await viewer.post('/api/validate-environment').send({})).status).toBe(400);
+    expect((await viewer.post('/api/validate-environment').send({ customerId: 9999 })).status).toBe(404);
+  });
+
+  it("checks the customer's own domain, whatever the request says", async () => {
+    const response = await viewer.post('/api/validate-environment').send({ customerId: 1001, domain: 'globex', itarHosting: true });
+    expect(response.body).toMatchObject({ domain: 'acme', environment: { state: 'ready' } });
+    expect(response.body.environment.probeUrl).toMatch(/\/devel\/acme\//);
+  });
+
+  it("probes the devel login page and says why it isn't ready", async () => {
+    const ready = await viewer.post('/api/validate-environment').send({ customerId: 1001 });
+    expect(ready.body).toMatchObject({ success: true, environment: { state: 'ready', reason: 'login_page_loaded', httpStatus: 200, detail: null } });
+    expect(ready.body.environment.probeUrl).toMatch(/\/devel\/acme\/auth\/login_new$/);
+    expect(Date.parse(ready.body.environment.checkedAt)).not.toBeNaN();
+
+    const redirected = await viewer.post('/api/validate-environment').send({ customerId: 1002 });
+    expect(redirected.body.environment).toMatchObject({ state: 'not_ready', reason: 'redirected_to_main_site' });
+    expect(redirected.body.environment.detail).toMatch(/^Redirected to .*\/www\.cetecerp\.com\/$/);
+
+    const down = await viewer.post('/api/validate-environment').send({ customerId: 1003 });
+    expect(down.body.environment).toMatchObject({ state: 'not_ready', reason: 'server_error', httpStatus: 503 });
+  });
+
+  it("reports a devel host that can't be reached", async () => {
+    // Nothing listens on port 9 of the loopback address
+    const offline = await startTestServer({ env: { DEVEL_URL_TEMPLATE: 'http://127.0.0.1:9/{domain}' } });
+    try {
+      const agent = await offline.login('viewer');
+      const response = await agent.post('/api/validate-environment').send({ customerId: 1001 });
+      expect(response.body.environment).toMatchObject({ state: 'not_ready', reason: 'network_error', httpStatus: null });
+      expect(response.body.environment.detail).toMatch(/ECONNREFUSED/);
+    } finally {
+      await offline.close();
+    }
+  });
+
+  it("doesn't probe ITAR or unmapped resident customers", async () => {
+    const before = server.cetecRequests.length;
+    const itar = await viewer.post('/api/validate-environment').send({ customerId: 1004 });
+    const resident = await viewer.post('/api/validate-environment').send({ customerId: 1006 });
+
+    expect(itar.body.environment).toMatchObject({ state: 'unavailable', reason: 'itar_hosting', probeUrl: null });
+    expect(resident.body.environment).toMatchObject({ state: 'unavailable', reason: 'no_resident_database', probeUrl: null });
+    expect(server.cetecRequests.slice(before).filter(request => request.path.startsWith('/devel/'))).toEqual([]);
+  });
+});
+
+describe("POST /api/validate-link", () => {
+  it("requires a domain", async () => {
+    expect((await viewer.post('/api/validate-link').send({})).status).toBe(400);
+  });
+
+  it("refuses a domain that isn't a host name", async () => {
+    const response = await viewer.post('/api/validate-link').send({ domain: 'evil.example/x?' });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('"evil.example/x?" is not a valid customer domain');
+  });
+
+  it("reports a reachable devel environment", async () => {
+    const response = await viewer.post('/api/validate-link').send({ domain: 'acme' });
+    expect(response.body).toMatchObject({ reachable: true, status: 200 });
+    expect(response.body.url).toMatch(/\/devel\/acme\/auth\/login_new$/);
+  });
+
+  it("spots a redirect to the main site", async () => {
+    const response = await viewer.post('/api/validate-link').send({ domain: 'globex' });
+    expect(response.body).toMatchObject({ reachable: false, reason: 'redirected_to_main_site' });
+  });
+
+  it("treats a server error as unreachable", async () => {
+    const response = await viewer.post('/api/validate-link').send({ domain: 'initech' });
+    expect(response.body).toMatchObject({ reachable: false, reason: 'server_error', status: 503 });
+  });
+});
+
+describe("GET /api/customers/:id/open/:env", () => {
+  it("redirects to the techx login for devel", async () => {
+    const response = await viewer.get('/api/customers/1001/open/devel');
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toMatch(/\/devel\/acme\/auth\/login\?username=techx&password=techx-test$/);
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+
+  it("uses the test subdomain for test", async () => {
+    const response = await viewer.get('/api/customers/1001/open/test');
+    expect(response.headers.location).toBe('https://acme_test.cetecerp.com/auth/login?username=techx&password=techx-test');
+  });
+
+  it("uses the customer's own password for production, for support and admins only", async () => {
+    expect((await viewer.get('/api/customers/1001/open/production')).status).toBe(403);
+
+    const response = await support.get('/api/customers/1001/open/production');
+    expect(response.headers.location).toBe('https://acme.cetecerp.com/auth/login?username=techx&password=acme-techx');
+  });
+
+  it("explains environments a customer doesn't have", async () => {
+    expect((await support.get('/api/customers/1003/open/production')).status).toBe(400);
+    expect((await viewer.get('/api/customers/1002/open/test')).status).toBe(400);
+    expect((await viewer.get('/api/customers/1004/open/devel')).status).toBe(400);
+    expect((await viewer.get('/api/customers/1001/open/staging')).status).toBe(404);
+    expect((await viewer.get('/api/customers/9999/open/devel')).status).toBe(404);
+  });
+});
+
+describe("GET /api/events", () => {
+  it("streams a connected event and later updates", async () => {
+    const listener = server.app.listen(0, '127.0.0.1');
+    await new Promise(resolve => listener.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${listener.address().port}`;
+    const controller = new AbortController();
+
+    try {
+      const login = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: 'support', password: TEST_PASSWORD })
+      });
+      const cookie = login.headers.get('set-cookie').split(';')[0];
+
+      const response = await fetch(`${baseUrl}/api/events`, { headers: { Cookie: cookie }, signal: controller.signal });
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let received = '';
+      const readUntil = async (text) => {
+        while (!received.includes(text)) {
+          const { value, done } = await reader.read();
+          if (done) {
+            throw new Error(`Stream ended before "${text}"`);
+          }
+          received += decoder.decode(value);
+        }
+      };
+
+      await readUntil('event: connected');
+      await support.post('/api/pull/record').send({ customerId: 1002 });
+      await readUntil('event: pull');
+      expect(received).toMatch(/event: pull\ndata: \{"customerId":1002,"lastPulled":"[^"]+"\}/);
+    } finally {
+      controller.abort();
+      await new Promise(resolve => listener.close(resolve));
+    }
+  });
+});
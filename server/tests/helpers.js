@@ -0,0 +1,134 @@
+import express from "express";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import { createAuthProvider } from "../auth/index.ts";
+import { createServer } from "../app.ts";
+import { createMockCetecApp, loadFixtures, DEFAULT_FIXTURES_DIR } from "../mock-cetec/index.js";
+
+export const TEST_TOKEN = 'test-token';
+export const TEST_PASSWORD = 'password123';
+export const TEST_USERS = [
+  { username: 'viewer', name: 'Vera Viewer', role: 'viewer' },
+  { username: 'support', name: 'Sam Support', role: 'support' },
+  { username: 'admin', name: 'Ada Admin', role: 'admin' }
+];
+
+function listen(app) {
+  return new Promise(resolve => {
+    const server = app.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+function baseUrl(server) {
+  return `http://127.0.0.1:${server.address().port}`;
+}
+
+// Stand-in for the getbackup service. With `hold` on, requests are left
+// pending until release() so tests can see jobs queued behind them.
+function createGetbackupStub() {
+  const requests = [];
+  const pending = [];
+  const stub = { requests, hold: false, status: 200 };
+
+  const app = express();
+  app.get("/getbackup", (req, res) => {
+    requests.push({ ...req.query });
+    const respond = () => res.status(stub.status).json({ status: stub.status === 200 ? 'started' : 'error' });
+    if (stub.hold) {
+      pending.push(respond);
+    } else {
+      respond();
+    }
+  });
+
+  stub.release = () => pending.splice(0).forEach(respond => respond());
+  stub.app = app;
+  return stub;
+}
+
+// Builds a server against the mock CETEC API and a stub getbackup service,
+// with memory storage and fresh users and resident DB files. createServer()
+// reads its settings from process.env, so they are set before it is called.
+// Setting cetec.response makes the CETEC API answer with that body instead.
+export async function startTestServer({ customers, environments, env = {} } = {}) {
+  const fixtures = await loadFixtures();
+  const cetecRequests = [];
+  const cetec = { response: null };
+  const cetecApp = express();
+  cetecApp.use((req, res, next) => {
+    cetecRequests.push({ path: req.path, query: { ...req.query } });
+    if (cetec.response !== null) {
+      return res.json(cetec.response);
+    }
+    next();
+  });
+  cetecApp.use(createMockCetecApp({
+    customers: customers || fixtures.customers,
+    environments: environments || fixtures.environments,
+    presharedToken: TEST_TOKEN
+  }));
+  const cetecServer = await listen(cetecApp);
+
+  const getbackup = createGetbackupStub();
+  const getbackupServer = await listen(getbackup.app);
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-tool-test-'));
+  const usersFile = path.join(tempDir, 'users.json');
+  // A copy, since admins can change resident DB mappings through the API
+  const residentDbsFile = path.join(tempDir, 'resident-dbs.json');
+  await fs.copyFile(path.join(DEFAULT_FIXTURES_DIR, 'resident-dbs.json'), residentDbsFile);
+  const users = createAuthProvider({ provider: 'local', usersFile });
+  for (const user of TEST_USERS) {
+    await users.upsertUser({ ...user, password: TEST_PASSWORD });
+  }
+
+  Object.assign(process.env, {
+    API_URL: baseUrl(cetecServer),
+    PRESHARED_TOKEN: TEST_TOKEN,
+    TECHX_PASSWORD: 'techx-test',
+    DEVEL_URL_TEMPLATE: `${baseUrl(cetecServer)}/devel/{domain}`,
+    RESIDENT_DBS_FILE: residentDbsFile,
+    STORAGE_DRIVER: 'memory',
+    // Nothing to import, whatever is in the developer's own data/ directory
+    LEGACY_DATA_DIR: tempDir,
+    AUTH_USERS_FILE: usersFile,
+    BACKUP_PROVIDER: 'getbackup',
+    GETBACKUP_URL: `${baseUrl(getbackupServer)}/getbackup`,
+    BACKUP_CONCURRENCY: '1',
+    BACKUP_MAX_ATTEMPTS: '1',
+    ...env
+  });
+
+  const { app, initialize } = createServer();
+  await initialize();
+
+  async function login(username) {
+    const agent = request.agent(app);
+    const response = await agent.post('/api/auth/login').send({ username, password: TEST_PASSWORD });
+    if (response.status !== 200) {
+      throw new Error(`Could not sign in as ${username}: ${response.status}`);
+    }
+    return agent;
+  }
+
+  async function close() {
+    getbackup.release();
+    await new Promise(resolve => cetecServer.close(resolve));
+    await new Promise(resolve => getbackupServer.close(resolve));
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+
+  return {
+    app,
+    request: () => request(app),
+    login,
+    cetecRequests,
+    cetec,
+    getbackup,
+    residentDbsFile,
+    usersFile,
+    close
+  };
+}
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { createResidentDatabases } from "../resident-databases.ts";
+import { startTestServer } from "./helpers.js";
+
+let server;
+let admin;
+let support;
+
+// Default fixtures: 1006 Umbrella (resident, erp.umbrella.example, not
+// mapped); the resident DB file maps only "wayne"
+beforeAll(async () => {
+  server = await startTestServer();
+  [admin, support] = await Promise.all(['admin', 'support'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function umbrellaEnvironment() {
+  const { body } = await admin.get('/api/cetec/customer?id=1006');
+  return body.customers.find(customer => customer.id === 1006).environment;
+}
+
+async function readMappingsFile() {
+  return JSON.parse(await fs.readFile(server.residentDbsFile, 'utf8'));
+}
+
+describe("/api/resident-databases", () => {
+  it("is for admins only", async () => {
+    expect((await support.get('/api/resident-databases')).status).toBe(403);
+    expect((await support.post('/api/resident-databases').send({ domain: 'x', database: 'x_db' })).status).toBe(403);
+    expect((await support.delete('/api/resident-databases/wayne')).status).toBe(403);
+  });
+
+  it("lists the mappings from the file", async () => {
+    const { body } = await admin.get('/api/resident-databases');
+    expect(body.mappings).toEqual([{ domain: 'wayne', database: 'wayne_resident' }]);
+  });
+
+  it("validates new mappings", async () => {
+    const noDomain = await admin.post('/api/resident-databases').send({ database: 'x_db' });
+    expect(noDomain.status).toBe(400);
+
+    const badDomain = await admin.post('/api/resident-databases').send({ domain: 'bad domain', database: 'x_db' });
+    expect(badDomain.status).toBe(400);
+
+    const badDatabase = await admin.post('/api/resident-databases').send({ domain: 'initech', database: 'initech; drop' });
+    expect(badDatabase.status).toBe(400);
+    expect(badDatabase.body.error).toMatch(/letters, digits and underscores/);
+  });
+
+  it("refuses a second mapping for the same domain in any case", async () => {
+    const response = await admin.post('/api/resident-databases').send({ domain: ' WAYNE ', database: 'other_db' });
+    expect(response.status).toBe(409);
+    expect(response.body.error).toMatch(/already mapped to wayne_resident/);
+  });
+
+  it("applies a new mapping straight away, saves it and audits it", async () => {
+    expect((await umbrellaEnvironment()).reason).toBe('no_resident_database');
+
+    const response = await admin.post('/api/resident-databases').send({ domain: 'ERP.Umbrella.Example', database: 'umbrella_resident' });
+    expect(response.status).toBe(201);
+    expect(response.body.mapping).toEqual({ domain: 'erp.umbrella.example', database: 'umbrella_resident' });
+
+    expect(await umbrellaEnvironment()).toMatchObject({ state: 'resident_hosting', reason: 'resident_database_mapped' });
+    expect(await readMappingsFile()).toEqual({ 'erp.umbrella.example': 'umbrella_resident', wayne: 'wayne_resident' });
+
+    const { body } = await admin.get('/api/audit?action=resident_db_create');
+    expect(body.entries[0]).toMatchObject({ actor: 'admin', domain: 'erp.umbrella.example', details: { database: 'umbrella_resident' } });
+  });
+
+  it("lets mapped resident customers be pulled", async () => {
+    const response = await support.post('/api/backup/request').send({ customerId: 1006 });
+    expect(response.status).toBe(202);
+    await support.post(`/api/backup/jobs/${response.body.job.id}/cancel`);
+  });
+
+  it("updates a mapping whatever case the domain is given in", async () => {
+    const response = await admin.put('/api/resident-databases/Erp.Umbrella.Example').send({ database: 'umbrella_v2' });
+    expect(response.status).toBe(200);
+    expect(response.body.mapping).toEqual({ domain: 'erp.umbrella.example', database: 'umbrella_v2' });
+
+    const { body } = await admin.get('/api/audit?action=resident_db_update');
+    expect(body.entries[0].details).toEqual({ database: 'umbrella_v2', previous: 'umbrella_resident' });
+  });
+
+  it("deletes a mapping", async () => {
+    expect((await admin.delete('/api/resident-databases/erp.umbrella.example')).status).toBe(200);
+    expect((await admin.delete('/api/resident-databases/erp.umbrella.example')).status).toBe(404);
+    expect((await admin.put('/api/resident-databases/erp.umbrella.example').send({ database: 'x_db' })).status).toBe(404);
+
+    expect((await umbrellaEnvironment()).reason).toBe('no_resident_database');
+    expect(await readMappingsFile()).toEqual({ wayne: 'wayne_resident' });
+  });
+
+  it("probes a mapped resident customer on request", async () => {
+    const response = await admin.post('/api/validate-environment').send({ customerId: 1005 });
+    expect(response.status).toBe(200);
+    expect(response.body.environment.reason).not.toBe('no_resident_database');
+  });
+});
+
+describe("createResidentDatabases", () => {
+  it("reloads the file when it is edited by hand", async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'resident-dbs-test-'));
+    const file = path.join(tempDir, 'resident-dbs.json');
+    await fs.writeFile(file, JSON.stringify({ Wayne: 'wayne_resident' }));
+
+    const residentDatabases = createResidentDatabases({ file });
+    await residentDatabases.load();
+    residentDatabases.startWatching();
+
+    try {
+      expect(residentDatabases.getDatabaseName('WAYNE')).toBe('wayne_resident');
+
+      await fs.writeFile(file, JSON.stringify({ wayne: 'wayne_resident', initech: 'initech_resident' }));
+      await expect.poll(() => residentDatabases.has('Initech'), { timeout: 3000 }).toBe(true);
+
+      // A broken edit keeps what was loaded
+      await fs.writeFile(file, '{ not json');
+      await new Promise(resolve => setTimeout(resolve, 500));
+      expect(residentDatabases.has('initech')).toBe(true);
+    } finally {
+      residentDatabases.stopWatching();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+
+let server;
+let viewer;
+let support;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  [viewer, support] = await Promise.all(['viewer', 'support'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("/api/saved-views", () => {
+  it("needs a signed-in user", async () => {
+    expect((await server.request().get('/api/saved-views')).status).toBe(401);
+  });
+
+  it("starts empty", async () => {
+    const { body } = await viewer.get('/api/saved-views');
+    expect(body).toEqual({ success: true, views: [] });
+  });
+
+  it("saves the search, filters and sort, and drops anything else", async () => {
+    const response = await viewer.post('/api/saved-views').send({
+      name: '  Big accounts  ',
+      query: { priority_support: 'Enterprise', search: 'acme', sort: 'lastPulled', order: 'desc', page: 3, colour: 'red' }
+    });
+    expect(response.status).toBe(201);
+    expect(response.body.view).toMatchObject({
+      name: 'Big accounts',
+      query: { priority_support: 'Enterprise', search: 'acme', sort: 'lastPulled', order: 'desc' }
+    });
+    expect(response.body.view.query).not.toHaveProperty('page');
+    expect(response.body.view.query).not.toHaveProperty('colour');
+    expect(response.body.view).not.toHaveProperty('owner');
+  });
+
+  it("falls back to the default sort for an unknown one", async () => {
+    const { body } = await viewer.post('/api/saved-views').send({ name: 'Resident', query: { resident_hosting: '1', sort: 'colour' } });
+    expect(body.view.query).toEqual({ resident_hosting: '1', sort: 'name', order: 'asc' });
+  });
+
+  it("validates the name and query", async () => {
+    expect((await viewer.post('/api/saved-views').send({ name: ' ', query: {} })).status).toBe(400);
+    expect((await viewer.post('/api/saved-views').send({ name: 'x'.repeat(61), query: {} })).status).toBe(400);
+    expect((await viewer.post('/api/saved-views').send({ name: 'No query' })).status).toBe(400);
+  });
+
+  it("refuses a second view with the same name in any case", async () => {
+    const response = await viewer.post('/api/saved-views').send({ name: 'BIG ACCOUNTS', query: {} });
+    expect(response.status).toBe(409);
+    expect(response.body.error).toMatch(/already have a view called "Big accounts"/);
+  });
+
+  it("lists a user's views by name", async () => {
+    const { body } = await viewer.get('/api/saved-views');
+    expect(body.views.map(view => view.name)).toEqual(['Big accounts', 'Resident']);
+  });
+
+  it("updates a view's query and name", async () => {
+    const { body: { views } } = await viewer.get('/api/saved-views');
+    const resident = views.find(view => view.name === 'Resident');
+
+    const response = await viewer.put(`/api/saved-views/${resident.id}`).send({
+      name: 'Resident, not ITAR',
+      query: { resident_hosting: '1', itar_hosting_bc: 'false' }
+    });
+    expect(response.status).toBe(200);
+    expect(response.body.view).toMatchObject({
+      id: resident.id,
+      name: 'Resident, not ITAR',
+      query: { resident_hosting: '1', itar_hosting_bc: 'false', sort: 'name', order: 'asc' },
+      createdAt: resident.createdAt
+    });
+
+    const clash = await viewer.put(`/api/saved-views/${resident.id}`).send({ name: 'big accounts' });
+    expect(clash.status).toBe(409);
+  });
+
+  it("keeps each user's views to themselves", async () => {
+    const { body: { views } } = await viewer.get('/api/saved-views');
+
+    expect((await support.get('/api/saved-views')).body.views).toEqual([]);
+    expect((await support.put(`/api/saved-views/${views[0].id}`).send({ name: 'Mine now' })).status).toBe(404);
+    expect((await support.delete(`/api/saved-views/${views[0].id}`)).status).toBe(404);
+
+    // Names only need to be unique per user
+    expect((await support.post('/api/saved-views').send({ name: 'Big accounts', query: {} })).status).toBe(201);
+  });
+
+  it("deletes a view", async () => {
+    const { body: { views } } = await viewer.get('/api/saved-views');
+
+    expect((await viewer.delete(`/api/saved-views/${views[0].id}`)).status).toBe(200);
+    expect((await viewer.delete(`/api/saved-views/${views[0].id}`)).status).toBe(404);
+    expect((await viewer.get('/api/saved-views')).body.views.map(view => view.name)).toEqual(['Resident, not ITAR']);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "./helpers.js";
+
+let server;
+let support;
+let admin;
+let viewer;
+
+// Default fixtures: 1001 Acme (Enterprise), 1002 Globex (Standard),
+// 1004 Stark (ITAR), 1006 Umbrella (resident, no database mapped)
+beforeAll(async () => {
+  server = await startTestServer();
+  [support, admin, viewer] = await Promise.all(['support', 'admin', 'viewer'].map(server.login));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("POST /api/schedules", () => {
+  it("needs the pull_backup permission", async () => {
+    const response = await viewer.post('/api/schedules').send({ customerId: 1002, frequency: 'daily', time: '06:00' });
+    expect(response.status).toBe(403);
+  });
+
+  it("requires a known customer", async () => {
+    expect((await support.post('/api/schedules').send({ frequency: 'daily', time: '06:00' })).status).toBe(400);
+    expect((await support.post('/api/schedules').send({ customerId: 9999, frequency: 'daily', time: '06:00' })).status).toBe(404);
+  });
+
+  it("creates a weekly schedule with its next run", async () => {
+    const response = await support.post('/api/schedules').send({ customerId: 1002, frequency: 'weekly', time: '06:30', dayOfWeek: 1 });
+    expect(response.status).toBe(201);
+    expect(response.body.schedule).toMatchObject({
+      customerId: 1002,
+      customerName: 'Globex Electronics',
+      cron: '30 6 * * 1',
+      paused: false,
+      createdBy: 'support'
+    });
+    expect(new Date(response.body.schedule.nextRunAt).getDay()).toBe(1);
+  });
+
+  it("rejects invalid timing", async () => {
+    const badTime = await support.post('/api/schedules').send({ customerId: 1002, frequency: 'daily', time: '25:00' });
+    expect(badTime.status).toBe(400);
+
+    const badCron = await support.post('/api/schedules').send({ customerId: 1002, frequency: 'cron', cron: '* * *' });
+    expect(badCron.status).toBe(400);
+    expect(badCron.body.error).toMatch(/five fields/);
+  });
+
+  it("keeps Enterprise schedules for admins", async () => {
+    expect((await support.post('/api/schedules').send({ customerId: 1001, frequency: 'daily', time: '06:00' })).status).toBe(403);
+    expect((await admin.post('/api/schedules').send({ customerId: 1001, frequency: 'daily', time: '06:00' })).status).toBe(201);
+  });
+
+  it("refuses ITAR and unmapped resident customers", async () => {
+    expect((await admin.post('/api/schedules').send({ customerId: 1004, frequency: 'daily', time: '06:00' })).status).toBe(400);
+    expect((await admin.post('/api/schedules').send({ customerId: 1006, frequency: 'daily', time: '06:00' })).status).toBe(400);
+  });
+});
+
+describe("GET /api/schedules", () => {
+  it("lists schedules for anyone signed in, optionally for one customer", async () => {
+    const all = (await viewer.get('/api/schedules')).body.schedules;
+    expect(all.length).toBeGreaterThanOrEqual(2);
+
+    const forCustomer = (await viewer.get('/api/schedules?customerId=1001')).body.schedules;
+    expect(forCustomer.map(schedule => schedule.customerId)).toEqual([1001]);
+  });
+
+  it("puts the next run on the customer", async () => {
+    const schedules = (await viewer.get('/api/schedules?customerId=1002')).body.schedules;
+    const customers = (await viewer.get('/api/cetec/customer')).body.customers;
+    expect(customers.find(customer => customer.id === 1002).nextScheduledPull).toBe(schedules[0].nextRunAt);
+    expect(customers.find(customer => customer.id === 1003).nextScheduledPull).toBeNull();
+  });
+});
+
+describe("PUT /api/schedules/:id", () => {
+  it("pauses and re-times a schedule", async () => {
+    const [schedule] = (await support.get('/api/schedules?customerId=1002')).body.schedules;
+
+    const paused = await support.put(`/api/schedules/${schedule.id}`).send({ paused: true });
+    expect(paused.status).toBe(200);
+    expect(paused.body.schedule.paused).toBe(true);
+
+    const customers = (await viewer.get('/api/cetec/customer')).body.customers;
+    expect(customers.find(customer => customer.id === 1002).nextScheduledPull).toBeNull();
+
+    const retimed = await support.put(`/api/schedules/${schedule.id}`).send({ frequency: 'cron', cron: '0 2 * * *' });
+    expect(retimed.body.schedule).toMatchObject({ frequency: 'cron', cron: '0 2 * * *', time: null, dayOfWeek: null, paused: true });
+  });
+
+  it("is a 404 for an unknown schedule", async () => {
+    expect((await support.put('/api/schedules/nope').send({ paused: true })).status).toBe(404);
+  });
+
+  it("needs the pull_backup permission", async () => {
+    const [schedule] = (await viewer.get('/api/schedules')).body.schedules;
+    expect((await viewer.put(`/api/schedules/${schedule.id}`).send({ paused: true })).status).toBe(403);
+  });
+
+  it("keeps Enterprise schedules away from support users", async () => {
+    const [schedule] = (await admin.get('/api/schedules?customerId=1001')).body.schedules;
+
+    const response = await support.put(`/api/schedules/${schedule.id}`).send({ frequency: 'cron', cron: '* * * * *' });
+    expect(response.status).toBe(403);
+    expect((await admin.get('/api/schedules?customerId=1001')).body.schedules[0].cron).toBe(schedule.cron);
+    expect((await support.delete(`/api/schedules/${schedule.id}`)).status).toBe(403);
+  });
+
+  it("hands the schedule to whoever changes it", async () => {
+    const created = (await support.post('/api/schedules').send({ customerId: 1002, frequency: 'daily', time: '04:00' })).body.schedule;
+
+    const response = await admin.put(`/api/schedules/${created.id}`).send({ time: '05:00' });
+    expect(response.body.schedule).toMatchObject({ time: '05:00', createdBy: 'admin' });
+
+    await admin.delete(`/api/schedules/${created.id}`);
+  });
+
+  it("keeps the owner when a schedule is only paused or resumed", async () => {
+    const created = (await support.post('/api/schedules').send({ customerId: 1002, frequency: 'daily', time: '04:00' })).body.schedule;
+
+    const response = await admin.put(`/api/schedules/${created.id}`).send({ paused: true });
+    expect(response.body.schedule).toMatchObject({ paused: true, createdBy: 'support' });
+
+    await admin.delete(`/api/schedules/${created.id}`);
+  });
+
+  it("can still pause a schedule for a customer that can no longer be pulled", async () => {
+    const created = (await admin.post('/api/schedules').send({ customerId: 1005, frequency: 'daily', time: '04:00' })).body.schedule;
+    await admin.delete('/api/resident-databases/wayne');
+    try {
+      expect((await admin.put(`/api/schedules/${created.id}`).send({ paused: true })).status).toBe(200);
+      expect((await admin.put(`/api/schedules/${created.id}`).send({ time: '05:00' })).status).toBe(400);
+    } finally {
+      await admin.post('/api/resident-databases').send({ domain: 'wayne', database: 'wayne_resident' });
+      await admin.delete(`/api/schedules/${created.id}`);
+    }
+  });
+
+  it("needs a day when a schedule becomes weekly", async () => {
+    const created = (await support.post('/api/schedules').send({ customerId: 1002, frequency: 'daily', time: '04:00' })).body.schedule;
+
+    const response = await support.put(`/api/schedules/${created.id}`).send({ frequency: 'weekly' });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Day of week must be 0 (Sunday) to 6 (Saturday)');
+
+    await support.delete(`/api/schedules/${created.id}`);
+  });
+});
+
+describe("DELETE /api/schedules/:id", () => {
+  it("deletes a schedule and audits every change", async () => {
+    const [schedule] = (await support.get('/api/schedules?customerId=1002')).body.schedules;
+
+    expect((await support.delete(`/api/schedules/${schedule.id}`)).status).toBe(200);
+    expect((await support.delete(`/api/schedules/${schedule.id}`)).status).toBe(404);
+    expect((await support.get('/api/schedules?customerId=1002')).body.schedules).toEqual([]);
+
+    const { body } = await admin.get('/api/audit?customerId=1002');
+    const actions = body.entries.map(entry => entry.action);
+    expect(actions).toEqual(expect.arrayContaining(['schedule_create', 'schedule_update', 'schedule_delete']));
+  });
+});
@@ -0,0 +1,91 @@
+import type { ProbeResult } from "../shared/customer.js";
+import type { createStorage } from "./storage/index.js";
+import type { createAuditLog } from "./audit.js";
+import type { createEventStream } from "./events.js";
+import type { createAppConfig } from "./app-config.js";
+import type { createAuthProvider, createSessionManager } from "./auth/index.js";
+import type { createBackupJobTracker, JobState } from "./backup-jobs.js";
+import type { createBackupScheduler } from "./schedules.js";
+import type { createEnvironmentMonitor } from "./environment-monitor.js";
+import type { createCustomerDirectory } from "./customers.js";
+import type { createResidentDatabases } from "./resident-databases.js";
+import type { createDevelEnvironments } from "./devel-environments.js";
+import type { createPullRecorder } from "./pull-history.js";
+import type { createPullRequester } from "./pull-requests.js";
+import type { createSavedViews } from "./saved-views.js";
+import type { createAlertMonitor } from "./alerts.js";
+
+export type Role = 'viewer' | 'support' | 'admin';
+
+export interface SessionUser {
+  username: string;
+  name: string;
+  role: Role;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+      sessionId?: string;
+    }
+  }
+}
+
+// Who an action is attributed to: a request, or the server acting for
+// someone later, as a scheduled pull does for its owner
+export interface ActingUser {
+  user?: SessionUser;
+  ip?: string | null;
+}
+
+// Everything the route modules share, built once by createServer()
+export interface ServerContext {
+  develUrlTemplate: string;
+  storage: ReturnType<typeof createStorage>;
+  audit: ReturnType<typeof createAuditLog>;
+  events: ReturnType<typeof createEventStream>;
+  appConfig: ReturnType<typeof createAppConfig>;
+  authProvider: ReturnType<typeof createAuthProvider>;
+  sessions: ReturnType<typeof createSessionManager>;
+  customers: ReturnType<typeof createCustomerDirectory>;
+  residentDatabases: ReturnType<typeof createResidentDatabases>;
+  develEnvironments: ReturnType<typeof createDevelEnvironments>;
+  backupJobs: ReturnType<typeof createBackupJobTracker>;
+  scheduler: ReturnType<typeof createBackupScheduler>;
+  environmentMonitor: ReturnType<typeof createEnvironmentMonitor>;
+  pulls: ReturnType<typeof createPullRecorder>;
+  pullRequests: ReturnType<typeof createPullRequester>;
+  savedViews: ReturnType<typeof createSavedViews>;
+  alertMonitor: ReturnType<typeof createAlertMonitor>;
+}
+
+// A pull as server/backup-jobs.ts tracks it
+export interface BackupJob {
+  id: string;
+  customerId: string | number;
+  customerName: string | null;
+  domain: string;
+  dbname: string;
+  residentHosting: boolean;
+  itarHosting: boolean;
+  requestedBy: string | null;
+  batchId: string | null;
+  scheduleId: string | null;
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  providerReference: string | null;
+  createdAt: string;
+  updatedAt: string;
+  requestedAt: string | null;
+  finishedAt: string | null;
+  environmentStatus: ProbeResult | null;
+  lastCheckedAt: string | null;
+  result: unknown;
+  requestError?: string | null;
+  cancelledBy?: string | null;
+  error: string | null;
+}
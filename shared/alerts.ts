@@ -0,0 +1,70 @@
+import type { PriorityTier } from './customer-query.js';
+
+// Alert rules and the alerts they raise, shared by the server and the Alerts
+// page. The server checks every enabled rule against every customer it could
+// pull a backup for, and notifies each rule's channels when an alert opens
+// and again when it resolves.
+
+export const ALERT_RULE_KINDS = ['stale_backup', 'pull_not_ready'] as const;
+export type AlertRuleKind = typeof ALERT_RULE_KINDS[number];
+
+export const NOTIFIER_CHANNELS = ['webhook', 'slack', 'email'] as const;
+export type NotifierChannel = typeof NOTIFIER_CHANNELS[number];
+
+export const NOTIFIER_CHANNEL_LABELS: Record<NotifierChannel, string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  email: 'Email'
+};
+
+// What each kind of rule checks and what its threshold counts
+export const ALERT_RULE_KIND_DETAILS: Record<AlertRuleKind, { label: string; unit: 'days' | 'minutes'; min: number; max: number }> = {
+  stale_backup: { label: 'Not pulled within', unit: 'days', min: 1, max: 365 },
+  pull_not_ready: { label: 'Pull not ready after', unit: 'minutes', min: 5, max: 1440 }
+};
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  threshold: number;
+  // null checks customers of every tier
+  priority_support: PriorityTier | null;
+  channels: NotifierChannel[];
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleInput = Partial<Pick<AlertRule, 'name' | 'kind' | 'threshold' | 'priority_support' | 'channels' | 'enabled'>>;
+
+export interface AlertDelivery {
+  channel: NotifierChannel;
+  event: 'opened' | 'resolved';
+  ok: boolean;
+  error: string | null;
+  at: string;
+}
+
+// One customer matching one rule, from when it was first seen until it no
+// longer does
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  kind: AlertRuleKind;
+  customerId: string;
+  customerName: string;
+  message: string;
+  openedAt: string;
+  resolvedAt: string | null;
+  deliveries: AlertDelivery[];
+}
+
+export const describeAlertRule = ({ kind, threshold, priority_support }: Pick<AlertRule, 'kind' | 'threshold' | 'priority_support'>): string => {
+  const customers = priority_support ? `${priority_support} customers` : 'Customers';
+  return kind === 'stale_backup'
+    ? `${customers} not pulled in ${threshold} ${threshold === 1 ? 'day' : 'days'}`
+    : `${customers} whose last pull failed or is not ready after ${threshold} minutes`;
+};
@@ -0,0 +1,195 @@
+// Runtime settings shared by the server and the dashboard. The server keeps
+// the current values (GET/PUT /api/config); the schema below is what both
+// sides validate against and what the admin Settings page is built from.
+
+export const SEARCHABLE_COLUMNS = ['name', 'domain', 'id'] as const;
+export const FILTERABLE_COLUMNS = ['priority_support', 'resident_hosting', 'environment', 'itar_hosting_bc', 'test_environment'] as const;
+
+export type SearchableColumn = typeof SEARCHABLE_COLUMNS[number];
+export type FilterableColumn = typeof FILTERABLE_COLUMNS[number];
+
+export interface AppConfig {
+  features: {
+    searchEnabled: boolean;
+    filteringEnabled: boolean;
+    exportEnabled: boolean;
+  };
+  ui: {
+    tablePageSize: number;
+    refreshInterval: number;
+    requestTimeout: number;
+    validationTimeout: number;
+  };
+  filters: {
+    searchableColumns: SearchableColumn[];
+    filterableColumns: FilterableColumn[];
+  };
+  validation: {
+    intervalMinutes: number;
+    concurrency: number;
+    probeTimeout: number;
+  };
+  backups: {
+    pollInterval: number;
+    maxRestoreMinutes: number;
+  };
+  alerts: {
+    intervalMinutes: number;
+  };
+}
+
+export type AppConfigSection = keyof AppConfig;
+export type FeatureFlag = keyof AppConfig['features'];
+
+export type AppConfigChanges = { [S in AppConfigSection]?: Partial<AppConfig[S]> };
+
+// What a setting can hold, whatever its schema type
+export type SettingValue = boolean | number | string[];
+
+// Anything laid out like the config, such as the Settings page's form
+// before its values have been checked
+export type AppConfigValues = Record<AppConfigSection, Record<string, unknown>>;
+
+export type SettingSchema =
+  | { type: 'boolean'; label: string; description: string }
+  | { type: 'integer'; label: string; description: string; min: number; max: number; unit?: string }
+  | { type: 'list'; label: string; description: string; options: readonly string[] };
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  features: {
+    searchEnabled: true,
+    filteringEnabled: true,
+    exportEnabled: false
+  },
+  ui: {
+    tablePageSize: 50,
+    refreshInterval: 300,
+    requestTimeout: 60,
+    validationTimeout: 10
+  },
+  filters: {
+    searchableColumns: ['name', 'domain'],
+    filterableColumns: [...FILTERABLE_COLUMNS]
+  },
+  validation: {
+    intervalMinutes: 15,
+    concurrency: 5,
+    probeTimeout: 5
+  },
+  backups: {
+    pollInterval: 60,
+    maxRestoreMinutes: 30
+  },
+  alerts: {
+    intervalMinutes: 15
+  }
+};
+
+export const APP_CONFIG_SECTION_LABELS: Record<AppConfigSection, string> = {
+  features: 'Features',
+  ui: 'Dashboard',
+  filters: 'Search and filters',
+  validation: 'Environment validation',
+  backups: 'Backup jobs',
+  alerts: 'Alerts'
+};
+
+export const APP_CONFIG_SCHEMA: { [S in AppConfigSection]: Record<keyof AppConfig[S], SettingSchema> } = {
+  features: {
+    searchEnabled: { type: 'boolean', label: 'Search', description: 'Show the customer search box' },
+    filteringEnabled: { type: 'boolean', label: 'Filters', description: 'Show the customer filters' },
+    exportEnabled: { type: 'boolean', label: 'Export', description: 'Let users export the customer list' }
+  },
+  ui: {
+    tablePageSize: { type: 'integer', label: 'Page size', description: 'Customers shown per page', min: 10, max: 500 },
+    refreshInterval: { type: 'integer', label: 'Auto-refresh', description: 'How often the customer list reloads; 0 turns it off', min: 0, max: 86400, unit: 'seconds' },
+    requestTimeout: { type: 'integer', label: 'Customer list timeout', description: 'How long the dashboard waits for the customer list', min: 5, max: 600, unit: 'seconds' },
+    validationTimeout: { type: 'integer', label: 'Validation timeout', description: 'How long the dashboard waits for a one-off environment check', min: 1, max: 120, unit: 'seconds' }
+  },
+  filters: {
+    searchableColumns: { type: 'list', label: 'Searchable fields', description: 'Customer fields the search box matches', options: SEARCHABLE_COLUMNS },
+    filterableColumns: { type: 'list', label: 'Filters offered', description: 'Filters shown in the filter panel', options: FILTERABLE_COLUMNS }
+  },
+  validation: {
+    intervalMinutes: { type: 'integer', label: 'Sweep interval', description: 'How often every devel environment is probed', min: 1, max: 1440, unit: 'minutes' },
+    concurrency: { type: 'integer', label: 'Concurrency', description: 'Probes in flight at once during a sweep', min: 1, max: 50 },
+    probeTimeout: { type: 'integer', label: 'Probe timeout', description: 'How long a devel login page gets to answer', min: 1, max: 60, unit: 'seconds' }
+  },
+  backups: {
+    pollInterval: { type: 'integer', label: 'Poll interval', description: 'How often a restoring job is checked', min: 5, max: 3600, unit: 'seconds' },
+    maxRestoreMinutes: { type: 'integer', label: 'Restore time limit', description: 'When a restore that never becomes ready is marked timed out', min: 1, max: 1440, unit: 'minutes' }
+  },
+  alerts: {
+    intervalMinutes: { type: 'integer', label: 'Check interval', description: 'How often the alert rules are checked', min: 1, max: 1440, unit: 'minutes' }
+  }
+};
+
+function validateSetting(path: string, schema: SettingSchema, value: unknown): string | null {
+  switch (schema.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be true or false`;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return `${path} must be a whole number`;
+      }
+      return value < schema.min || value > schema.max ? `${path} must be between ${schema.min} and ${schema.max}` : null;
+    case 'list': {
+      if (!Array.isArray(value)) {
+        return `${path} must be a list`;
+      }
+      const unknown = value.filter(item => !schema.options.includes(item));
+      return unknown.length > 0 ? `${path} has unknown values ${unknown.join(', ')}. Expected some of: ${schema.options.join(', ')}` : null;
+    }
+    default:
+      return `${path} has an unsupported setting type "${(schema as { type: string }).type}"`;
+  }
+}
+
+// Applies `changes` on top of `base`. Unknown sections or keys and values
+// outside the schema are reported in `errors` and leave `base` as it was.
+export function applyAppConfigChanges(base: AppConfig, changes: unknown): { config: AppConfig; errors: string[] } {
+  const config = structuredClone(base);
+  const errors: string[] = [];
+
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return { config, errors: ['Settings must be an object of sections'] };
+  }
+
+  Object.entries(changes as Record<string, unknown>).forEach(([section, values]) => {
+    if (!Object.hasOwn(APP_CONFIG_SCHEMA, section)) {
+      errors.push(`Unknown settings section "${section}". Expected one of: ${Object.keys(APP_CONFIG_SCHEMA).join(', ')}`);
+      return;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      errors.push(`${section} must be an object`);
+      return;
+    }
+
+    const sectionSchema = APP_CONFIG_SCHEMA[section as AppConfigSection] as Record<string, SettingSchema>;
+    const target = config[section as AppConfigSection] as Record<string, unknown>;
+    Object.entries(values as Record<string, unknown>).forEach(([key, value]) => {
+      const path = `${section}.${key}`;
+      if (!Object.hasOwn(sectionSchema, key)) {
+        errors.push(`Unknown setting "${path}"`);
+        return;
+      }
+      const error = validateSetting(path, sectionSchema[key], value);
+      if (error) {
+        errors.push(error);
+        return;
+      }
+      target[key] = Array.isArray(value) ? Array.from(new Set(value)) : value;
+    });
+  });
+
+  return errors.length > 0 ? { config: structuredClone(base), errors } : { config, errors };
+}
+
+// Dotted paths whose values differ between two configs, e.g. "ui.tablePageSize"
+export function diffAppConfig(before: AppConfigValues, after: AppConfigValues): string[] {
+  return (Object.keys(APP_CONFIG_SCHEMA) as AppConfigSection[]).flatMap(section =>
+    Object.keys(APP_CONFIG_SCHEMA[section])
+      .filter(key => JSON.stringify(before[section][key]) !== JSON.stringify(after[section][key]))
+      .map(key => `${section}.${key}`)
+  );
+}
@@ -0,0 +1,80 @@
+// What changed between two loads of the customer list. The server keeps the
+// lists it loaded from CETEC and answers "what changed since" with this; the
+// dashboard shows it above the customer cards.
+
+import { isFlagSet } from './customer.js';
+import type { CetecCustomer } from './customer.js';
+import { normalizePrioritySupport } from './customer-query.js';
+
+// The customer fields a reload points out when they change
+export type TrackedField = 'priority_support' | 'resident_hosting' | 'itar_hosting_bc';
+
+export interface FieldChange {
+  field: TrackedField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Enough to name a customer; diffs never carry the rest of the record
+export interface CustomerRef {
+  id: number;
+  name: string;
+  domain: string | null;
+}
+
+export interface ChangedCustomer {
+  customer: CustomerRef;
+  fields: FieldChange[];
+}
+
+export interface CustomerListDiff {
+  added: CustomerRef[];
+  removed: CustomerRef[];
+  changed: ChangedCustomer[];
+}
+
+type TrackedCustomer = Pick<CetecCustomer, 'id' | 'name' | 'domain' | TrackedField>;
+
+const flag = (value: CetecCustomer['resident_hosting']): string => (isFlagSet(value) ? 'Yes' : 'No');
+
+// CETEC spells the same tier or flag several ways, so fields are compared by
+// what they mean rather than by their raw value
+const TRACKED_FIELDS: { field: TrackedField; label: string; describe: (customer: TrackedCustomer) => string }[] = [
+  { field: 'priority_support', label: 'Support tier', describe: customer => normalizePrioritySupport(customer.priority_support) || 'None' },
+  { field: 'resident_hosting', label: 'Resident hosting', describe: customer => flag(customer.resident_hosting) },
+  { field: 'itar_hosting_bc', label: 'ITAR hosting', describe: customer => flag(customer.itar_hosting_bc) }
+];
+
+const toRef = ({ id, name, domain }: TrackedCustomer): CustomerRef => ({ id, name, domain });
+
+export const diffCustomers = (previous: TrackedCustomer[], next: TrackedCustomer[]): CustomerListDiff => {
+  const previousById = new Map(previous.map(customer => [String(customer.id), customer]));
+  const nextIds = new Set(next.map(customer => String(customer.id)));
+
+  const diff: CustomerListDiff = {
+    added: [],
+    removed: previous.filter(customer => !nextIds.has(String(customer.id))).map(toRef),
+    changed: []
+  };
+
+  next.forEach(customer => {
+    const before = previousById.get(String(customer.id));
+    if (!before) {
+      diff.added.push(toRef(customer));
+      return;
+    }
+
+    const fields = TRACKED_FIELDS
+      .map(({ field, label, describe }) => ({ field, label, before: describe(before), after: describe(customer) }))
+      .filter(change => change.before !== change.after);
+    if (fields.length > 0) {
+      diff.changed.push({ customer: toRef(customer), fields });
+    }
+  });
+
+  return diff;
+};
+
+export const hasChanges = (diff: CustomerListDiff): boolean =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
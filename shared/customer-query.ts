@@ -0,0 +1,291 @@
+// Searching, filtering, sorting and paging the customer list. The server
+// answers GET /api/customers with these, and the dashboard builds its query
+// string from the same types, so both sides agree on what a filter means.
+
+import { ENVIRONMENT_STATES, getHostingType, getTotalUsers, isFlagSet } from './customer.js';
+import type { CetecCustomer, Customer, EnvironmentReason, EnvironmentState, HostingType } from './customer.js';
+import type { AppConfig, FilterableColumn } from './app-config.js';
+import type { CustomerListDiff } from './customer-changes.js';
+
+// Values as the filter menus send them: a tier name, '1'/'0' for resident,
+// 'true'/'false' for ITAR, 'true'/'false' or a cadence for the test
+// environment, and a state or "state:reason" for the environment
+export type CustomerFilters = { [C in FilterableColumn]?: string } & { search?: string };
+
+export const CUSTOMER_SORT_FIELDS = ['name', 'id', 'domain', 'priority_support', 'totalUsers', 'hosting', 'environment', 'lastPulled', 'nextScheduledPull'] as const;
+export type CustomerSortField = typeof CUSTOMER_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export const CUSTOMER_SORT_LABELS: Record<CustomerSortField, string> = {
+  name: 'Name',
+  id: 'ID',
+  domain: 'Domain',
+  priority_support: 'Support tier',
+  totalUsers: 'Total users',
+  hosting: 'Hosting',
+  environment: 'Backup status',
+  lastPulled: 'Last pulled',
+  nextScheduledPull: 'Next scheduled pull'
+};
+
+export interface CustomerSort {
+  sort: CustomerSortField;
+  order: SortOrder;
+}
+
+export type CustomerQuery = CustomerFilters & CustomerSort & {
+  page: number;
+  pageSize: number;
+};
+
+export const DEFAULT_CUSTOMER_SORT: CustomerSort = { sort: 'name', order: 'asc' };
+
+export const MAX_CUSTOMER_PAGE_SIZE = 500;
+
+export const CUSTOMER_FILTER_KEYS: (keyof CustomerFilters)[] = ['search', 'priority_support', 'resident_hosting', 'environment', 'itar_hosting_bc', 'test_environment'];
+
+export type PriorityTier = 'Lite' | 'Standard' | 'Enterprise';
+
+// CETEC spells tiers several ways; null is no support tier
+export const normalizePrioritySupport = (value: string | null | undefined): PriorityTier | null => {
+  const prioritySupport = String(value || '').toLowerCase().trim();
+  if (prioritySupport === 'lite' || prioritySupport === 'l') {
+    return 'Lite';
+  }
+  if (prioritySupport === 'standard' || prioritySupport === 'std' || prioritySupport === 's') {
+    return 'Standard';
+  }
+  if (prioritySupport === 'enterprise' || prioritySupport === 'ent' || prioritySupport === 'e') {
+    return 'Enterprise';
+  }
+  return null;
+};
+
+// Enterprise customers can only be pulled by users allowed to pull them
+export const isEnterpriseTier = (value: string | null | undefined): boolean =>
+  normalizePrioritySupport(value) === 'Enterprise';
+
+export const hasTestEnvironment = (value: CetecCustomer['test_environment']): boolean =>
+  Boolean(value) && value !== '0' && value !== 'false';
+
+// Search and filters an admin has turned off on the Settings page are
+// ignored, whatever the request asks for
+export type CustomerSearchSettings = Pick<AppConfig, 'features' | 'filters'>;
+
+export const matchesCustomerFilters = (customer: Customer, filters: CustomerFilters, { features, filters: settings }: CustomerSearchSettings): boolean => {
+  const offersFilter = (column: FilterableColumn) =>
+    Boolean(filters[column]) && features.filteringEnabled && settings.filterableColumns.includes(column);
+
+  const search = features.searchEnabled ? (filters.search || '').trim().toLowerCase() : '';
+  if (search && !settings.searchableColumns.some(column => String(customer[column] ?? '').toLowerCase().includes(search))) {
+    return false;
+  }
+
+  if (offersFilter('priority_support') && normalizePrioritySupport(customer.priority_support) !== filters.priority_support) {
+    return false;
+  }
+
+  if (offersFilter('resident_hosting') && isFlagSet(customer.resident_hosting) !== (filters.resident_hosting === '1')) {
+    return false;
+  }
+
+  // 'true' is any test environment, 'false' is none, anything else is a
+  // specific update cadence
+  if (offersFilter('test_environment')) {
+    const wanted = filters.test_environment;
+    if (wanted === 'true' || wanted === 'false') {
+      if (hasTestEnvironment(customer.test_environment) !== (wanted === 'true')) {
+        return false;
+      }
+    } else if (String(customer.test_environment) !== wanted) {
+      return false;
+    }
+  }
+
+  if (offersFilter('environment')) {
+    const [state, reason] = filters.environment!.split(':');
+    if (customer.environment.state !== state || (reason && customer.environment.reason !== reason)) {
+      return false;
+    }
+  }
+
+  if (offersFilter('itar_hosting_bc') && isFlagSet(customer.itar_hosting_bc) !== (filters.itar_hosting_bc === 'true')) {
+    return false;
+  }
+
+  return true;
+};
+
+const TIER_RANK: Record<PriorityTier, number> = { Lite: 1, Standard: 2, Enterprise: 3 };
+
+const HOSTING_RANK: Record<HostingType, number> = { cloud: 0, resident: 1, itar: 2 };
+
+const sortValue = (customer: Customer, field: CustomerSortField): string | number | null => {
+  switch (field) {
+    case 'name':
+      return (customer.name || '').toLowerCase();
+    case 'id':
+      return Number(customer.id);
+    case 'domain':
+      return customer.domain ? customer.domain.toLowerCase() : null;
+    case 'priority_support': {
+      const tier = normalizePrioritySupport(customer.priority_support);
+      return tier ? TIER_RANK[tier] : 0;
+    }
+    case 'totalUsers':
+      return getTotalUsers(customer);
+    case 'hosting':
+      return HOSTING_RANK[getHostingType(customer)];
+    case 'environment':
+      return ENVIRONMENT_STATES.indexOf(customer.environment.state);
+    // Never pulled counts as the oldest pull there is, so oldest first leads
+    // with the customers that have never had a devel copy
+    case 'lastPulled':
+      return customer.lastPulled ? Date.parse(customer.lastPulled) : 0;
+    case 'nextScheduledPull':
+      return customer.nextScheduledPull ? Date.parse(customer.nextScheduledPull) : null;
+  }
+};
+
+// Customers without a value (no domain, nothing scheduled) go last either
+// way. Ties fall back to the name so pages don't shuffle between requests;
+// equally stale customers list the biggest first.
+export const compareCustomers = ({ sort, order }: CustomerSort) => (a: Customer, b: Customer): number => {
+  const valueA = sortValue(a, sort);
+  const valueB = sortValue(b, sort);
+
+  if (valueA !== valueB) {
+    if (valueA === null) {
+      return 1;
+    }
+    if (valueB === null) {
+      return -1;
+    }
+    const compared = typeof valueA === 'string' && typeof valueB === 'string'
+      ? valueA.localeCompare(valueB)
+      : Number(valueA) - Number(valueB);
+    if (compared !== 0) {
+      return order === 'desc' ? -compared : compared;
+    }
+  }
+
+  if (sort === 'lastPulled' && getTotalUsers(a) !== getTotalUsers(b)) {
+    return getTotalUsers(b) - getTotalUsers(a);
+  }
+  return (a.name || '').toLowerCase().localeCompare((b.name || '').toLowerCase()) || Number(a.id) - Number(b.id);
+};
+
+// What the filter menus offer, taken from the whole list rather than the page
+export interface CustomerFacets {
+  environments: { state: EnvironmentState; reasons: EnvironmentReason[] }[];
+  testEnvironments: string[];
+}
+
+export const getCustomerFacets = (customers: Customer[]): CustomerFacets => ({
+  environments: ENVIRONMENT_STATES
+    .map(state => ({
+      state,
+      reasons: Array.from(new Set(
+        customers.filter(customer => customer.environment.state === state).map(customer => customer.environment.reason)
+      )).sort()
+    }))
+    .filter(facet => facet.reasons.length > 0),
+  testEnvironments: Array.from(new Set(
+    customers.filter(customer => hasTestEnvironment(customer.test_environment)).map(customer => String(customer.test_environment))
+  )).sort()
+});
+
+export interface CustomerSummary {
+  // Across every customer
+  residentHosting: number;
+  itarHosting: number;
+  // Across the customers that match
+  tiers: { lite: number; standard: number; enterprise: number };
+}
+
+export const summarizeCustomers = (customers: Customer[], matching: Customer[]): CustomerSummary => ({
+  residentHosting: customers.filter(customer => isFlagSet(customer.resident_hosting)).length,
+  itarHosting: customers.filter(customer => isFlagSet(customer.itar_hosting_bc)).length,
+  tiers: {
+    lite: matching.filter(customer => normalizePrioritySupport(customer.priority_support) === 'Lite').length,
+    standard: matching.filter(customer => normalizePrioritySupport(customer.priority_support) === 'Standard').length,
+    enterprise: matching.filter(customer => normalizePrioritySupport(customer.priority_support) === 'Enterprise').length
+  }
+});
+
+// One page of GET /api/customers
+export interface CustomerPage {
+  success: true;
+  customers: Customer[];
+  // Customers that match the search and filters, and customers in all
+  total: number;
+  totalCustomers: number;
+  page: number;
+  pageSize: number;
+  summary: CustomerSummary;
+  facets: CustomerFacets;
+  // Identifies the customer list the page was cut from; send it back as
+  // `since` to learn what changed
+  listVersion: string | null;
+  changes: CustomerListDiff | null;
+}
+
+export const toCustomerSearchParams = (query: Partial<CustomerQuery>): URLSearchParams => {
+  const params = new URLSearchParams();
+  CUSTOMER_FILTER_KEYS.forEach(key => {
+    const value = query[key];
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  if (query.sort) {
+    params.set('sort', query.sort);
+  }
+  if (query.order) {
+    params.set('order', query.order);
+  }
+  if (query.page) {
+    params.set('page', String(query.page));
+  }
+  if (query.pageSize) {
+    params.set('pageSize', String(query.pageSize));
+  }
+  return params;
+};
+
+// Anything unrecognised falls back to the defaults rather than failing, as
+// the audit log's paging does
+export const parseCustomerQuery = (params: Record<string, unknown>, { pageSize: defaultPageSize }: { pageSize: number }): CustomerQuery => {
+  const text = (key: string) => (typeof params[key] === 'string' ? params[key] as string : '');
+
+  const filters: CustomerFilters = {};
+  CUSTOMER_FILTER_KEYS.forEach(key => {
+    if (text(key)) {
+      filters[key] = text(key);
+    }
+  });
+
+  const sort = (CUSTOMER_SORT_FIELDS as readonly string[]).includes(text('sort'))
+    ? text('sort') as CustomerSortField
+    : DEFAULT_CUSTOMER_SORT.sort;
+
+  return {
+    ...filters,
+    sort,
+    order: text('order') === 'desc' ? 'desc' : 'asc',
+    page: Math.max(1, parseInt(text('page'), 10) || 1),
+    pageSize: Math.min(MAX_CUSTOMER_PAGE_SIZE, Math.max(1, parseInt(text('pageSize'), 10) || defaultPageSize))
+  };
+};
+
+// A named search, set of filters and sort someone keeps to come back to. Views
+// belong to the user who saved them.
+export type SavedViewQuery = CustomerFilters & CustomerSort;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  query: SavedViewQuery;
+  createdAt: string;
+  updatedAt: string;
+}
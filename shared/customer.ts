@@ -0,0 +1,140 @@
+// Customer and environment types shared by the server and the React app.
+// Both builds compile this file, so it must not import from either side.
+
+// CETEC sends flags as 1/0, '1'/'0' or booleans depending on the column
+export type CetecFlag = boolean | number | string | null;
+
+export const isFlagSet = (value: CetecFlag | undefined): boolean =>
+  value === true || value === 1 || value === '1';
+
+// A customer record as the CETEC customer API returns it
+export interface CetecCustomer {
+  id: number;
+  name: string;
+  domain: string | null;
+  external_key?: string | null;
+  ok_to_bill?: CetecFlag;
+  priority_support?: string | null;
+  resident_hosting?: CetecFlag;
+  test_environment?: string | boolean | null;
+  itar_hosting_bc?: CetecFlag;
+  num_prod_users?: number | null;
+  num_full_users?: number | null;
+  techx_password?: string | null;
+}
+
+// Production and full users together, as the cards and the table show them
+export const getTotalUsers = (customer: Pick<CetecCustomer, 'num_prod_users' | 'num_full_users'>): number =>
+  Math.round(Number(customer.num_prod_users || 0) + Number(customer.num_full_users || 0));
+
+// Where a customer's ERP runs. ITAR customers are often resident as well;
+// ITAR is what decides what support may do with them, so it wins.
+export type HostingType = 'cloud' | 'resident' | 'itar';
+
+export const HOSTING_TYPE_LABELS: Record<HostingType, string> = {
+  cloud: 'Cloud',
+  resident: 'Resident',
+  itar: 'ITAR'
+};
+
+export const getHostingType = (customer: Pick<CetecCustomer, 'resident_hosting' | 'itar_hosting_bc'>): HostingType => {
+  if (isFlagSet(customer.itar_hosting_bc)) {
+    return 'itar';
+  }
+  return isFlagSet(customer.resident_hosting) ? 'resident' : 'cloud';
+};
+
+// What a probe of a devel environment can report
+export type ProbeResult = 'ready' | 'not_ready' | 'unavailable';
+
+// What is known about a customer's devel environment, and why. The states
+// with a checkedAt come from probing the devel login page (or asking the
+// backup provider); the rest follow from the customer record alone, or are
+// waiting for the first probe.
+export type EnvironmentStatus = EnvironmentDetails & (
+  | { state: 'ready'; reason: 'login_page_loaded' | 'reported_by_provider' }
+  | { state: 'not_ready'; reason: 'redirected_to_main_site' | 'server_error' | 'network_error' | 'reported_by_provider' }
+  | { state: 'unavailable'; reason: 'itar_hosting' | 'no_resident_database' }
+  | { state: 'pending_validation'; reason: 'not_checked_yet' }
+  | { state: 'invalid_domain'; reason: 'no_domain' }
+  | { state: 'itar_hosting'; reason: 'itar_hosting' }
+  | { state: 'resident_hosting'; reason: 'resident_database_mapped' }
+);
+
+export interface EnvironmentDetails {
+  // When the probe ran; null when nothing was probed
+  checkedAt: string | null;
+  // The devel URL that was requested, and what it answered
+  probeUrl: string | null;
+  httpStatus: number | null;
+  // Anything else the probe reported, such as a network error message
+  detail: string | null;
+}
+
+export type EnvironmentState = EnvironmentStatus['state'];
+export type EnvironmentReason = EnvironmentStatus['reason'];
+
+// The result of one probe
+export type ProbedStatus = Extract<EnvironmentStatus, { state: ProbeResult }>;
+
+// In the order the Backup filter lists them
+export const ENVIRONMENT_STATES: EnvironmentState[] = [
+  'ready',
+  'not_ready',
+  'pending_validation',
+  'unavailable',
+  'resident_hosting',
+  'itar_hosting',
+  'invalid_domain'
+];
+
+export const ENVIRONMENT_STATE_LABELS: Record<EnvironmentState, string> = {
+  ready: 'Ready',
+  not_ready: 'Not Ready',
+  unavailable: 'Unavailable',
+  pending_validation: 'Pending',
+  invalid_domain: 'Invalid Domain',
+  itar_hosting: 'ITAR Hosting',
+  resident_hosting: 'Resident Hosting'
+};
+
+export const ENVIRONMENT_REASON_LABELS: Record<EnvironmentReason, string> = {
+  login_page_loaded: 'devel login page loaded',
+  reported_by_provider: 'reported by the backup provider',
+  redirected_to_main_site: 'devel redirects to the main site (no database restored)',
+  server_error: 'devel host answered with a server error',
+  network_error: 'devel host could not be reached',
+  itar_hosting: 'ITAR hosting customer',
+  no_resident_database: 'no resident database is configured',
+  not_checked_yet: 'not checked yet',
+  no_domain: 'no domain on the customer record',
+  resident_database_mapped: 'resident database is configured'
+};
+
+export const NO_ENVIRONMENT_DETAILS: EnvironmentDetails = {
+  checkedAt: null,
+  probeUrl: null,
+  httpStatus: null,
+  detail: null
+};
+
+// A customer as /api/cetec/customer sends it to the browser. Production
+// passwords never leave the server; has_production_login stands in for them.
+export interface Customer extends Omit<CetecCustomer, 'techx_password'> {
+  environment: EnvironmentStatus;
+  lastPulled: string | null;
+  nextScheduledPull: string | null;
+  has_production_login: boolean;
+}
+
+// What GET /api/customers/:id sends for the customer page
+export interface CustomerDetail {
+  success: true;
+  customer: Customer;
+  // Every column CETEC returned, less passwords and tokens
+  fields: Record<string, unknown>;
+  // The database a resident customer's domain is mapped to
+  residentDatabase: string | null;
+  // Each change of environment state or reason, newest first
+  environmentHistory: EnvironmentStatus[];
+}
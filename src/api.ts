@@ -0,0 +1,29 @@
+import axios from 'axios';
+
+export const apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
+
+// Fired whenever the server rejects a request because the session is gone, so
+// the auth shell can drop back to the login screen.
+export const UNAUTHORIZED_EVENT = 'backup-tool:unauthorized';
+
+const notifyUnauthorized = () => window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetch(`${apiBaseUrl}${path}`, { credentials: 'include', ...init });
+  if (response.status === 401) {
+    notifyUnauthorized();
+  }
+  return response;
+};
+
+export const apiClient = axios.create({ baseURL: apiBaseUrl, withCredentials: true });
+
+apiClient.interceptors.response.use(
+  response => response,
+  error => {
+    if (error?.response?.status === 401) {
+      notifyUnauthorized();
+    }
+    return Promise.reject(error);
+  }
+);
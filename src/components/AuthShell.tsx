@@ -0,0 +1,30 @@
+import React from 'react';
+import type { ReactNode } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import LoginPage from './LoginPage';
+
+interface AuthShellProps {
+  children: ReactNode;
+}
+
+// Renders the app only for a signed-in user; everyone else gets the login form.
+const AuthShell: React.FC<AuthShellProps> = ({ children }) => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="loading-section">
+        <div className="loading-spinner"></div>
+        <span>Checking session...</span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginPage />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AuthShell;
@@ -0,0 +1,320 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import CustomerCard from './CustomerCard';
+import { AuthContext } from '../contexts/AuthContext';
+import type { AuthUser, Permission, Role } from '../contexts/AuthContext';
+import { NO_ENVIRONMENT_DETAILS } from '../../shared/customer';
+import type { Customer, EnvironmentDetails, EnvironmentReason, EnvironmentState, EnvironmentStatus } from '../../shared/customer';
+
+// An environment status without probe details unless given
+const environment = (state: EnvironmentState, reason: EnvironmentReason, details: Partial<EnvironmentDetails> = {}) =>
+  ({ state, reason, ...NO_ENVIRONMENT_DETAILS, ...details }) as EnvironmentStatus;
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  support: ['pull_backup', 'open_production'],
+  admin: ['pull_backup', 'pull_enterprise_backup', 'open_production', 'override_restrictions', 'view_audit']
+};
+
+type CardProps = React.ComponentProps<typeof CustomerCard>;
+
+const baseCustomer: Customer = {
+  id: 1001,
+  name: 'Acme Manufacturing',
+  domain: 'acme',
+  environment: environment('ready', 'login_page_loaded'),
+  priority_support: 'Standard',
+  test_environment: '0',
+  lastPulled: null,
+  nextScheduledPull: null,
+  has_production_login: true
+};
+
+const renderCard = (item: Partial<Customer>, { role = 'support', ...props }: Partial<CardProps> & { role?: Role } = {}) => {
+  const user: AuthUser = { username: role, name: role, role, permissions: PERMISSIONS[role] };
+  const handlers = {
+    onToggleSelect: vi.fn(),
+    onActionClick: vi.fn(),
+    onCancelPull: vi.fn(),
+    onValidate: vi.fn()
+  };
+
+  const card = (
+    <CustomerCard
+      item={{ ...baseCustomer, ...item }}
+      hiddenDevelButtons={new Set()}
+      selectable
+      selected={false}
+      isValidating={false}
+      {...handlers}
+      {...props}
+    />
+  );
+
+  render(
+    <AuthContext.Provider value={{
+      user,
+      loading: false,
+      login: async () => {},
+      logout: async () => {},
+      can: (permission) => user.permissions.includes(permission)
+    }}>
+      <MemoryRouter>
+        {props.layout === 'row' ? <table><tbody>{card}</tbody></table> : card}
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+
+  return handlers;
+};
+
+const button = (name: string | RegExp) => screen.queryByRole('button', { name }) as HTMLButtonElement | null;
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe('CustomerCard devel button', () => {
+  it('opens devel when the environment is ready', () => {
+    renderCard({ environment: environment('ready', 'login_page_loaded') });
+    expect(button('Devel')).not.toBeNull();
+  });
+
+  it('is hidden when the environment is not ready or unavailable', () => {
+    renderCard({ environment: environment('not_ready', 'redirected_to_main_site') });
+    expect(button('Devel')).toBeNull();
+    cleanup();
+
+    renderCard({ environment: environment('unavailable', 'no_resident_database') });
+    expect(button('Devel')).toBeNull();
+  });
+
+  it.each([
+    [environment('not_ready', 'redirected_to_main_site', { httpStatus: 200, detail: 'Redirected to https://cetecerp.com/' }), 'Not ready (no database)'],
+    [environment('not_ready', 'server_error', { httpStatus: 503, detail: 'Request failed with status code 503' }), 'Not ready (HTTP 503)'],
+    [environment('not_ready', 'network_error', { detail: 'connect ECONNREFUSED' }), 'Not ready (unreachable)'],
+    [environment('not_ready', 'reported_by_provider'), 'Not ready (restoring)']
+  ])('says why a %o environment is not ready', (status, label) => {
+    renderCard({ environment: status });
+    expect(button(label)).not.toBeNull();
+  });
+
+  it('explains a not-ready environment and checks it again when clicked', () => {
+    const { onValidate } = renderCard({
+      environment: environment('not_ready', 'server_error', {
+        checkedAt: '2026-01-05T10:00:00.000Z',
+        probeUrl: 'https://acme.cetecerpdevel.com/auth/login_new',
+        httpStatus: 503,
+        detail: 'Request failed with status code 503'
+      })
+    });
+    const notReady = button('Not ready (HTTP 503)')!;
+    expect(notReady.title).toContain('Not Ready: devel host answered with a server error');
+    expect(notReady.title).toContain('HTTP 503 from https://acme.cetecerpdevel.com/auth/login_new');
+
+    fireEvent.click(notReady);
+    expect(onValidate).toHaveBeenCalledWith(expect.objectContaining({ id: 1001 }));
+  });
+
+  it('shows a not-ready environment being checked again', () => {
+    renderCard({ environment: environment('not_ready', 'network_error') }, { isValidating: true });
+    expect(button('Checking...')!.disabled).toBe(true);
+  });
+
+  it('is hidden while a pull has hidden it', () => {
+    renderCard({ environment: environment('ready', 'login_page_loaded') }, { hiddenDevelButtons: new Set(['1001']) });
+    expect(button('Devel')).toBeNull();
+  });
+
+  it('is hidden for ITAR customers whatever the status', () => {
+    renderCard({ itar_hosting_bc: true, environment: environment('ready', 'login_page_loaded') });
+    expect(button('Devel')).toBeNull();
+  });
+
+  it('is hidden without a domain', () => {
+    renderCard({ domain: 'undefined', environment: environment('ready', 'login_page_loaded') });
+    expect(button('Devel')).toBeNull();
+  });
+
+  it('shows for resident customers with a mapped database', () => {
+    renderCard({ resident_hosting: true, environment: environment('resident_hosting', 'resident_database_mapped') });
+    expect(button('Devel')).not.toBeNull();
+  });
+
+  it('is hidden for resident customers without a database', () => {
+    renderCard({ resident_hosting: true, environment: environment('unavailable', 'no_resident_database') });
+    expect(button('Devel')).toBeNull();
+  });
+
+  it('checks a pending environment when clicked', () => {
+    const { onValidate } = renderCard({ environment: environment('pending_validation', 'not_checked_yet') });
+    fireEvent.click(button('Pending')!);
+    expect(onValidate).toHaveBeenCalledWith(expect.objectContaining({ id: 1001 }));
+  });
+
+  it('is disabled while the check runs', () => {
+    renderCard({ environment: environment('pending_validation', 'not_checked_yet') }, { isValidating: true });
+    expect(button('Pending')!.disabled).toBe(true);
+  });
+});
+
+describe('CustomerCard pull button', () => {
+  it('is not shown to viewers', () => {
+    renderCard({}, { role: 'viewer' });
+    expect(button(/Pull/)).toBeNull();
+    expect(screen.queryByRole('checkbox')).toBeNull();
+  });
+
+  it('pulls a customer that has never been pulled', () => {
+    const { onActionClick } = renderCard({ environment: environment('not_ready', 'redirected_to_main_site') });
+    fireEvent.click(button('Pull Backup')!);
+    expect(onActionClick).toHaveBeenCalledWith(expect.objectContaining({ id: 1001 }));
+    expect(screen.getByText('Never pulled')).toBeTruthy();
+  });
+
+  it('offers a re-pull once a ready customer has been pulled', () => {
+    renderCard({ environment: environment('ready', 'login_page_loaded'), lastPulled: '2026-01-05T10:00:00.000Z' });
+    expect(button('Pull Again')).not.toBeNull();
+  });
+
+  it('is disabled for Enterprise customers unless the user can pull them', () => {
+    renderCard({ priority_support: 'ent' });
+    expect(button('Pull Backup')!.disabled).toBe(true);
+    cleanup();
+
+    renderCard({ priority_support: 'ent' }, { role: 'admin' });
+    expect(button('Pull Backup')!.disabled).toBe(false);
+  });
+
+  it('marks ITAR customers unavailable and offers admins an override', () => {
+    renderCard({ itar_hosting_bc: true });
+    expect(screen.getByText('Backup Unavailable')).toBeTruthy();
+    expect(button(/Pull/)).toBeNull();
+    cleanup();
+
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const { onActionClick } = renderCard({ itar_hosting_bc: true }, { role: 'admin' });
+    fireEvent.click(button('Pull (override)')!);
+    expect(onActionClick).toHaveBeenCalledWith(expect.objectContaining({ id: 1001 }), { override: true });
+  });
+
+  it('marks resident customers without a database unavailable', () => {
+    renderCard({ resident_hosting: true, environment: environment('unavailable', 'no_resident_database') });
+    expect(screen.getByText('Backup Unavailable')).toBeTruthy();
+    expect(button(/Pull/)).toBeNull();
+  });
+
+  it('still pulls resident customers with a mapped database', () => {
+    renderCard({ resident_hosting: true, environment: environment('resident_hosting', 'resident_database_mapped') });
+    expect(button('Pull Backup')).not.toBeNull();
+  });
+
+  it.each([
+    [{ state: 'queued' as const, error: null }, 'Queued...', true],
+    [{ state: 'queued' as const, attempts: 1, maxAttempts: 3, error: 'timeout' }, 'Retrying (2/3)...', true],
+    [{ state: 'requested' as const, error: null }, 'Requesting...', false],
+    [{ state: 'restoring' as const, error: null }, 'Restoring...', true]
+  ])('shows %o as "%s"', (activeJob, label, cancellable) => {
+    renderCard({}, { activeJob });
+    expect(button(label)!.disabled).toBe(true);
+    expect(Boolean(button('Cancel'))).toBe(cancellable);
+  });
+
+  it('asks before cancelling a pull', () => {
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(false);
+    const { onCancelPull } = renderCard({}, { activeJob: { state: 'queued', error: null } });
+    fireEvent.click(button('Cancel')!);
+    expect(confirm).toHaveBeenCalled();
+    expect(onCancelPull).not.toHaveBeenCalled();
+  });
+});
+
+describe('CustomerCard production and test buttons', () => {
+  it('shows production only with a production login and permission', () => {
+    renderCard({ has_production_login: true });
+    expect(button('Production')).not.toBeNull();
+    cleanup();
+
+    renderCard({ has_production_login: false });
+    expect(button('Production')).toBeNull();
+    cleanup();
+
+    renderCard({ has_production_login: true }, { role: 'viewer' });
+    expect(button('Production')).toBeNull();
+  });
+
+  it('labels the test environment by its update cadence', () => {
+    renderCard({ test_environment: 'Update Nightly' });
+    expect(button('Test (nightly)')).not.toBeNull();
+    cleanup();
+
+    renderCard({ test_environment: '0' });
+    expect(button(/Test/)).toBeNull();
+  });
+
+  it('always offers resident customers a test button, disabled for full-host domains', () => {
+    renderCard({ resident_hosting: true, test_environment: '0', environment: environment('resident_hosting', 'resident_database_mapped') });
+    expect(button(/Test/)!.disabled).toBe(false);
+    cleanup();
+
+    renderCard({ resident_hosting: true, domain: 'erp.umbrella.example', environment: environment('resident_hosting', 'resident_database_mapped') });
+    expect(button(/Test/)!.disabled).toBe(true);
+  });
+});
+
+describe('CustomerCard selection', () => {
+  it('toggles selection and is disabled when the customer cannot be pulled in bulk', () => {
+    const { onToggleSelect } = renderCard({});
+    fireEvent.click(screen.getByRole('checkbox'));
+    expect(onToggleSelect).toHaveBeenCalled();
+    cleanup();
+
+    renderCard({}, { selectable: false });
+    expect((screen.getByRole('checkbox') as HTMLInputElement).disabled).toBe(true);
+  });
+});
+
+describe('CustomerCard changes since the last reload', () => {
+  it('marks customers that were added or changed', () => {
+    renderCard({}, { change: { kind: 'added' } });
+    expect(screen.getByText('New')).not.toBeNull();
+    cleanup();
+
+    renderCard({ priority_support: 'Enterprise' }, {
+      change: { kind: 'changed', fields: [{ field: 'priority_support', label: 'Support tier', before: 'Standard', after: 'Enterprise' }] }
+    });
+    expect(screen.getByText('Changed').getAttribute('title')).toBe('Support tier: Standard → Enterprise');
+  });
+});
+
+describe('CustomerCard as a table row', () => {
+  it('shows the columns the table sorts on', () => {
+    renderCard({
+      num_prod_users: 40,
+      num_full_users: 2,
+      resident_hosting: 1,
+      environment: environment('not_ready', 'server_error', { httpStatus: 503 })
+    }, { layout: 'row' });
+
+    const cells = screen.getAllByRole('cell').map(cell => cell.textContent);
+    expect(cells[1]).toContain('Acme Manufacturing');
+    expect(cells.slice(2, 7)).toEqual(['Standard', '42', 'Never pulled', 'Not Ready', 'Resident']);
+  });
+
+  it('keeps the pull and devel buttons, and leaves production and test to the cards', () => {
+    const { onActionClick } = renderCard({ test_environment: 'Update Nightly' }, { layout: 'row' });
+
+    fireEvent.click(button('Pull Backup')!);
+    expect(onActionClick).toHaveBeenCalled();
+    expect(button(/Devel/)).not.toBeNull();
+    expect(button(/Production/)).toBeNull();
+    expect(button(/Test/)).toBeNull();
+  });
+
+  it('counts ITAR customers as ITAR even when they are resident too', () => {
+    renderCard({ itar_hosting_bc: 1, resident_hosting: 1, environment: environment('itar_hosting', 'itar_hosting') }, { layout: 'row' });
+    expect(screen.getByRole('cell', { name: 'ITAR' })).not.toBeNull();
+  });
+});
@@ -1,107 +1,108 @@
-import React, { useState, useEffect, useRef } from 'react';
-
-interface Customer {
-  id: string | number;
-  name: string;
-  domain: string;
-  database_exists: boolean | string | null;
-  itar_hosting_bc?: boolean;
-  resident_hosting?: boolean;
-  priority_support?: string;
-  lastPulled?: string;
-  techx_password?: string;
-  test_environment?: boolean | string;
-  num_prod_users?: number;
-  num_full_users?: number;
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import PullHistoryDrawer from './PullHistoryDrawer';
+import { apiBaseUrl } from '../api';
+import { useAuth } from '../hooks/useAuth';
+import { ENVIRONMENT_REASON_LABELS, ENVIRONMENT_STATE_LABELS, HOSTING_TYPE_LABELS, getHostingType, getTotalUsers, isFlagSet } from '../../shared/customer';
+import type { Customer, EnvironmentStatus } from '../../shared/customer';
+import { isEnterpriseTier, normalizePrioritySupport } from '../../shared/customer-query';
+import type { CustomerChange } from '../customerChanges';
+
+interface PullProgress {
+  state: 'queued' | 'requested' | 'restoring' | 'ready' | 'failed' | 'timed_out' | 'cancelled';
+  attempts?: number;
+  maxAttempts?: number;
+  error: string | null;
 }
 
+// Full account of an environment status, for tooltips: what it is, why, and
+// what the probe saw
+const describeEnvironment = (environment: EnvironmentStatus): string => {
+  const parts = [`${ENVIRONMENT_STATE_LABELS[environment.state]}: ${ENVIRONMENT_REASON_LABELS[environment.reason]}`];
+  if (environment.detail) {
+    parts.push(environment.detail);
+  }
+  if (environment.probeUrl) {
+    parts.push(`${environment.httpStatus ? `HTTP ${environment.httpStatus}` : 'No answer'} from ${environment.probeUrl}`);
+  }
+  if (environment.checkedAt) {
+    parts.push(`Checked ${new Date(environment.checkedAt).toLocaleString()}`);
+  }
+  return parts.join('\n');
+};
+
+// Short reason shown on the card when a devel environment is not ready
+const getNotReadyLabel = (environment: EnvironmentStatus): string => {
+  switch (environment.reason) {
+    case 'redirected_to_main_site':
+      return 'no database';
+    case 'server_error':
+      return `HTTP ${environment.httpStatus}`;
+    case 'network_error':
+      return 'unreachable';
+    default:
+      return 'restoring';
+  }
+};
+
 interface CustomerCardProps {
   item: Customer;
   hiddenDevelButtons: Set<string>;
-  isPolling: boolean;
-  onActionClick: (item: Customer) => void;
-  addToValidationQueue: (customerId: string) => void;
-  isValidationActive: boolean;
-  activeValidations?: Set<string>;
+  activeJob?: PullProgress;
+  selectable: boolean;
+  selected: boolean;
+  onToggleSelect: (item: Customer) => void;
+  onActionClick: (item: Customer, options?: { override?: boolean }) => void;
+  onCancelPull: (item: Customer) => void;
+  onValidate: (item: Customer) => void;
+  isValidating: boolean;
+  change?: CustomerChange;
+  // A card for the grid, or a row for the table view
+  layout?: 'card' | 'row';
 }
 
 const CustomerCard: React.FC<CustomerCardProps> = ({ 
   item, 
   hiddenDevelButtons, 
-  isPolling, 
+  activeJob, 
+  selectable,
+  selected,
+  onToggleSelect,
   onActionClick,
-  addToValidationQueue,
-  isValidationActive,
-  activeValidations
+  onCancelPull,
+  onValidate,
+  isValidating,
+  change,
+  layout = 'card'
 }) => {
-  const techxPassword = import.meta.env.VITE_TECHX_PASSWORD;
-
-  // Track if this customer has already been queued for validation
-  const [hasQueuedValidation, setHasQueuedValidation] = useState(false);
-  
-  // Track the last time this customer was validated to prevent rapid re-validations
-  const lastValidationTime = useRef<number>(0);
-
-  // Trigger automatic validation when component mounts if needed
-  useEffect(() => {
-    // Only validate if:
-    // 1. Customer needs validation (pending_validation status)
-    // 2. Not already being validated
-    // 3. Has a valid domain
-    // 4. Haven't already queued this validation
-    // 5. Status is still pending (not already validated)
-    // 6. Not ITAR hosting (which doesn't need validation)
-    // 7. Haven't validated this customer recently (within last 5 seconds)
-    const now = Date.now();
-    if (!hasQueuedValidation && 
-        item.database_exists === 'pending_validation' && 
-        item.domain && 
-        item.domain.trim() !== '' && 
-        item.domain !== 'undefined' &&
-        !item.itar_hosting_bc &&
-        !activeValidations?.has(String(item.id)) &&
-        (now - lastValidationTime.current) > 5000) { // 5 second cooldown
-      
-      // Add a small delay to prevent too many rapid validations
-      const timeoutId = setTimeout(() => {
-        // Add to validation queue and mark as queued
-        addToValidationQueue(String(item.id));
-        setHasQueuedValidation(true);
-        lastValidationTime.current = now;
-      }, 100); // 100ms delay
-      
-      return () => clearTimeout(timeoutId);
-    }
-    
-    // Reset the flag if the status changes from pending to something else
-    if (hasQueuedValidation && item.database_exists !== 'pending_validation') {
-      setHasQueuedValidation(false);
-    }
-  }, [item.id, item.domain, item.database_exists, item.itar_hosting_bc, item.resident_hosting, addToValidationQueue, hasQueuedValidation, activeValidations]);
-
-  // Handle cases where a customer's status changes and they might need re-validation
-  useEffect(() => {
-    // If a customer's status changes back to pending_validation and we haven't queued them yet
-    const now = Date.now();
-    if (item.database_exists === 'pending_validation' && 
-        !hasQueuedValidation && 
-        !activeValidations?.has(String(item.id)) &&
-        item.domain && 
-        item.domain.trim() !== '' && 
-        item.domain !== 'undefined' &&
-        !item.itar_hosting_bc &&
-        (now - lastValidationTime.current) > 5000) { // 5 second cooldown
-      
-      // Add a small delay to prevent too many rapid validations
-      const timeoutId = setTimeout(() => {
-        addToValidationQueue(String(item.id));
-        setHasQueuedValidation(true);
-        lastValidationTime.current = now;
-      }, 200); // 200ms delay for status changes
-      
-      return () => clearTimeout(timeoutId);
+  const { can } = useAuth();
+
+  const [showHistory, setShowHistory] = useState(false);
+
+  const isPolling = Boolean(activeJob);
+
+  // Where the pull is in the server's queue, for the disabled pull button
+  const getPullProgressLabel = (): string => {
+    switch (activeJob?.state) {
+      case 'queued':
+        return activeJob.attempts
+          ? `Retrying (${activeJob.attempts + 1}/${activeJob.maxAttempts || activeJob.attempts + 1})...`
+          : 'Queued...';
+      case 'requested':
+        return 'Requesting...';
+      case 'restoring':
+        return 'Restoring...';
+      default:
+        return 'Pulling...';
     }
-  }, [item.database_exists, hasQueuedValidation, activeValidations, item.id, item.domain, item.itar_hosting_bc, addToValidationQueue]);
+  };
+
+  // The server builds the techx login URL, records who opened it and
+  // redirects, so no environment password ever reaches the browser.
+  const openEnvironment = (environment: 'devel' | 'test' | 'production') => {
+    const openUrl = `${apiBaseUrl}/customers/${encodeURIComponent(String(item.id))}/open/${environment}`;
+    window.open(openUrl, '_blank', 'noopener,noreferrer');
+  };
 
   const renderDevelButton = () => {
     const domain = item.domain;
@@ -110,59 +111,31 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
       return null;
     }
 
-    const isItarHosting = Boolean(item.itar_hosting_bc);
-    const isResidentHosting = Boolean(item.resident_hosting);
+    const environment = item.environment;
     const isDevelButtonHidden = hiddenDevelButtons.has(String(item.id));
     
-    // Handle different database status values
-    if (isItarHosting) {
+    // ITAR customers never get a devel button, whatever the status says
+    if (isFlagSet(item.itar_hosting_bc)) {
       return null;
     }
-    
-    // Resident hosting customers can have devel buttons if they have an entry in resident-dbs.json
-    // Only block them if they don't have a database or if they're marked as unavailable
-    if (isResidentHosting) {
-      if (item.database_exists === 'unavailable') {
-        return null; // Resident hosting with unavailable database
-      }
-      // If they have any other database status, they can potentially get a devel button
-      // (pending_validation, false, error, validation_error, or true)
-    }
 
-    // Handle confirmed environment readiness (database_exists === true)
-    if (item.database_exists === true && !isDevelButtonHidden) {
-      const customerUrl = `http://${domain}.cetecerpdevel.com/auth/login?username=techx&password=${encodeURIComponent(techxPassword)}`;
+    // Confirmed ready, or a resident customer with a mapped database
+    if ((environment.state === 'ready' || environment.state === 'resident_hosting') && !isDevelButtonHidden) {
       return (
         <button
           className="devel-button valid"
-          onClick={() => window.open(customerUrl, '_blank')}
-          title="Open devel environment"
+          onClick={() => openEnvironment('devel')}
+          title={`Open devel environment\n${describeEnvironment(environment)}`}
         >
           Devel {renderExternalLinkIcon()}
         </button>
       );
     }
 
-    // Handle resident hosting customers with confirmed database
-    if (item.database_exists === 'resident_hosting' && !isDevelButtonHidden) {
-      const customerUrl = `http://${domain}.cetecerpdevel.com/auth/login?username=techx&password=${encodeURIComponent(techxPassword)}`;
-      return (
-        <button
-          className="devel-button valid"
-          onClick={() => window.open(customerUrl, '_blank')}
-          title="Open devel environment"
-        >
-          Devel {renderExternalLinkIcon()}
-        </button>
-        );
-    }
-
-    // Handle pending validation cases - show pending button with spinner
-    if (item.database_exists === 'pending_validation') {
-      // Check if this customer is currently being validated
-      const isCurrentlyValidating = isValidationActive && activeValidations?.has(String(item.id));
-      
-      if (isCurrentlyValidating) {
+    // Not checked by the server yet - show pending button with spinner. The
+    // background sweep will update it, or a click checks it right away.
+    if (environment.state === 'pending_validation') {
+      if (isValidating) {
         return (
           <button className="devel-button pending" disabled title="Validating devel environment...">
             <span className="spinner"></span>
@@ -174,17 +147,7 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
       return (
         <button 
           className="devel-button pending" 
-          onClick={() => {
-            // Manually trigger validation when user clicks
-            if (addToValidationQueue) {
-              const now = Date.now();
-              if ((now - lastValidationTime.current) > 5000) { // 5 second cooldown
-                addToValidationQueue(String(item.id));
-                setHasQueuedValidation(true);
-                lastValidationTime.current = now;
-              }
-            }
-          }}
+          onClick={() => onValidate(item)}
           title="Click to validate devel environment"
         >
           <span className="spinner"></span>
@@ -193,54 +156,41 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
       );
     }
 
-    // For all other cases (false, unavailable, error, etc.), don't show any button
-    // This includes environments that are not ready, unavailable, or had validation errors
-    return null;
-  };
-
-  const normalizePrioritySupport = (value: string): string => {
-    if (!value || value === 'undefined' || value === 'null' || value === '0' || value === 'false') {
-      return 'false';
-    }
-    
-    const prioritySupport = String(value).toLowerCase().trim();
-    
-    if (prioritySupport === 'lite' || prioritySupport === 'l') {
-      return 'lite';
-    }
-    
-    if (prioritySupport === 'standard' || prioritySupport === 'std' || prioritySupport === 's') {
-      return 'standard';
-    }
-    
-    if (prioritySupport === 'enterprise' || prioritySupport === 'ent' || prioritySupport === 'e') {
-      return 'enterprise';
+    // Probed and not ready: say why, and let a click check again
+    if (environment.state === 'not_ready' && !isDevelButtonHidden) {
+      return (
+        <button
+          className="devel-button not-ready"
+          onClick={() => onValidate(item)}
+          disabled={isValidating}
+          title={`${describeEnvironment(environment)}\nClick to check again`}
+        >
+          {isValidating ? 'Checking...' : `Not ready (${getNotReadyLabel(environment)})`}
+        </button>
+      );
     }
-    
-    return 'false';
+
+    // Unavailable, invalid domain, or hidden while a pull runs
+    return null;
   };
 
   const renderPrioritySupport = () => {
-    const normalizedValue = normalizePrioritySupport(String(item.priority_support || ''));
-    if (normalizedValue === 'false') {
+    const tier = normalizePrioritySupport(item.priority_support);
+    if (!tier) {
       return <span className="no-priority">No support tier</span>;
     }
-    
-    return (
-      <span className={`priority-chip ${normalizedValue}`}>
-        {normalizedValue.charAt(0).toUpperCase() + normalizedValue.slice(1)}
-      </span>
-    );
+
+    return <span className={`priority-chip ${tier.toLowerCase()}`}>{tier}</span>;
   };
 
   const isUnavailableForBackups = (): boolean => {
     // ITAR hosting customers cannot pull backups
-    if (item.itar_hosting_bc) {
+    if (isFlagSet(item.itar_hosting_bc)) {
       return true;
     }
     
     // Resident hosting customers with unavailable database cannot pull backups
-    if (item.resident_hosting && item.database_exists === 'unavailable') {
+    if (isFlagSet(item.resident_hosting) && item.environment.state === 'unavailable') {
       return true;
     }
     
@@ -248,39 +198,79 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
   };
 
   const renderActions = () => {
-    if (isUnavailableForBackups()) {
+    if (!can('pull_backup')) {
       return null;
     }
+
+    if (isUnavailableForBackups()) {
+      if (!can('override_restrictions') || isPolling) {
+        return null;
+      }
+
+      return (
+        <button
+          className="action-button override"
+          onClick={() => {
+            const reason = isFlagSet(item.itar_hosting_bc) ? 'an ITAR hosting customer' : 'a resident customer without a database mapping';
+            if (window.confirm(`${item.name} is ${reason}. Pull a backup anyway?`)) {
+              onActionClick(item, { override: true });
+            }
+          }}
+          title="Override ITAR/resident restriction and pull a backup"
+        >
+          Pull (override)
+        </button>
+      );
+    }
+
+    if (isEnterpriseTier(item.priority_support) && !can('pull_enterprise_backup')) {
+      return (
+        <button
+          className="action-button primary"
+          disabled
+          title="Pulling Enterprise customer backups requires an admin"
+        >
+          Pull Backup
+        </button>
+      );
+    }
     
     // If polling is active, show disabled "Pulling..." button with spinner
     if (isPolling) {
-      if (item.database_exists === true && item.lastPulled) {
-        return (
+      const progressClass = item.environment.state === 'ready' && item.lastPulled ? 'refresh' : 'primary';
+      // A requested job hasn't been acknowledged by the backup service yet,
+      // so there is nothing to cancel until it answers.
+      const canCancel = activeJob?.state === 'queued' || activeJob?.state === 'restoring';
+      
+      return (
+        <>
           <button 
-            className="action-button refresh"
+            className={`action-button ${progressClass}`}
             disabled
-            title="Backup in progress..."
+            title={activeJob?.error ? `Last attempt failed: ${activeJob.error}` : 'Backup in progress...'}
           >
             <div className="polling-spinner"></div>
-            Pulling...
+            {getPullProgressLabel()}
           </button>
-        );
-      }
-      
-      return (
-        <button 
-          className="action-button primary"
-          disabled
-          title="Backup in progress..."
-        >
-          <div className="polling-spinner"></div>
-          Pulling...
-        </button>
+          {canCancel && (
+            <button
+              className="cancel-pull-button"
+              onClick={() => {
+                if (window.confirm(`Cancel the backup pull for ${item.name}?`)) {
+                  onCancelPull(item);
+                }
+              }}
+              title="Cancel this pull"
+            >
+              Cancel
+            </button>
+          )}
+        </>
       );
     }
     
     // Normal state - show enabled buttons
-    if (item.database_exists === true && item.lastPulled) {
+    if (item.environment.state === 'ready' && item.lastPulled) {
       return (
         <button 
           className="action-button refresh"
@@ -313,33 +303,23 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
   };
 
   const renderProductionButton = () => {
+    if (!can('open_production')) {
+      return null;
+    }
+
     const domain = item.domain;
     if (!domain || domain === 'undefined' || domain.trim() === '') {
       return null;
     }
 
-    const techxProdPassword = item.techx_password;
-    if (!techxProdPassword) {
+    if (!item.has_production_login) {
       return null;
     }
 
-    let productionUrl;
-    const isResidentHosting = Boolean(item.resident_hosting);
-    
-    if (isResidentHosting) {
-        if (domain.includes('.')) {
-            productionUrl = `https://${domain}/auth/login?username=techx&password=${encodeURIComponent(techxProdPassword)}`;
-        } else {
-            productionUrl = `https://cetecerp.${domain}.com/auth/login?username=techx&password=${encodeURIComponent(techxProdPassword)}`;
-        }
-    } else {
-        productionUrl = `https://${domain}.cetecerp.com/auth/login?username=techx&password=${encodeURIComponent(techxProdPassword)}`;
-    }
-    
     return (
       <button
         className="production-button"
-        onClick={() => window.open(productionUrl, '_blank', 'noopener,noreferrer')}
+        onClick={() => openEnvironment('production')}
         title="Open Production Environment"
       >
         Production {renderExternalLinkIcon()}
@@ -368,7 +348,7 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
     }
     
     const testEnvironment = item.test_environment;
-    const isResidentHosting = Boolean(item.resident_hosting);
+    const isResidentHosting = isFlagSet(item.resident_hosting);
     
     if (!isResidentHosting) {
       if (!testEnvironment || testEnvironment === '0') {
@@ -401,17 +381,10 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
       );
     }
 
-    let testUrl;
-    if (isResidentHosting) {
-      testUrl = `https://cetecerp-beta.${domain}.com/auth/login?username=techx&password=${encodeURIComponent(techxPassword)}`;
-    } else {
-      testUrl = `https://${domain}_test.cetecerp.com/auth/login?username=techx&password=${encodeURIComponent(techxPassword)}`;
-    }
-    
     return (
       <button
         className="test-button"
-        onClick={() => window.open(testUrl, '_blank', 'noopener,noreferrer')}
+        onClick={() => openEnvironment('test')}
         title="Open Test Environment"
       >
         {buttonText} {renderExternalLinkIcon()}
@@ -419,26 +392,124 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
     );
   };
 
-  const totalUsers = Math.round(Number(item.num_prod_users || 0) + Number(item.num_full_users || 0));
+  const totalUsers = getTotalUsers(item);
+
+  const renderSelect = () => (
+    <input
+      type="checkbox"
+      className="card-select"
+      checked={selected}
+      disabled={!selectable}
+      onChange={() => onToggleSelect(item)}
+      aria-label={`Select ${item.name} for a bulk pull`}
+      title={selectable ? 'Select for a bulk pull' : 'This customer cannot be pulled in bulk right now'}
+    />
+  );
+
+  const renderChangeChip = () => (
+    <>
+      {change?.kind === 'added' && <span className="change-chip added">New</span>}
+      {change?.kind === 'changed' && (
+        <span
+          className="change-chip changed"
+          title={change.fields.map(field => `${field.label}: ${field.before} → ${field.after}`).join('\n')}
+        >
+          Changed
+        </span>
+      )}
+    </>
+  );
+
+  const renderCustomerLink = () => (
+    <a 
+      href={`https://internal.cetecerpbeta.com/react/customer/${item.id}/view?newversion=1`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="customer-link"
+    >
+      #{item.id} {renderExternalLinkIcon()}
+    </a>
+  );
+
+  const renderLastPulled = () => (
+    isUnavailableForBackups() ? (
+      <span className="unavailable-text">Backup Unavailable</span>
+    ) : item.lastPulled ? (
+      <span className="timestamp-text">
+        {new Date(item.lastPulled).toLocaleDateString()} {new Date(item.lastPulled).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </span>
+    ) : (
+      <span className="no-timestamp">Never pulled</span>
+    )
+  );
+
+  const renderHistoryButton = () => (
+    !isUnavailableForBackups() && (
+      <button
+        className="history-button"
+        onClick={() => setShowHistory(true)}
+        title="View pull history"
+      >
+        History
+      </button>
+    )
+  );
+
+  const historyDrawer = showHistory && (
+    <PullHistoryDrawer
+      customerId={item.id}
+      customerName={item.name}
+      onClose={() => setShowHistory(false)}
+    />
+  );
+
+  const rowClass = `${selected ? ' selected' : ''}${change ? ` change-${change.kind}` : ''}`;
+
+  // One line per customer with the columns the table sorts on; opening
+  // production and test stays on the cards
+  if (layout === 'row') {
+    return (
+      <tr className={`customer-row${rowClass}`}>
+        {can('pull_backup') && <td>{renderSelect()}</td>}
+        <td>
+          <Link to={`/customers/${item.id}`} className="customer-row-name">{item.name}</Link>
+          {renderChangeChip()}
+          <div className="customer-details">{renderCustomerLink()}</div>
+        </td>
+        <td>{renderPrioritySupport()}</td>
+        <td className="numeric">{totalUsers}</td>
+        <td className="timestamp-display">{renderLastPulled()}</td>
+        <td>
+          <span className={`environment-state ${item.environment.state}`} title={describeEnvironment(item.environment)}>
+            {ENVIRONMENT_STATE_LABELS[item.environment.state]}
+          </span>
+        </td>
+        <td>{HOSTING_TYPE_LABELS[getHostingType(item)]}</td>
+        <td>
+          <div className="action-buttons">
+            {renderActions()}
+            {renderDevelButton()}
+            {renderHistoryButton()}
+          </div>
+          {historyDrawer}
+        </td>
+      </tr>
+    );
+  }
 
   return (
-    <div className="customer-card">
+    <div className={`customer-card${rowClass}`}>
       <div className="card-header">
+        {can('pull_backup') && renderSelect()}
         <div className="customer-info">
           <h3 className="customer-name">
-            {item.name}
+            <Link to={`/customers/${item.id}`}>{item.name}</Link>
+            {renderChangeChip()}
           </h3>
           <div className="customer-details">
-            <a 
-              href={`https://internal.cetecerpbeta.com/react/customer/${item.id}/view?newversion=1`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="customer-link"
-            >
-              #{item.id} {renderExternalLinkIcon()}
-            </a>
+            {renderCustomerLink()}
             <span className="total-users">{totalUsers} users</span>
-            {item.itar_hosting_bc && (
+            {isFlagSet(item.itar_hosting_bc) && (
               <span className="itar-chip">
                 {String(item.itar_hosting_bc)}
               </span>
@@ -452,15 +523,13 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
         
         <div className="card-actions">
           <div className="timestamp-display">
-            {isUnavailableForBackups() ? (
-              <span className="unavailable-text">Backup Unavailable</span>
-            ) : item.lastPulled ? (
-              <span className="timestamp-text">
-                {new Date(item.lastPulled).toLocaleDateString()} {new Date(item.lastPulled).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {renderLastPulled()}
+            {item.nextScheduledPull && !isUnavailableForBackups() && (
+              <span className="next-scheduled-pull" title="Next scheduled pull">
+                Next: {new Date(item.nextScheduledPull).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} {new Date(item.nextScheduledPull).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
               </span>
-            ) : (
-              <span className="no-timestamp">Never pulled</span>
             )}
+            {renderHistoryButton()}
           </div>
           
           <div className="action-buttons">
@@ -472,6 +541,8 @@ const CustomerCard: React.FC<CustomerCardProps> = ({
           </div>
         </div>
       </div>
+
+      {historyDrawer}
     </div>
   );
 };
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import type { CustomerListDiff } from '../../shared/customer-changes';
+
+interface CustomerChangesBannerProps {
+  changes: CustomerListDiff;
+  detectedAt: Date;
+  onDismiss: () => void;
+}
+
+const CustomerChangesBanner: React.FC<CustomerChangesBannerProps> = ({ changes, detectedAt, onDismiss }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const summary = [
+    changes.added.length > 0 && `${changes.added.length} added`,
+    changes.removed.length > 0 && `${changes.removed.length} removed`,
+    changes.changed.length > 0 && `${changes.changed.length} changed`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="customer-changes" role="status">
+      <div className="customer-changes-summary">
+        <span>
+          Customer list updated at {detectedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: {summary}
+        </span>
+        <button className="secondary-button" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Hide details' : 'Show details'}
+        </button>
+        <button className="secondary-button" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="customer-changes-list">
+          {changes.added.map(customer => (
+            <li key={`added-${customer.id}`}>
+              <span className="change-chip added">Added</span> {customer.name} (#{customer.id})
+            </li>
+          ))}
+          {changes.removed.map(customer => (
+            <li key={`removed-${customer.id}`}>
+              <span className="change-chip removed">Removed</span> {customer.name} (#{customer.id})
+            </li>
+          ))}
+          {changes.changed.map(({ customer, fields }) => (
+            <li key={`changed-${customer.id}`}>
+              <span className="change-chip changed">Changed</span> {customer.name} (#{customer.id}):{' '}
+              {fields.map(field => `${field.label} ${field.before} → ${field.after}`).join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CustomerChangesBanner;
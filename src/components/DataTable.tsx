@@ -1,232 +1,407 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import CustomerCard from './CustomerCard';
+import { apiFetch } from '../api';
+import { useServerEvent } from '../hooks/useServerEvent';
+import { useAuth } from '../hooks/useAuth';
+import { isFlagSet } from '../../shared/customer';
+import type { Customer, ProbeResult } from '../../shared/customer';
+import { isEnterpriseTier } from '../../shared/customer-query';
+import type { CustomerSort, CustomerSortField, SortOrder } from '../../shared/customer-query';
+import type { CustomerChange } from '../customerChanges';
 
-interface Customer {
-  id: string | number;
-  name: string;
-  domain: string;
-  database_exists: boolean | string | null;
-  itar_hosting_bc?: boolean;
-  resident_hosting?: boolean;
-  priority_support?: string;
-  lastPulled?: string;
-}
+export type CustomerView = 'cards' | 'table';
 
 interface DataTableProps {
   data: Customer[];
-  onTimestampUpdate: (customerId: string, timestamp: string, databaseExists?: boolean | string) => void;
-  onDatabaseStatusUpdate: (customerId: string, databaseExists: boolean | string) => void;
-  addToValidationQueue: (customerId: string) => void;
-  isValidationActive: boolean;
-  activeValidations?: Set<string>;
+  onTimestampUpdate: (customerId: string, timestamp: string) => void;
+  onValidate: (item: Customer) => void;
+  activeValidations: Set<string>;
+  // What the last reload changed, keyed by customer id
+  changes?: Map<string, CustomerChange>;
+  view?: CustomerView;
+  // The table's column headers sort the list
+  sort?: CustomerSort;
+  onSortChange?: (sort: CustomerSort) => void;
+}
+
+// The order a column sorts in on its first click: the most urgent or the
+// biggest first, which for the last pull means the oldest
+const TABLE_COLUMNS: { field: CustomerSortField; label: string; firstOrder: SortOrder }[] = [
+  { field: 'name', label: 'Name', firstOrder: 'asc' },
+  { field: 'priority_support', label: 'Tier', firstOrder: 'desc' },
+  { field: 'totalUsers', label: 'Users', firstOrder: 'desc' },
+  { field: 'lastPulled', label: 'Last pulled', firstOrder: 'asc' },
+  { field: 'environment', label: 'Environment', firstOrder: 'asc' },
+  { field: 'hosting', label: 'Hosting', firstOrder: 'asc' }
+];
+
+type BackupJobState = 'queued' | 'requested' | 'restoring' | 'ready' | 'failed' | 'timed_out' | 'cancelled';
+
+interface BackupJob {
+  id: string;
+  createdAt: string;
+  customerId: string | number;
+  state: BackupJobState;
+  attempts?: number;
+  maxAttempts?: number;
+  environmentStatus: ProbeResult | null;
+  error: string | null;
+}
+
+interface BulkPullResult {
+  customerId: string;
+  status: number;
+  job: BackupJob | null;
+  error: string | null;
 }
 
+interface PullOptions {
+  override?: boolean;
+}
+
+const ACTIVE_JOB_STATES: BackupJobState[] = ['queued', 'requested', 'restoring'];
+
 const DataTable: React.FC<DataTableProps> = ({ 
   data, 
   onTimestampUpdate, 
-  onDatabaseStatusUpdate, 
-  addToValidationQueue,
-  isValidationActive,
-  activeValidations
+  onValidate,
+  activeValidations,
+  changes,
+  view = 'cards',
+  sort,
+  onSortChange
 }) => {
   const [hiddenDevelButtons, setHiddenDevelButtons] = useState<Set<string>>(new Set());
-  const [pollingEnvironments, setPollingEnvironments] = useState<Set<string>>(new Set());
+  // Active pull jobs keyed by customer id. The server owns the job, so this is
+  // only a view of it that can be rebuilt after a reload.
+  const [activeJobs, setActiveJobs] = useState<Record<string, BackupJob>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkSubmitting, setBulkSubmitting] = useState(false);
+  const { can } = useAuth();
 
-  const startEnvironmentPolling = useCallback(async (item: Customer, dbName: string) => {
-    const maxPollingTime = 30 * 60 * 1000; // 30 minutes maximum
-    const pollInterval = 60 * 1000; // 1 minute
-    const startTime = Date.now();
-    
-    const pollEnvironment = async () => {
-      try {
-        // Check if we've exceeded maximum polling time
-        if (Date.now() - startTime > maxPollingTime) {
-          setPollingEnvironments(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(String(item.id));
-            return newSet;
-          });
+  const applyJobUpdate = useCallback((job: BackupJob) => {
+    const customerKey = String(job.customerId);
+
+    if (ACTIVE_JOB_STATES.includes(job.state)) {
+      setActiveJobs(prev => ({ ...prev, [customerKey]: job }));
+      setHiddenDevelButtons(prev => new Set(prev).add(customerKey));
+      return;
+    }
+
+    if (job.state !== 'ready' && job.state !== 'cancelled') {
+      console.error(`Backup pull ${job.state} for customer ${customerKey}:`, job.error);
+    }
+
+    setActiveJobs(prev => {
+      const next = { ...prev };
+      delete next[customerKey];
+      return next;
+    });
+    setHiddenDevelButtons(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(customerKey);
+      return newSet;
+    });
+  }, []);
+
+  const activeJobsRef = useRef(activeJobs);
+  activeJobsRef.current = activeJobs;
+
+  // Reattach to pulls that are still running on the server, e.g. after a
+  // reload. Runs again whenever the event stream reconnects, so any job that
+  // finished while we were disconnected is picked up as well.
+  const syncActiveJobs = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/backup/jobs?active=true`);
+      if (!response.ok) {
+        return;
+      }
+      const result = await response.json();
+      if (!result.success || !Array.isArray(result.jobs)) {
+        return;
+      }
+
+      const stillActive = new Set(result.jobs.map((job: BackupJob) => job.id));
+      result.jobs.forEach((job: BackupJob) => applyJobUpdate(job));
+
+      const missedJobs = Object.values(activeJobsRef.current).filter(job => !stillActive.has(job.id));
+      await Promise.all(missedJobs.map(async (job) => {
+        const jobResponse = await apiFetch(`/backup/jobs/${job.id}`);
+        if (!jobResponse.ok) {
           return;
         }
-        
-        // Check environment status using URL validation instead of MySQL
-        const apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
-        const environmentResponse = await fetch(`${apiBaseUrl}/validate-environment`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ 
-            customerId: item.id,
-            domain: item.domain,
-            residentHosting: item.resident_hosting,
-            itarHosting: item.itar_hosting_bc
-          }),
-        });
-
-        if (environmentResponse.ok) {
-          const environmentResult = await environmentResponse.json();
-
-          if (environmentResult.success) {
-            const environmentStatus = environmentResult.environmentStatus;
-            const timeSinceStart = Date.now() - startTime;
-
-            if (onDatabaseStatusUpdate) {
-              // Map environment status to database status for compatibility
-              let databaseStatus;
-              switch (environmentStatus) {
-                case 'ready':
-                  databaseStatus = true;
-                  break;
-                case 'not_ready':
-                  databaseStatus = false;
-                  break;
-                case 'unavailable':
-                  databaseStatus = 'unavailable';
-                  break;
-                default:
-                  databaseStatus = false;
-              }
-              onDatabaseStatusUpdate(item.id as string, databaseStatus);
-            }
-
-            if (environmentStatus === 'ready') {
-              // Environment is ready, but let's continue polling for a bit to ensure it's stable
-              // This handles cases where the external backup service might drop/recreate the environment
-              const stableTime = 2 * 60 * 1000; // 2 minutes of stability
-              
-              if (timeSinceStart > stableTime) {
-                // Environment has been stable for 2 minutes, stop polling
-                setHiddenDevelButtons(prev => {
-                  const newSet = new Set(prev);
-                  newSet.delete(String(item.id));
-                  return newSet;
-                });
-                setPollingEnvironments(prev => {
-                  const newSet = new Set(prev);
-                  newSet.delete(String(item.id));
-                  return newSet;
-                });
-                return;
-              }
-            }
-          }
+        const jobResult = await jobResponse.json();
+        if (jobResult.success && jobResult.job) {
+          applyJobUpdate(jobResult.job);
         }
-        
-        // Continue polling
-        setTimeout(pollEnvironment, pollInterval);
-        
-      } catch (error) {
-        console.error(`Environment polling error for ${item.name} (${dbName}):`, error);
-        setTimeout(pollEnvironment, pollInterval);
-      }
-    };
-    
-    setTimeout(pollEnvironment, pollInterval);
-  }, [onDatabaseStatusUpdate]);
+      }));
+    } catch (error) {
+      console.error('Failed to load active backup jobs:', error);
+    }
+  }, [applyJobUpdate]);
+
+  useEffect(() => {
+    syncActiveJobs();
+  }, [syncActiveJobs]);
 
-  const handleActionClick = useCallback(async (item: Customer) => {
-    // Check if already polling to prevent duplicate calls
-    if (pollingEnvironments.has(String(item.id))) {
+  useServerEvent<BackupJob>('job', applyJobUpdate);
+  useServerEvent('connected', syncActiveJobs);
+
+  const handleActionClick = useCallback(async (item: Customer, options: PullOptions = {}) => {
+    // Check if already pulling to prevent duplicate jobs
+    if (activeJobs[String(item.id)]) {
       return;
     }
     
-    // ITAR hosting customers cannot pull backups
-    if (item.itar_hosting_bc) {
+    // ITAR hosting customers cannot pull backups unless an admin overrides it
+    if (isFlagSet(item.itar_hosting_bc) && !options.override) {
+      return;
+    }
+
+    const domain = item.domain;
+    if (!domain) {
+      return;
+    }
+
+    if (isFlagSet(item.resident_hosting) && item.environment.state === 'unavailable' && !options.override) {
       return;
     }
     
     try {
-      setPollingEnvironments(prev => new Set(prev).add(String(item.id)));
-      
-      const apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
-      const timestampResponse = await fetch(`${apiBaseUrl}/pull/record`, {
+      const backupResponse = await apiFetch('/backup/request', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ customerId: item.id }),
+        body: JSON.stringify({
+          customerId: item.id,
+          override: Boolean(options.override)
+        })
       });
-      
-      if (!timestampResponse.ok) {
-        console.warn('Failed to record pull timestamp:', timestampResponse.status);
-      } else {
-        const timestampData = await timestampResponse.json();
-        if (timestampData.success && onTimestampUpdate) {
-          onTimestampUpdate(item.id as string, timestampData.timestamp, item.database_exists || undefined);
-        }
+
+      const backupResult = await backupResponse.json().catch(() => ({}));
+
+      if (!backupResponse.ok) {
+        console.error(`Backup request failed for ${item.name}: ${backupResponse.status}`, backupResult.error);
+        window.alert(backupResult.error || `Backup request failed for ${item.name}`);
+        return;
       }
-      
-      setHiddenDevelButtons(prev => new Set(prev).add(String(item.id)));
-      
-      const handleBackupRequest = async () => {
-        const domain = item.domain;
-        if (!domain) {
-          return;
-        }
-        
-        // ITAR hosting customers cannot pull backups
-        if (item.itar_hosting_bc) {
-          return;
-        }
-        
-        const dbName = domain;
-        if (item.resident_hosting && item.database_exists === 'unavailable') {
-          return;
+
+      if (backupResult.success && backupResult.job) {
+        if (onTimestampUpdate) {
+          onTimestampUpdate(String(item.id), backupResult.job.createdAt);
         }
-        
-        const backupApiUrl = `${apiBaseUrl}/backup/request`;
-        
-        fetch(backupApiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ dbname: dbName })
-        }).then(response => {
-          if (!response.ok) {
-            console.error(`Backup request failed for ${item.name}: ${response.status}`);
-          }
-        }).catch(error => {
-          console.error(`Backup request error for ${item.name}:`, error);
-        });
-        
-        startEnvironmentPolling(item, dbName);
-      };
-      
-      handleBackupRequest();
+        applyJobUpdate(backupResult.job);
+      }
       
     } catch (error) {
       console.error('Error in backup process:', error);
-      setPollingEnvironments(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(String(item.id));
-        return newSet;
+    }
+  }, [activeJobs, onTimestampUpdate, applyJobUpdate]);
+
+  const handleCancelPull = useCallback(async (item: Customer) => {
+    const job = activeJobs[String(item.id)];
+    if (!job) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/backup/jobs/${job.id}/cancel`, { method: 'POST' });
+      const result = await response.json().catch(() => ({}));
+
+      if (result.job) {
+        applyJobUpdate(result.job);
+      }
+      if (!response.ok) {
+        window.alert(result.error || `Could not cancel the pull for ${item.name}`);
+      }
+    } catch (error) {
+      console.error('Error cancelling backup pull:', error);
+    }
+  }, [activeJobs, applyJobUpdate]);
+
+  // Bulk pulls go through the same server checks as single ones, but there is
+  // no override in bulk, so restricted customers can't be selected at all.
+  const isSelectable = useCallback((item: Customer): boolean => {
+    if (!can('pull_backup') || activeJobs[String(item.id)]) {
+      return false;
+    }
+    if (!item.domain || item.domain === 'undefined' || item.domain.trim() === '') {
+      return false;
+    }
+    if (isFlagSet(item.itar_hosting_bc) || (isFlagSet(item.resident_hosting) && item.environment.state === 'unavailable')) {
+      return false;
+    }
+    return !isEnterpriseTier(item.priority_support) || can('pull_enterprise_backup');
+  }, [can, activeJobs]);
+
+  const toggleSelected = useCallback((item: Customer) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const key = String(item.id);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectableItems = (data || []).filter(isSelectable);
+  const selectedItems = selectableItems.filter(item => selectedIds.has(String(item.id)));
+
+  const handleSelectAll = () => {
+    setSelectedIds(new Set(selectableItems.map(item => String(item.id))));
+  };
+
+  const handleClearSelection = () => {
+    setSelectedIds(new Set());
+  };
+
+  const handlePullSelected = async () => {
+    if (selectedItems.length === 0 || bulkSubmitting) {
+      return;
+    }
+    if (!window.confirm(`Pull backups for ${selectedItems.length} customer${selectedItems.length === 1 ? '' : 's'}?`)) {
+      return;
+    }
+
+    setBulkSubmitting(true);
+    try {
+      const response = await apiFetch('/backup/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ customerIds: selectedItems.map(item => item.id) })
       });
+
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        window.alert(result.error || 'Bulk backup request failed');
+        return;
+      }
+
+      const failures: string[] = [];
+      (result.results || []).forEach((entry: BulkPullResult) => {
+        const item = selectedItems.find(candidate => String(candidate.id) === String(entry.customerId));
+        if (entry.job) {
+          if (onTimestampUpdate && item) {
+            onTimestampUpdate(String(item.id), entry.job.createdAt);
+          }
+          applyJobUpdate(entry.job);
+        } else {
+          failures.push(`${item ? item.name : entry.customerId}: ${entry.error || 'failed'}`);
+        }
+      });
+
+      setSelectedIds(new Set());
+
+      if (failures.length > 0) {
+        window.alert(`Some pulls could not be queued:\n${failures.join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error in bulk backup request:', error);
+      window.alert('Bulk backup request failed');
+    } finally {
+      setBulkSubmitting(false);
     }
-  }, [onTimestampUpdate, pollingEnvironments, startEnvironmentPolling]);
+  };
 
   if (!data || data.length === 0) {
     return <div className="no-data">No data available</div>;
   }
 
+  const renderCustomer = (item: Customer, layout: 'card' | 'row') => (
+    <CustomerCard
+      key={item.id}
+      item={item}
+      hiddenDevelButtons={hiddenDevelButtons}
+      activeJob={activeJobs[String(item.id)]}
+      selectable={isSelectable(item)}
+      selected={selectedIds.has(String(item.id))}
+      onToggleSelect={toggleSelected}
+      onActionClick={handleActionClick}
+      onCancelPull={handleCancelPull}
+      onValidate={onValidate}
+      isValidating={activeValidations.has(String(item.id))}
+      change={changes?.get(String(item.id))}
+      layout={layout}
+    />
+  );
+
   return (
     <div className="customer-cards-container">
-      
-      <div className="cards-grid">
-        {data.map((item) => (
-          <CustomerCard
-            key={item.id}
-            item={item}
-            hiddenDevelButtons={hiddenDevelButtons}
-            isPolling={pollingEnvironments.has(String(item.id))}
-            onActionClick={handleActionClick}
-            addToValidationQueue={addToValidationQueue}
-            isValidationActive={isValidationActive}
-            activeValidations={activeValidations}
-          />
-        ))}
-      </div>
+      {can('pull_backup') && (
+        <div className="bulk-toolbar">
+          <span className="bulk-count">
+            {selectedItems.length > 0 ? `${selectedItems.length} selected` : 'Select customers to pull several at once'}
+          </span>
+          <button
+            className="secondary-button"
+            onClick={handleSelectAll}
+            disabled={selectableItems.length === 0}
+          >
+            Select all shown
+          </button>
+          {selectedItems.length > 0 && (
+            <button className="secondary-button" onClick={handleClearSelection}>
+              Clear
+            </button>
+          )}
+          <button
+            className="action-button primary"
+            onClick={handlePullSelected}
+            disabled={selectedItems.length === 0 || bulkSubmitting}
+          >
+            {bulkSubmitting ? 'Queueing...' : 'Pull selected'}
+          </button>
+        </div>
+      )}
+
+      {view === 'table' ? (
+        <div className="customer-table-wrapper">
+          <table className="customer-table">
+            <thead>
+              <tr>
+                {can('pull_backup') && <th aria-label="Select" />}
+                {TABLE_COLUMNS.map(column => {
+                  const active = sort?.sort === column.field;
+                  return (
+                    <th
+                      key={column.field}
+                      aria-sort={active ? (sort.order === 'asc' ? 'ascending' : 'descending') : undefined}
+                    >
+                      <button
+                        type="button"
+                        className={`column-sort${active ? ' active' : ''}`}
+                        onClick={() => onSortChange?.({
+                          sort: column.field,
+                          order: active ? (sort.order === 'asc' ? 'desc' : 'asc') : column.firstOrder
+                        })}
+                        disabled={!onSortChange}
+                      >
+                        {column.label}
+                        {active && <span aria-hidden="true">{sort.order === 'asc' ? ' ↑' : ' ↓'}</span>}
+                      </button>
+                    </th>
+                  );
+                })}
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.map(item => renderCustomer(item, 'row'))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="cards-grid">
+          {data.map(item => renderCustomer(item, 'card'))}
+        </div>
+      )}
     </div>
   );
 };
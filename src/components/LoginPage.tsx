@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+
+const LoginPage: React.FC = () => {
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await login(username.trim(), password);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+      setPassword('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-container">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h1 className="app-header">Support Environments</h1>
+
+        <label htmlFor="login-username" className="filter-label">Username</label>
+        <input
+          id="login-username"
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="search-input"
+          autoFocus
+          required
+        />
+
+        <label htmlFor="login-password" className="filter-label">Password</label>
+        <input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="search-input"
+          required
+        />
+
+        {error && <span className="error-message">{error}</span>}
+
+        <button type="submit" className="retry-button" disabled={submitting || !username || !password}>
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPage;
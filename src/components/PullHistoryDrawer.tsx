@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch } from '../api';
+import { PULL_STATE_LABELS, formatDuration } from '../pullHistory';
+import type { PullHistoryEntry } from '../pullHistory';
+
+interface PullHistoryDrawerProps {
+  customerId: string | number;
+  customerName: string;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const PullHistoryDrawer: React.FC<PullHistoryDrawerProps> = ({ customerId, customerName, onClose }) => {
+  const [pulls, setPulls] = useState<PullHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await apiFetch(`/customers/${encodeURIComponent(String(customerId))}/pulls`);
+
+        if (!response.ok) {
+          throw new Error(`Failed to load pull history: ${response.status}`);
+        }
+
+        const result = await response.json();
+        setPulls(Array.isArray(result.pulls) ? result.pulls : []);
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Failed to load pull history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [customerId]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <aside className="history-drawer" onClick={(e) => e.stopPropagation()}>
+        <div className="history-drawer-header">
+          <div>
+            <h3>Pull History</h3>
+            <span className="history-drawer-subtitle">{customerName} #{customerId}</span>
+          </div>
+          <button className="close-modal-btn" onClick={onClose} aria-label="Close pull history">
+            ×
+          </button>
+        </div>
+
+        <div className="history-drawer-content">
+          {loading ? (
+            <div className="loading-section">
+              <div className="loading-spinner"></div>
+              <span>Loading pull history...</span>
+            </div>
+          ) : error ? (
+            <div className="error-section">
+              <span className="error-message">{error}</span>
+            </div>
+          ) : pulls.length === 0 ? (
+            <div className="no-data">No pulls recorded for this customer</div>
+          ) : (
+            <ul className="history-list">
+              {pulls.map(pull => (
+                <li key={pull.jobId} className="history-entry">
+                  <div className="history-entry-header">
+                    <span className="history-entry-time">{formatTimestamp(pull.requestedAt)}</span>
+                    <span className={`job-state-chip ${pull.state}`}>
+                      {PULL_STATE_LABELS[pull.state] || pull.state}
+                    </span>
+                  </div>
+                  <dl className="history-entry-details">
+                    <dt>Requested by</dt>
+                    <dd>{pull.requestedBy || 'Unknown'}</dd>
+                    <dt>Database</dt>
+                    <dd>{pull.dbname}</dd>
+                    <dt>Duration</dt>
+                    <dd>{formatDuration(pull.durationMs)}</dd>
+                    <dt>Environment</dt>
+                    <dd>{pull.environmentStatus || '—'}</dd>
+                    {pull.backupResult !== null && pull.backupResult !== undefined && (
+                      <>
+                        <dt>Backup service</dt>
+                        <dd className="history-entry-result">{JSON.stringify(pull.backupResult)}</dd>
+                      </>
+                    )}
+                    {(pull.error || pull.requestError) && (
+                      <>
+                        <dt>Error</dt>
+                        <dd className="error-message">{pull.error || pull.requestError}</dd>
+                      </>
+                    )}
+                  </dl>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default PullHistoryDrawer;
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SavedViewsMenu from './SavedViewsMenu';
+import { DEFAULT_CUSTOMER_SORT } from '../../shared/customer-query';
+import type { SavedView, SavedViewQuery } from '../../shared/customer-query';
+
+const view = (id: string, name: string, query: Partial<SavedViewQuery>): SavedView => ({
+  id,
+  name,
+  query: { ...DEFAULT_CUSTOMER_SORT, ...query },
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z'
+});
+
+const ENTERPRISE = view('v1', 'Enterprise', { priority_support: 'Enterprise' });
+const STALE = view('v2', 'Not pulled lately', { sort: 'lastPulled', order: 'asc' });
+
+// A stand-in for /api/saved-views that keeps what it is sent
+let views: SavedView[];
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  views = [ENTERPRISE, STALE];
+  fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const body = init.body ? JSON.parse(String(init.body)) : {};
+    if (init.method === 'POST') {
+      if (views.some(existing => existing.name.toLowerCase() === body.name.toLowerCase())) {
+        return Response.json({ success: false, error: 'Already exists' }, { status: 409 });
+      }
+      const created = view(`v${views.length + 1}`, body.name, body.query);
+      views = [...views, created];
+      return Response.json({ success: true, view: created }, { status: 201 });
+    }
+    if (init.method === 'PUT') {
+      const id = url.split('/').pop();
+      views = views.map(existing => (existing.id === id ? { ...existing, query: body.query } : existing));
+      return Response.json({ success: true, view: views.find(existing => existing.id === id) });
+    }
+    if (init.method === 'DELETE') {
+      const id = url.split('/').pop();
+      views = views.filter(existing => existing.id !== id);
+      return Response.json({ success: true });
+    }
+    return Response.json({ success: true, views });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const renderMenu = (query: SavedViewQuery = DEFAULT_CUSTOMER_SORT) => {
+  const onApply = vi.fn();
+  render(<SavedViewsMenu query={query} onApply={onApply} />);
+  return onApply;
+};
+
+const menu = () => screen.getByLabelText('Saved views') as HTMLSelectElement;
+
+const requests = (method: string) => fetchMock.mock.calls.filter(([, init]) => init?.method === method);
+
+describe('SavedViewsMenu', () => {
+  it('lists the saved views and applies the one picked', async () => {
+    const onApply = renderMenu();
+    await screen.findByRole('option', { name: 'Not pulled lately' });
+
+    fireEvent.change(menu(), { target: { value: 'v2' } });
+    expect(onApply).toHaveBeenCalledWith(STALE.query);
+  });
+
+  it('shows the view that matches the current filters as selected', async () => {
+    renderMenu({ ...DEFAULT_CUSTOMER_SORT, priority_support: 'Enterprise' });
+    await waitFor(() => expect(menu().value).toBe('v1'));
+    expect(screen.getByRole('button', { name: 'Delete saved view Enterprise' })).toBeTruthy();
+  });
+
+  it('shows none selected once the filters move away from a view', async () => {
+    renderMenu({ ...DEFAULT_CUSTOMER_SORT, priority_support: 'Enterprise', search: 'acme' });
+    await screen.findByRole('option', { name: 'Enterprise' });
+    expect(menu().value).toBe('');
+    expect(screen.queryByRole('button', { name: /Delete saved view/ })).toBeNull();
+  });
+
+  it('saves the current filters under a new name', async () => {
+    vi.spyOn(window, 'prompt').mockReturnValue('  Resident  ');
+    const query = { ...DEFAULT_CUSTOMER_SORT, resident_hosting: '1' };
+    renderMenu(query);
+    await screen.findByRole('option', { name: 'Enterprise' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save view' }));
+
+    await screen.findByRole('option', { name: 'Resident' });
+    expect(JSON.parse(String(requests('POST')[0][1].body))).toEqual({ name: 'Resident', query });
+  });
+
+  it('replaces a view with the same name once confirmed', async () => {
+    vi.spyOn(window, 'prompt').mockReturnValue('enterprise');
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const query = { ...DEFAULT_CUSTOMER_SORT, priority_support: 'Enterprise', resident_hosting: '0' };
+    renderMenu(query);
+    await screen.findByRole('option', { name: 'Enterprise' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save view' }));
+
+    await waitFor(() => expect(menu().value).toBe('v1'));
+    expect(confirm).toHaveBeenCalledWith('Replace the saved view "Enterprise" with the current filters?');
+    expect(requests('PUT')[0][0]).toBe('/api/saved-views/v1');
+  });
+
+  it('deletes the selected view once confirmed', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    renderMenu(STALE.query);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Delete saved view Not pulled lately' }));
+
+    await waitFor(() => expect(screen.queryByRole('option', { name: 'Not pulled lately' })).toBeNull());
+    expect(requests('DELETE')[0][0]).toBe('/api/saved-views/v2');
+  });
+});
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../api';
+import { toCustomerSearchParams } from '../../shared/customer-query';
+import type { SavedView, SavedViewQuery } from '../../shared/customer-query';
+
+interface SavedViewsMenuProps {
+  query: SavedViewQuery;
+  onApply: (query: SavedViewQuery) => void;
+}
+
+const sameQuery = (a: SavedViewQuery, b: SavedViewQuery) =>
+  toCustomerSearchParams(a).toString() === toCustomerSearchParams(b).toString();
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+// The signed-in user's saved views. The one that matches what is on screen
+// shows as selected, so changing a filter afterwards drops back to none.
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ query, onApply }) => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadViews = useCallback(async () => {
+    try {
+      const response = await apiFetch('/saved-views');
+      if (!response.ok) {
+        throw new Error(`Failed to load saved views: ${response.status}`);
+      }
+      const result = await response.json();
+      setViews(Array.isArray(result.views) ? result.views : []);
+    } catch (error) {
+      console.error('Error loading saved views:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  const selected = views.find(view => sameQuery(view.query, query));
+
+  const handleSelect = (id: string) => {
+    const view = views.find(candidate => candidate.id === id);
+    if (view) {
+      onApply(view.query);
+    }
+  };
+
+  const saveView = async () => {
+    const name = window.prompt('Save the current search, filters and sort as:', selected?.name || '')?.trim();
+    if (!name) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let response = await apiFetch('/saved-views', jsonRequest('POST', { name, query }));
+      if (response.status === 409) {
+        const existing = views.find(view => view.name.toLowerCase() === name.toLowerCase());
+        if (!existing || !window.confirm(`Replace the saved view "${existing.name}" with the current filters?`)) {
+          return;
+        }
+        response = await apiFetch(`/saved-views/${encodeURIComponent(existing.id)}`, jsonRequest('PUT', { query }));
+      }
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        window.alert(result.error || 'Failed to save view');
+        return;
+      }
+      await loadViews();
+    } catch (error) {
+      console.error('Error saving view:', error);
+      window.alert('Failed to save view');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/saved-views/${encodeURIComponent(view.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        window.alert(result.error || 'Failed to delete view');
+        return;
+      }
+      await loadViews();
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      window.alert('Failed to delete view');
+    }
+  };
+
+  return (
+    <div className="saved-views">
+      <select
+        aria-label="Saved views"
+        value={selected?.id || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="filter-select"
+      >
+        <option value="">{views.length > 0 ? 'Saved views' : 'No saved views'}</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+      <button type="button" className="filter-toggle-btn" onClick={saveView} disabled={saving}>
+        Save view
+      </button>
+      {selected && (
+        <button
+          type="button"
+          className="close-modal-btn"
+          onClick={() => deleteView(selected)}
+          aria-label={`Delete saved view ${selected.name}`}
+          title="Delete this saved view"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
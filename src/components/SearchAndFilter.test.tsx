@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import SearchAndFilter from './SearchAndFilter';
+import { ConfigContext } from '../contexts/ConfigContext';
+import { DEFAULT_APP_CONFIG } from '../../shared/app-config';
+import type { AppConfig, AppConfigChanges } from '../../shared/app-config';
+import { NO_ENVIRONMENT_DETAILS } from '../../shared/customer';
+import { DEFAULT_CUSTOMER_SORT, getCustomerFacets } from '../../shared/customer-query';
+import type { Customer, EnvironmentDetails, EnvironmentReason, EnvironmentState, EnvironmentStatus } from '../../shared/customer';
+
+// An environment status without probe details unless given
+const environment = (state: EnvironmentState, reason: EnvironmentReason, details: Partial<EnvironmentDetails> = {}) =>
+  ({ state, reason, ...NO_ENVIRONMENT_DETAILS, ...details }) as EnvironmentStatus;
+
+const customer = (id: number, fields: Partial<Customer> = {}): Customer => ({
+  id,
+  name: `Customer ${id}`,
+  domain: `c${id}`,
+  environment: environment('ready', 'login_page_loaded'),
+  priority_support: 'Standard',
+  test_environment: '0',
+  lastPulled: null,
+  nextScheduledPull: null,
+  has_production_login: false,
+  ...fields
+});
+
+// Shapes straight from the customer API: flags arrive as 1/0 as often as
+// booleans, so the fixtures deliberately mix them. The filter menus are
+// built from them the way the server builds them.
+const DATA: Customer[] = [
+  customer(1, { name: 'Acme Manufacturing', domain: 'acme', priority_support: 'Enterprise' }),
+  customer(2, { name: 'Globex', domain: 'globex-erp', priority_support: 'std', environment: environment('not_ready', 'redirected_to_main_site') }),
+  customer(3, { priority_support: 'e', test_environment: 'Update Nightly', environment: environment('pending_validation', 'not_checked_yet') }),
+  customer(4, { priority_support: 'Lite', resident_hosting: 1, environment: environment('resident_hosting', 'resident_database_mapped'), test_environment: '1' }),
+  customer(5, { priority_support: '', itar_hosting_bc: 1, environment: environment('itar_hosting', 'itar_hosting') }),
+  customer(6, { resident_hosting: true, itar_hosting_bc: false, environment: environment('unavailable', 'no_resident_database'), test_environment: 'Update Weekly' }),
+  customer(7, { domain: '', environment: environment('invalid_domain', 'no_domain') }),
+  customer(8, { name: 'Initech', domain: 'initech', environment: environment('not_ready', 'server_error', { httpStatus: 503 }) })
+];
+
+const FACETS = getCustomerFacets(DATA);
+
+type FilterProps = React.ComponentProps<typeof SearchAndFilter>;
+
+const renderFilters = (props: Partial<FilterProps> = {}) => {
+  const onQueryChange = vi.fn();
+  const allProps: FilterProps = {
+    query: DEFAULT_CUSTOMER_SORT,
+    onQueryChange,
+    facets: FACETS,
+    matchCount: DATA.length,
+    loadMatches: async () => DATA,
+    onRefresh: () => {},
+    loading: false,
+    ...props
+  };
+  const { rerender } = render(<SearchAndFilter {...allProps} />);
+  return {
+    onQueryChange,
+    lastQuery: () => onQueryChange.mock.lastCall?.[0],
+    rerender: (changes: Partial<FilterProps>) => rerender(<SearchAndFilter {...allProps} {...changes} />)
+  };
+};
+
+const openFilters = () => fireEvent.click(screen.getByRole('button', { name: 'Filters' }));
+
+const choose = (label: string, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+const optionTexts = (label: string) =>
+  Array.from((screen.getByLabelText(label) as HTMLSelectElement).options).map(option => option.text);
+
+// The saved views menu asks the server for the user's views
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json({ success: true, views: [] })));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('SearchAndFilter search', () => {
+  const type = (value: string) =>
+    fireEvent.change(screen.getByPlaceholderText('Search customers...'), { target: { value } });
+
+  it('asks for the search once typing pauses', () => {
+    vi.useFakeTimers();
+    const { onQueryChange, lastQuery } = renderFilters();
+    type('ac');
+    type('acme ');
+    expect(onQueryChange).not.toHaveBeenCalled();
+
+    act(() => vi.advanceTimersByTime(300));
+    expect(onQueryChange).toHaveBeenCalledTimes(1);
+    expect(lastQuery()).toEqual({ sort: 'name', order: 'asc', search: 'acme' });
+  });
+
+  it('ignores whitespace-only searches', () => {
+    vi.useFakeTimers();
+    const { onQueryChange } = renderFilters();
+    type('   ');
+    act(() => vi.advanceTimersByTime(300));
+    expect(onQueryChange).not.toHaveBeenCalled();
+  });
+
+  it('shows a search set from outside', () => {
+    const { rerender } = renderFilters();
+    rerender({ query: { ...DEFAULT_CUSTOMER_SORT, search: 'globex' } });
+    expect((screen.getByPlaceholderText('Search customers...') as HTMLInputElement).value).toBe('globex');
+  });
+});
+
+describe('SearchAndFilter filters', () => {
+  it('adds the chosen filter to the current query', () => {
+    const { lastQuery } = renderFilters({ query: { ...DEFAULT_CUSTOMER_SORT, search: 'acme' } });
+    openFilters();
+    choose('Support Tier', 'Enterprise');
+    expect(lastQuery()).toEqual({ sort: 'name', order: 'asc', search: 'acme', priority_support: 'Enterprise' });
+  });
+
+  it('drops a filter set back to All', () => {
+    const { lastQuery } = renderFilters({ query: { ...DEFAULT_CUSTOMER_SORT, resident_hosting: '1', environment: 'unavailable' } });
+    openFilters();
+    expect((screen.getByLabelText('Resident') as HTMLSelectElement).value).toBe('1');
+
+    choose('Backup', '');
+    expect(lastQuery()).toEqual({ sort: 'name', order: 'asc', resident_hosting: '1', environment: undefined });
+  });
+
+  it('offers each environment state in the list, with reasons where they differ', () => {
+    renderFilters();
+    openFilters();
+    expect(optionTexts('Backup')).toEqual([
+      'All',
+      'Ready',
+      'Not Ready',
+      'Not Ready – devel redirects to the main site (no database restored)',
+      'Not Ready – devel host answered with a server error',
+      'Pending',
+      'Unavailable',
+      'Resident Hosting',
+      'ITAR Hosting',
+      'Invalid Domain'
+    ]);
+  });
+
+  it('offers the test environment cadences in the list', () => {
+    renderFilters();
+    openFilters();
+    expect(optionTexts('Test Environment')).toEqual(['All', '1', 'Update Nightly', 'Update Weekly', 'No']);
+  });
+
+  it('clears every filter and the search at once, keeping the sort', () => {
+    const { lastQuery } = renderFilters({
+      query: { sort: 'lastPulled', order: 'desc', search: 'acme', itar_hosting_bc: 'true' }
+    });
+    openFilters();
+    fireEvent.click(screen.getByRole('button', { name: 'Clear Filters' }));
+    expect(lastQuery()).toEqual({ sort: 'lastPulled', order: 'desc' });
+    expect((screen.getByPlaceholderText('Search customers...') as HTMLInputElement).value).toBe('');
+  });
+});
+
+describe('SearchAndFilter sort', () => {
+  it('changes the sort field and flips the order', () => {
+    const { lastQuery } = renderFilters({ query: { ...DEFAULT_CUSTOMER_SORT, environment: 'ready' } });
+    choose('Sort by', 'lastPulled');
+    expect(lastQuery()).toEqual({ sort: 'lastPulled', order: 'asc', environment: 'ready' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sort descending' }));
+    expect(lastQuery()).toEqual({ sort: 'name', order: 'desc', environment: 'ready' });
+  });
+});
+
+describe('SearchAndFilter settings', () => {
+  const renderWithSettings = (changes: AppConfigChanges, props: Partial<FilterProps> = {}) => {
+    const config: AppConfig = {
+      features: { ...DEFAULT_APP_CONFIG.features, ...changes.features },
+      ui: DEFAULT_APP_CONFIG.ui,
+      filters: { ...DEFAULT_APP_CONFIG.filters, ...changes.filters },
+      validation: DEFAULT_APP_CONFIG.validation,
+      backups: DEFAULT_APP_CONFIG.backups,
+      alerts: DEFAULT_APP_CONFIG.alerts
+    };
+    render(
+      <ConfigContext.Provider value={{ config, loading: false, isFeatureEnabled: (feature) => config.features[feature] }}>
+        <SearchAndFilter
+          query={DEFAULT_CUSTOMER_SORT}
+          onQueryChange={() => {}}
+          facets={FACETS}
+          matchCount={DATA.length}
+          loadMatches={async () => DATA}
+          onRefresh={() => {}}
+          loading={false}
+          {...props}
+        />
+      </ConfigContext.Provider>
+    );
+  };
+
+  it('hides search and filters when their features are off', () => {
+    renderWithSettings({ features: { searchEnabled: false, filteringEnabled: false } });
+    expect(screen.queryByPlaceholderText('Search customers...')).toBeNull();
+    expect(screen.queryByRole('button', { name: 'Filters' })).toBeNull();
+    expect(screen.getByRole('button', { name: 'Refresh Data' })).toBeTruthy();
+  });
+
+  it('offers only the configured filters', () => {
+    renderWithSettings({ filters: { filterableColumns: ['environment', 'itar_hosting_bc'] } });
+    openFilters();
+    expect(screen.queryByLabelText('Support Tier')).toBeNull();
+    expect(screen.queryByLabelText('Resident')).toBeNull();
+    expect(screen.getByLabelText('Backup')).toBeTruthy();
+    expect(screen.getByLabelText('ITAR')).toBeTruthy();
+  });
+
+  it('offers an export only when the feature is on', () => {
+    renderWithSettings({});
+    expect(screen.queryByRole('button', { name: 'Export' })).toBeNull();
+    cleanup();
+
+    renderWithSettings({ features: { exportEnabled: true } }, { matchCount: 2 });
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    expect(screen.getByRole('button', { name: 'Download 2 customers' })).toBeTruthy();
+  });
+
+  it('downloads every matching customer with the chosen columns', async () => {
+    const createObjectURL = vi.fn((blob: Blob) => { void blob; return 'blob:export'; });
+    vi.stubGlobal('URL', { ...URL, createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    const loadMatches = vi.fn(async () => [{ ...DATA[0], techx_password: 'secret' } as Customer]);
+
+    try {
+      renderWithSettings({ features: { exportEnabled: true } }, { matchCount: 1, loadMatches });
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      fireEvent.click(screen.getByLabelText('Domain'));
+      fireEvent.click(screen.getByLabelText('JSON'));
+      fireEvent.click(screen.getByRole('button', { name: 'Download 1 customer' }));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      expect(loadMatches).toHaveBeenCalledTimes(1);
+      const exported = JSON.parse(await createObjectURL.mock.calls[0][0].text());
+      expect(exported).toEqual([{
+        id: 1,
+        name: 'Acme Manufacturing',
+        priority_support: 'Enterprise',
+        resident_hosting: false,
+        itar_hosting_bc: false,
+        test_environment: null,
+        environment_state: 'Ready',
+        environment_reason: 'devel login page loaded',
+        environment_checked_at: null,
+        last_pulled: null
+      }]);
+    } finally {
+      click.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
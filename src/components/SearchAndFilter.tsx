@@ -1,51 +1,67 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { ENVIRONMENT_REASON_LABELS, ENVIRONMENT_STATE_LABELS } from '../../shared/customer';
+import type { Customer } from '../../shared/customer';
+import { FILTERABLE_COLUMNS } from '../../shared/app-config';
+import type { FilterableColumn } from '../../shared/app-config';
+import { CUSTOMER_SORT_FIELDS, CUSTOMER_SORT_LABELS } from '../../shared/customer-query';
+import type { CustomerFacets, CustomerFilters, CustomerSort, CustomerSortField } from '../../shared/customer-query';
+import { useConfig } from '../hooks/useConfig';
+import SavedViewsMenu from './SavedViewsMenu';
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, downloadCustomers } from '../customerExport';
+import type { ExportFormat } from '../customerExport';
 
-interface Customer {
-  id: string | number;
-  name: string;
-  domain: string;
-  database_exists: boolean | string | null;
-  itar_hosting_bc?: boolean;
-  resident_hosting?: boolean;
-  priority_support?: string;
-  test_environment?: boolean | string;
-}
+export type CustomerListQuery = CustomerFilters & CustomerSort;
 
 interface SearchAndFilterProps {
-  data: Customer[];
-  onFilterChange: (filteredData: Customer[]) => void;
+  // The search, filters and sort the server applies to the list
+  query: CustomerListQuery;
+  onQueryChange: (query: CustomerListQuery) => void;
+  // What the filter menus offer, across every customer
+  facets: CustomerFacets;
+  // How many customers match, and all of them for an export
+  matchCount: number;
+  loadMatches: () => Promise<Customer[]>;
   onRefresh: () => void;
   loading: boolean;
 }
 
-const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ data, onFilterChange, onRefresh, loading }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filters, setFilters] = useState<Record<string, string>>({
-    priority_support: '',
-    resident_hosting: '',
-    test_environment: '',
-    itar_hosting_bc: '',
-    database_exists: ''
-  });
+// Typing pauses this long before the server is asked
+const SEARCH_DELAY_MS = 300;
+
+const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ query, onQueryChange, facets, matchCount, loadMatches, onRefresh, loading }) => {
+  const { config, isFeatureEnabled } = useConfig();
+  const searchEnabled = isFeatureEnabled('searchEnabled');
+  const filteringEnabled = isFeatureEnabled('filteringEnabled');
+  const exportEnabled = isFeatureEnabled('exportEnabled');
+  // Filters an admin has turned off are neither shown nor applied
+  const offersFilter = (column: FilterableColumn) => filteringEnabled && config.filters.filterableColumns.includes(column);
+  const [searchTerm, setSearchTerm] = useState(query.search || '');
   const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportColumns, setExportColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
   const modalRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
+  const queryRef = useRef(query);
+  queryRef.current = query;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
         setShowFilters(false);
+        setShowExport(false);
       }
     };
 
-    if (showFilters) {
+    if (showFilters || showExport) {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showFilters]);
+  }, [showFilters, showExport]);
 
   useEffect(() => {
     if (showFilters && modalRef.current && buttonRef.current) {
@@ -66,150 +82,117 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ data, onFilterChange,
     }
   }, [showFilters]);
 
-  const getUniqueValues = (column: string) => {
-    if (column === 'priority_support') {
-      return ['Lite', 'Standard', 'Enterprise'];
-    }
-    
-    const values = new Set<string>();
-    data.forEach(item => {
-      const itemValue = item[column as keyof Customer];
-      if (itemValue !== undefined && itemValue !== null && itemValue !== '') {
-        let value = String(itemValue);
-        
-        if (column === 'priority_support') {
-          value = normalizePrioritySupport(value);
-          if (value !== 'false') {
-            values.add(value);
-          }
-        } else if (column === 'test_environment') {
-          if (value && value !== '0' && value !== 'false') {
-            values.add(value);
-          }
-        } else {
-          values.add(value);
-        }
-      }
-    });
-    return Array.from(values).sort();
-  };
+  // A search cleared or replaced from outside shows up in the box
+  useEffect(() => {
+    setSearchTerm(query.search || '');
+  }, [query.search]);
 
-  const normalizePrioritySupport = (value: string): string => {
-    const normalizedValue = value.toLowerCase().trim();
-    
-    if (normalizedValue === 'lite' || normalizedValue === 'l') {
-      return 'Lite';
-    } else if (normalizedValue === 'standard' || normalizedValue === 'std' || normalizedValue === 's') {
-      return 'Standard';
-    } else if (normalizedValue === 'enterprise' || normalizedValue === 'ent' || normalizedValue === 'e') {
-      return 'Enterprise';
+  useEffect(() => {
+    const search = searchTerm.trim();
+    if (search === (queryRef.current.search || '')) {
+      return;
     }
-    
-    return 'false';
-  };
-
-  const applyFilters = () => {
-    let filtered = data.filter(item => {
-      // Search term filter
-      if (searchTerm.trim()) {
-        const searchLower = searchTerm.toLowerCase();
-        const nameMatch = item.name.toLowerCase().includes(searchLower);
-        const domainMatch = item.domain.toLowerCase().includes(searchLower);
-        if (!nameMatch && !domainMatch) {
-          return false;
-        }
-      }
-
-      // Priority support filter
-      if (filters.priority_support) {
-        const itemPriority = normalizePrioritySupport(String(item.priority_support || ''));
-        if (itemPriority !== filters.priority_support) {
-          return false;
-        }
-      }
-
-      // Resident hosting filter
-      if (filters.resident_hosting) {
-        const itemValue = item.resident_hosting;
-        if (filters.resident_hosting === '1') {
-          return Boolean(itemValue);
-        } else if (filters.resident_hosting === '0') {
-          return !Boolean(itemValue);
-        }
-      }
-
-      // Test environment filter
-      if (filters.test_environment) {
-        const itemValue = item.test_environment;
-        if (filters.test_environment === 'true') {
-          return Boolean(itemValue);
-        } else if (filters.test_environment === 'false') {
-          return !itemValue || itemValue === '0' || itemValue === null || itemValue === undefined || itemValue === '';
-        }
-      }
+    const timer = setTimeout(() => {
+      onQueryChange({ ...queryRef.current, search: search || undefined });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, onQueryChange]);
 
-      // Database exists filter
-      if (filters.database_exists) {
-        const itemValue = String(item.database_exists || '');
-        if (itemValue !== filters.database_exists) {
-          return false;
-        }
-      }
+  const setFilter = (column: FilterableColumn, value: string) => {
+    onQueryChange({ ...query, [column]: value || undefined });
+  };
 
-      // ITAR hosting filter
-      if (filters.itar_hosting_bc) {
-        const itemValue = String(item.itar_hosting_bc || '');
-        if (itemValue !== filters.itar_hosting_bc) {
-          return false;
-        }
+  // Each environment state in the list, followed by its reasons when there
+  // is more than one, so support can pick out e.g. every devel that answers
+  // with a server error
+  const getEnvironmentOptions = () => {
+    const options: { value: string; label: string }[] = [];
+    facets.environments.forEach(({ state, reasons }) => {
+      options.push({ value: state, label: ENVIRONMENT_STATE_LABELS[state] });
+      if (reasons.length > 1) {
+        reasons.forEach(reason => {
+          options.push({ value: `${state}:${reason}`, label: `${ENVIRONMENT_STATE_LABELS[state]} – ${ENVIRONMENT_REASON_LABELS[reason]}` });
+        });
       }
-
-      return true;
     });
-
-    onFilterChange(filtered);
+    return options;
   };
 
-  useEffect(() => {
-    applyFilters();
-  }, [searchTerm, filters, data, onFilterChange]);
-
   const clearAllFilters = () => {
     setSearchTerm('');
-    setFilters({
-      priority_support: '',
-      resident_hosting: '',
-      test_environment: '',
-      itar_hosting_bc: '',
-      database_exists: ''
-    });
+    onQueryChange({ sort: query.sort, order: query.order });
   };
 
-  const hasActiveFilters = searchTerm.trim() || Object.values(filters).some(value => value !== '');
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      downloadCustomers(await loadMatches(), exportColumns, exportFormat);
+      setShowExport(false);
+    } catch (error) {
+      console.error('Error exporting customers:', error);
+      window.alert('Could not load the customers to export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const hasActiveFilters = Boolean(searchTerm.trim()) || FILTERABLE_COLUMNS.some(column => Boolean(query[column]));
 
   return (
     <div className="search-filter-container">
       <div className="search-section">
-        <div className="search-input-group">
-          <input
-            id="search"
-            type="text"
-            placeholder="Search customers..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="search-input"
-          />
-        </div>
+        {searchEnabled && (
+          <div className="search-input-group">
+            <input
+              id="search"
+              type="text"
+              placeholder="Search customers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="search-input"
+            />
+          </div>
+        )}
 
-        <div className="filter-button-container" ref={modalRef}>
-          <button 
+        <div className="sort-group">
+          <label htmlFor="customer-sort" className="filter-label">Sort by</label>
+          <select
+            id="customer-sort"
+            value={query.sort}
+            onChange={(e) => onQueryChange({ ...query, sort: e.target.value as CustomerSortField })}
+            className="filter-select"
+          >
+            {CUSTOMER_SORT_FIELDS.map(field => (
+              <option key={field} value={field}>{CUSTOMER_SORT_LABELS[field]}</option>
+            ))}
+          </select>
+          <button
             type="button"
-            className="filter-toggle-btn"
-            onClick={() => setShowFilters(!showFilters)}
-            ref={buttonRef}
+            className="sort-order-btn"
+            onClick={() => onQueryChange({ ...query, order: query.order === 'asc' ? 'desc' : 'asc' })}
+            aria-label={query.order === 'asc' ? 'Sort descending' : 'Sort ascending'}
+            title={query.order === 'asc' ? 'Ascending' : 'Descending'}
           >
-            {showFilters ? 'Hide Filters' : 'Filters'}
+            {query.order === 'asc' ? '↑' : '↓'}
           </button>
+        </div>
+
+        <div className="filter-button-container" ref={modalRef}>
+          {filteringEnabled && (
+            <button 
+              type="button"
+              className="filter-toggle-btn"
+              onClick={() => {
+                setShowFilters(!showFilters);
+                setShowExport(false);
+              }}
+              ref={buttonRef}
+            >
+              {showFilters ? 'Hide Filters' : 'Filters'}
+            </button>
+          )}
+
+          <SavedViewsMenu query={query} onApply={onQueryChange} />
           
           <button 
             className="refresh-button"
@@ -218,8 +201,80 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ data, onFilterChange,
           >
             {loading ? 'Loading...' : 'Refresh Data'}
           </button>
+
+          {exportEnabled && (
+            <button
+              type="button"
+              className="filter-toggle-btn"
+              onClick={() => {
+                setShowExport(!showExport);
+                setShowFilters(false);
+              }}
+            >
+              Export
+            </button>
+          )}
+
+          {exportEnabled && showExport && (
+            <div className="filter-modal export-modal">
+              <div className="filter-modal-header">
+                <h3>Export</h3>
+                <button
+                  className="close-modal-btn"
+                  onClick={() => setShowExport(false)}
+                >
+                  ×
+                </button>
+              </div>
+
+              <div className="filter-modal-content">
+                <fieldset className="export-columns">
+                  <legend className="filter-label">Columns</legend>
+                  {EXPORT_COLUMNS.map(column => (
+                    <label key={column.key} className="export-option">
+                      <input
+                        type="checkbox"
+                        checked={exportColumns.includes(column.key)}
+                        onChange={(e) => setExportColumns(prev => e.target.checked
+                          ? [...prev, column.key]
+                          : prev.filter(key => key !== column.key))}
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                  <span className="schedule-form-hint">Environment status and last pull are always included.</span>
+                </fieldset>
+
+                <fieldset className="export-formats">
+                  <legend className="filter-label">Format</legend>
+                  {(['csv', 'json'] as ExportFormat[]).map(format => (
+                    <label key={format} className="export-option">
+                      <input
+                        type="radio"
+                        name="export-format"
+                        value={format}
+                        checked={exportFormat === format}
+                        onChange={() => setExportFormat(format)}
+                      />
+                      {format.toUpperCase()}
+                    </label>
+                  ))}
+                </fieldset>
+
+                <div className="filter-actions">
+                  <button
+                    className="retry-button"
+                    onClick={handleExport}
+                    disabled={matchCount === 0 || exporting}
+                  >
+                    {exporting ? 'Preparing...' : `Download ${matchCount} ${matchCount === 1 ? 'customer' : 'customers'}`}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
           
-          {showFilters && (
+          {filteringEnabled && showFilters && (
             <div className="filter-modal">
               <div className="filter-modal-header">
                 <h3>Filters</h3>
@@ -233,111 +288,100 @@ const SearchAndFilter: React.FC<SearchAndFilterProps> = ({ data, onFilterChange,
               
               <div className="filter-modal-content">
                 <div className="filter-row">
-                  <div className="filter-group">
-                    <label htmlFor="priority-support-filter" className="filter-label">
-                      Support Tier
-                    </label>
-                    <select
-                      id="priority-support-filter"
-                      value={filters.priority_support}
-                      onChange={(e) => setFilters(prev => ({ ...prev, priority_support: e.target.value }))}
-                      className="filter-select"
-                    >
-                      <option value="">All</option>
-                      <option value="Lite">Lite</option>
-                      <option value="Standard">Standard</option>
-                      <option value="Enterprise">Enterprise</option>
-                    </select>
-                  </div>
+                  {offersFilter('priority_support') && (
+                    <div className="filter-group">
+                      <label htmlFor="priority-support-filter" className="filter-label">
+                        Support Tier
+                      </label>
+                      <select
+                        id="priority-support-filter"
+                        value={query.priority_support || ''}
+                        onChange={(e) => setFilter('priority_support', e.target.value)}
+                        className="filter-select"
+                      >
+                        <option value="">All</option>
+                        <option value="Lite">Lite</option>
+                        <option value="Standard">Standard</option>
+                        <option value="Enterprise">Enterprise</option>
+                      </select>
+                    </div>
+                  )}
 
-                  <div className="filter-group">
-                    <label htmlFor="resident-hosting-filter" className="filter-label">
-                      Resident
-                    </label>
-                    <select
-                      id="resident-hosting-filter"
-                      value={filters.resident_hosting}
-                      onChange={(e) => setFilters(prev => ({ ...prev, resident_hosting: e.target.value }))}
-                      className="filter-select"
-                    >
-                      <option value="">All</option>
-                      <option value="1">Yes</option>
-                      <option value="0">No</option>
-                    </select>
-                  </div>
+                  {offersFilter('resident_hosting') && (
+                    <div className="filter-group">
+                      <label htmlFor="resident-hosting-filter" className="filter-label">
+                        Resident
+                      </label>
+                      <select
+                        id="resident-hosting-filter"
+                        value={query.resident_hosting || ''}
+                        onChange={(e) => setFilter('resident_hosting', e.target.value)}
+                        className="filter-select"
+                      >
+                        <option value="">All</option>
+                        <option value="1">Yes</option>
+                        <option value="0">No</option>
+                      </select>
+                    </div>
+                  )}
 
-                  <div className="filter-group">
-                    <label htmlFor="database_exists" className="filter-label">Backup</label>
-                    <select
-                      id="database_exists"
-                      value={filters.database_exists}
-                      onChange={(e) => setFilters({ ...filters, database_exists: e.target.value })}
-                      className="filter-select"
-                    >
-                      <option value="">All</option>
-                      {getUniqueValues('database_exists').map(value => {
-                        let displayValue = value;
-                        const stringValue = String(value);
-                        if (stringValue === 'true') {
-                          displayValue = 'Yes';
-                        } else if (stringValue === 'false') {
-                          displayValue = 'No';
-                        } else if (stringValue === 'resident_hosting') {
-                          displayValue = 'Resident Hosting';
-                        } else if (stringValue === 'itar_hosting') {
-                          displayValue = 'ITAR Hosting';
-                        } else if (stringValue === 'mysql_disabled') {
-                          displayValue = 'MySQL Disabled';
-                        } else if (stringValue === 'mysql_error') {
-                          displayValue = 'MySQL Error';
-                        } else if (stringValue === 'batch_timeout') {
-                          displayValue = 'Batch Timeout';
-                        } else if (stringValue === 'invalid_domain') {
-                          displayValue = 'Invalid Domain';
-                        } else if (stringValue === 'unavailable') {
-                          displayValue = 'Unavailable';
-                        }
-                        return <option key={value} value={value}>{displayValue}</option>;
-                      })}
-                    </select>
-                  </div>
+                  {offersFilter('environment') && (
+                    <div className="filter-group">
+                      <label htmlFor="environment" className="filter-label">Backup</label>
+                      <select
+                        id="environment"
+                        value={query.environment || ''}
+                        onChange={(e) => setFilter('environment', e.target.value)}
+                        className="filter-select"
+                      >
+                        <option value="">All</option>
+                        {getEnvironmentOptions().map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
 
-                  <div className="filter-group">
-                    <label htmlFor="itar_hosting_bc" className="filter-label">ITAR</label>
-                    <select
-                      id="itar_hosting_bc"
-                      value={filters.itar_hosting_bc}
-                      onChange={(e) => setFilters(prev => ({ ...prev, itar_hosting_bc: e.target.value }))}
-                      className="filter-select"
-                    >
-                      <option value="">All</option>
-                      <option value="true">Yes</option>
-                      <option value="false">No</option>
-                    </select>
-                  </div>
+                  {offersFilter('itar_hosting_bc') && (
+                    <div className="filter-group">
+                      <label htmlFor="itar_hosting_bc" className="filter-label">ITAR</label>
+                      <select
+                        id="itar_hosting_bc"
+                        value={query.itar_hosting_bc || ''}
+                        onChange={(e) => setFilter('itar_hosting_bc', e.target.value)}
+                        className="filter-select"
+                      >
+                        <option value="">All</option>
+                        <option value="true">Yes</option>
+                        <option value="false">No</option>
+                      </select>
+                    </div>
+                  )}
 
-                  <div className="filter-group">
-                    <label htmlFor="test_environment" className="filter-label">Test Environment</label>
-                    <select
-                      id="test_environment"
-                      value={filters.test_environment}
-                      onChange={(e) => setFilters(prev => ({ ...prev, test_environment: e.target.value }))}
-                      className="filter-select"
-                    >
-                      <option value="">All</option>
-                      {getUniqueValues('test_environment').map(value => {
-                        let displayValue = value;
-                        const stringValue = String(value);
-                        if (stringValue === 'true') {
-                          displayValue = 'Yes';
-                        } else if (stringValue === 'false') {
-                          displayValue = 'No';
-                        }
-                        return <option key={value} value={value}>{displayValue}</option>;
-                      })}
-                      <option value="false">No</option>
-                    </select>
-                  </div>
+                  {offersFilter('test_environment') && (
+                    <div className="filter-group">
+                      <label htmlFor="test_environment" className="filter-label">Test Environment</label>
+                      <select
+                        id="test_environment"
+                        value={query.test_environment || ''}
+                        onChange={(e) => setFilter('test_environment', e.target.value)}
+                        className="filter-select"
+                      >
+                        <option value="">All</option>
+                        {facets.testEnvironments.map(value => {
+                          let displayValue = value;
+                          const stringValue = String(value);
+                          if (stringValue === 'true') {
+                            displayValue = 'Yes';
+                          } else if (stringValue === 'false') {
+                            displayValue = 'No';
+                          }
+                          return <option key={value} value={value}>{displayValue}</option>;
+                        })}
+                        <option value="false">No</option>
+                      </select>
+                    </div>
+                  )}
                 </div>
 
                 <div className="filter-actions">
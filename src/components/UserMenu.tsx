@@ -0,0 +1,22 @@
+import React from 'react';
+import { useAuth } from '../hooks/useAuth';
+
+const UserMenu: React.FC = () => {
+  const { user, logout } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="user-menu">
+      <span className="user-name" title={user.username}>{user.name}</span>
+      <span className="user-role">{user.role}</span>
+      <button className="secondary-button" onClick={logout}>
+        Sign out
+      </button>
+    </div>
+  );
+};
+
+export default UserMenu;
@@ -1,52 +1,16 @@
-// Simple configuration for CETEC Backup Tool
-export const config = {
-  app: {
-    name: "CETEC Backup Puller",
-    version: "1.0.0",
-    description: "Customer data management application with MySQL integration"
-  },
-  api: {
-    baseUrl: "https://internal.cetecerp.com",
-    customerViewPath: "/react/customer",
-    customerViewQuery: "?newversion=1",
-    timeout: 60000
-  },
-  mysql: {
-    enabled: true,
-    batchSize: 5,
-    timeout: 30000
-  },
-  filters: {
-    excludedColumns: ["id", "total_users", "database_exists", "ok_to_bill"],
-    searchableColumns: ["name", "domain"],
-    filterableColumns: [
-      "priority_support",
-      "resident_hosting", 
-      "test_environment",
-      "test_domain",
-      "itar_hosting_bc",
-      "database_exists"
-    ]
-  },
-  ui: {
-    tablePageSize: 50,
-    maxSearchResults: 1000,
-    refreshInterval: 300000,
-    loadingTimeout: 10000
-  },
-  features: {
-    searchEnabled: true,
-    filteringEnabled: true,
-    exportEnabled: false,
-    realTimeUpdates: false,
-    offlineMode: false
-  }
-};
+import { apiFetch } from '../api';
+import { DEFAULT_APP_CONFIG } from '../../shared/app-config';
+import type { AppConfig, FeatureFlag } from '../../shared/app-config';
+
+type ConfigListener = (config: AppConfig) => void;
 
-// Simple config loader
+// Holds the settings the server hands out at GET /api/config. Until they
+// arrive, and if they can't be loaded, the shared defaults apply.
 export class ConfigLoader {
   private static instance: ConfigLoader;
-  private config = config;
+  private config: AppConfig = structuredClone(DEFAULT_APP_CONFIG);
+  private defaults: AppConfig = structuredClone(DEFAULT_APP_CONFIG);
+  private listeners = new Set<ConfigListener>();
 
   private constructor() {}
 
@@ -57,27 +21,59 @@ export class ConfigLoader {
     return ConfigLoader.instance;
   }
 
-  public getConfig() {
+  public async loadConfig(): Promise<AppConfig> {
+    try {
+      const response = await apiFetch('/config');
+      if (!response.ok) {
+        throw new Error(`Failed to load settings: ${response.status}`);
+      }
+      const result = await response.json();
+      this.defaults = result.defaults;
+      this.setConfig(result.config);
+    } catch (error) {
+      console.warn('Using default settings:', error);
+    }
     return this.config;
   }
 
+  // Used for settings pushed by the server after an admin saves them
+  public setConfig(config: AppConfig) {
+    this.config = config;
+    this.listeners.forEach(listener => listener(config));
+  }
+
+  public subscribe(listener: ConfigListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getConfig(): AppConfig {
+    return this.config;
+  }
+
+  public getDefaults(): AppConfig {
+    return this.defaults;
+  }
+
   public getValue<T>(path: string): T | undefined {
     const keys = path.split('.');
-    let current: Record<string, unknown> = this.config;
-    
+    let current: unknown = this.config;
+
     for (const key of keys) {
       if (current && typeof current === 'object' && key in current) {
-        current = current[key] as Record<string, unknown>;
+        current = (current as Record<string, unknown>)[key];
       } else {
         return undefined;
       }
     }
-    
+
     return current as T;
   }
 
-  public isFeatureEnabled(feature: keyof typeof config.features): boolean {
-    return this.getValue<boolean>(`features.${feature}`) || false;
+  public isFeatureEnabled(feature: FeatureFlag): boolean {
+    return this.getValue<boolean>(`features.${feature}`) === true;
   }
 }
 
@@ -87,4 +83,4 @@ export const configLoader = ConfigLoader.getInstance();
 // Export convenience functions
 export const getConfig = () => configLoader.getConfig();
 export const getConfigValue = <T>(path: string): T | undefined => configLoader.getValue<T>(path);
-export const isFeatureEnabled = (feature: keyof typeof config.features): boolean => configLoader.isFeatureEnabled(feature);
+export const isFeatureEnabled = (feature: FeatureFlag): boolean => configLoader.isFeatureEnabled(feature);
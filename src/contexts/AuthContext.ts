@@ -0,0 +1,30 @@
+import { createContext } from 'react';
+
+export type Role = 'viewer' | 'support' | 'admin';
+
+export type Permission =
+  | 'pull_backup'
+  | 'pull_enterprise_backup'
+  | 'open_production'
+  | 'override_restrictions'
+  | 'view_audit'
+  | 'manage_resident_databases'
+  | 'manage_settings'
+  | 'manage_alerts';
+
+export interface AuthUser {
+  username: string;
+  name: string;
+  role: Role;
+  permissions: Permission[];
+}
+
+export interface AuthContextType {
+  user: AuthUser | null;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
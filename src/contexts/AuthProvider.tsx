@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { AuthContext } from './AuthContext';
+import type { AuthUser, Permission } from './AuthContext';
+import { apiFetch, UNAUTHORIZED_EVENT } from '../api';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await apiFetch('/auth/session');
+        if (response.ok) {
+          const result = await response.json();
+          setUser(result.user);
+        }
+      } catch (error) {
+        console.error('Failed to load session:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSession();
+  }, []);
+
+  useEffect(() => {
+    const handleUnauthorized = () => setUser(null);
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const response = await apiFetch('/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ username, password }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || 'Login failed');
+    }
+
+    setUser(result.user);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiFetch('/auth/logout', { method: 'POST' });
+    } finally {
+      setUser(null);
+    }
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => Boolean(user?.permissions?.includes(permission)),
+    [user]
+  );
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, logout, can }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import { DEFAULT_APP_CONFIG } from '../../shared/app-config';
+import type { AppConfig, FeatureFlag } from '../../shared/app-config';
+
+export interface ConfigContextType {
+  config: AppConfig;
+  loading: boolean;
+  isFeatureEnabled: (feature: FeatureFlag) => boolean;
+}
+
+// Outside a ConfigProvider (e.g. in component tests) the defaults apply
+export const ConfigContext = createContext<ConfigContextType>({
+  config: DEFAULT_APP_CONFIG,
+  loading: false,
+  isFeatureEnabled: (feature) => DEFAULT_APP_CONFIG.features[feature]
+});
@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { ConfigContext } from './ConfigContext';
+import { configLoader } from '../config/config-loader';
+import { useServerEvent } from '../hooks/useServerEvent';
+import type { AppConfig, FeatureFlag } from '../../shared/app-config';
+
+interface ConfigProviderProps {
+  children: ReactNode;
+}
+
+// Loads the server's settings once the user is signed in, and picks up
+// changes an admin saves in any tab.
+export const ConfigProvider: React.FC<ConfigProviderProps> = ({ children }) => {
+  const [config, setConfig] = useState<AppConfig>(configLoader.getConfig());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = configLoader.subscribe(setConfig);
+    configLoader.loadConfig().finally(() => setLoading(false));
+    return unsubscribe;
+  }, []);
+
+  useServerEvent<AppConfig>('config', (next) => {
+    configLoader.setConfig(next);
+  });
+
+  const isFeatureEnabled = (feature: FeatureFlag) => configLoader.isFeatureEnabled(feature);
+
+  return (
+    <ConfigContext.Provider value={{ config, loading, isFeatureEnabled }}>
+      {children}
+    </ConfigContext.Provider>
+  );
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { changesById, mergeCustomers } from './customerChanges';
+import { diffCustomers, hasChanges } from '../shared/customer-changes';
+import { NO_ENVIRONMENT_DETAILS } from '../shared/customer';
+import type { Customer, EnvironmentStatus } from '../shared/customer';
+
+const PENDING: EnvironmentStatus = { state: 'pending_validation', reason: 'not_checked_yet', ...NO_ENVIRONMENT_DETAILS };
+
+const probed = (state: 'ready' | 'not_ready', checkedAt: string): EnvironmentStatus =>
+  (state === 'ready'
+    ? { state, reason: 'login_page_loaded', ...NO_ENVIRONMENT_DETAILS, checkedAt }
+    : { state, reason: 'server_error', ...NO_ENVIRONMENT_DETAILS, checkedAt, httpStatus: 503 });
+
+const customer = (id: number, fields: Partial<Customer> = {}): Customer => ({
+  id,
+  name: `Customer ${id}`,
+  domain: `customer${id}`,
+  priority_support: 'Standard',
+  resident_hosting: 0,
+  itar_hosting_bc: 0,
+  environment: PENDING,
+  lastPulled: null,
+  nextScheduledPull: null,
+  has_production_login: false,
+  ...fields
+});
+
+describe('diffCustomers', () => {
+  it('finds added and removed customers, naming them without the rest of the record', () => {
+    const diff = diffCustomers([customer(1), customer(2)], [customer(2), customer(3)]);
+    expect(diff.added).toEqual([{ id: 3, name: 'Customer 3', domain: 'customer3' }]);
+    expect(diff.removed.map(c => c.id)).toEqual([1]);
+    expect(diff.changed).toEqual([]);
+    expect(hasChanges(diff)).toBe(true);
+  });
+
+  it('reports tier and hosting flag changes by meaning, not spelling', () => {
+    const diff = diffCustomers(
+      [customer(1, { priority_support: 'std', resident_hosting: '1' }), customer(2, { itar_hosting_bc: 0 })],
+      [customer(1, { priority_support: 'Standard', resident_hosting: true }), customer(2, { priority_support: 'E', itar_hosting_bc: 1 })]
+    );
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].customer.id).toBe(2);
+    expect(diff.changed[0].fields).toEqual([
+      { field: 'priority_support', label: 'Support tier', before: 'Standard', after: 'Enterprise' },
+      { field: 'itar_hosting_bc', label: 'ITAR hosting', before: 'No', after: 'Yes' }
+    ]);
+  });
+
+  it('ignores fields it does not track', () => {
+    const diff = diffCustomers([customer(1)], [customer(1, { name: 'Renamed', num_prod_users: 40, environment: probed('ready', '2026-01-01T00:00:00Z') })]);
+    expect(hasChanges(diff)).toBe(false);
+    expect(changesById(diff).size).toBe(0);
+  });
+
+  it('keys card changes by customer id', () => {
+    const diff = diffCustomers([customer(1)], [customer(1, { resident_hosting: 1 }), customer(2)]);
+    const changes = changesById(diff);
+    expect(changes.get('2')).toEqual({ kind: 'added' });
+    expect(changes.get('1')).toMatchObject({ kind: 'changed', fields: [{ field: 'resident_hosting' }] });
+  });
+});
+
+describe('mergeCustomers', () => {
+  it('takes the reloaded list and its record fields', () => {
+    const merged = mergeCustomers([customer(1), customer(2)], [customer(1, { priority_support: 'Lite' }), customer(3)]);
+    expect(merged.map(c => [c.id, c.priority_support])).toEqual([[1, 'Lite'], [3, 'Standard']]);
+  });
+
+  it('keeps a validation this tab ran after the server last probed', () => {
+    const local = probed('ready', '2026-01-01T10:05:00Z');
+    const merged = mergeCustomers(
+      [customer(1, { environment: local })],
+      [customer(1, { environment: probed('not_ready', '2026-01-01T10:00:00Z') })]
+    );
+    expect(merged[0].environment).toBe(local);
+  });
+
+  it('takes the server environment when it is newer or not probed', () => {
+    const server = probed('not_ready', '2026-01-01T10:10:00Z');
+    expect(mergeCustomers(
+      [customer(1, { environment: probed('ready', '2026-01-01T10:05:00Z') })],
+      [customer(1, { environment: server })]
+    )[0].environment).toBe(server);
+
+    const itar: EnvironmentStatus = { state: 'itar_hosting', reason: 'itar_hosting', ...NO_ENVIRONMENT_DETAILS };
+    expect(mergeCustomers(
+      [customer(1, { environment: probed('ready', '2026-01-01T10:05:00Z') })],
+      [customer(1, { itar_hosting_bc: 1, environment: itar })]
+    )[0].environment).toBe(itar);
+  });
+
+  it('keeps the newest last pull', () => {
+    const merged = mergeCustomers(
+      [customer(1, { lastPulled: '2026-01-01T10:05:00Z' }), customer(2, { lastPulled: '2026-01-01T09:00:00Z' })],
+      [customer(1, { lastPulled: '2026-01-01T10:00:00Z' }), customer(2, { lastPulled: '2026-01-01T11:00:00Z' })]
+    );
+    expect(merged.map(c => c.lastPulled)).toEqual(['2026-01-01T10:05:00Z', '2026-01-01T11:00:00Z']);
+  });
+});
@@ -0,0 +1,42 @@
+import type { Customer } from '../shared/customer';
+import type { CustomerListDiff, FieldChange } from '../shared/customer-changes';
+
+// What a card shows about its own customer
+export type CustomerChange =
+  | { kind: 'added' }
+  | { kind: 'changed'; fields: FieldChange[] };
+
+export const changesById = (diff: CustomerListDiff | null): Map<string, CustomerChange> => {
+  const changes = new Map<string, CustomerChange>();
+  diff?.added.forEach(customer => changes.set(String(customer.id), { kind: 'added' }));
+  diff?.changed.forEach(({ customer, fields }) => changes.set(String(customer.id), { kind: 'changed', fields }));
+  return changes;
+};
+
+const isNewer = (a: string | null, b: string | null): boolean =>
+  Boolean(a) && (!b || new Date(a!).getTime() > new Date(b).getTime());
+
+// Takes the reloaded page as the source of truth for who the customers are
+// and what CETEC says about them, but keeps what this tab learned since the
+// page it replaces was loaded: a one-off validation or a pull event can be
+// newer than the server's answer to a request that was already in flight.
+// An environment the server didn't probe (ITAR, no database, ...) follows
+// from the customer record, so it always wins.
+export const mergeCustomers = (previous: Customer[], next: Customer[]): Customer[] => {
+  const previousById = new Map(previous.map(customer => [String(customer.id), customer]));
+
+  return next.map(customer => {
+    const before = previousById.get(String(customer.id));
+    if (!before) {
+      return customer;
+    }
+
+    return {
+      ...customer,
+      environment: customer.environment.checkedAt && isNewer(before.environment.checkedAt, customer.environment.checkedAt)
+        ? before.environment
+        : customer.environment,
+      lastPulled: isNewer(before.lastPulled, customer.lastPulled) ? before.lastPulled : customer.lastPulled
+    };
+  });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { exportFileName, toCsv, toRows } from './customerExport';
+import { NO_ENVIRONMENT_DETAILS } from '../shared/customer';
+import type { Customer } from '../shared/customer';
+
+const customer = (fields: Partial<Customer> = {}): Customer => ({
+  id: 42,
+  name: 'Acme Manufacturing',
+  domain: 'acme',
+  priority_support: 'Enterprise',
+  resident_hosting: '1',
+  itar_hosting_bc: 0,
+  test_environment: 'Update Nightly',
+  environment: { state: 'not_ready', reason: 'server_error', ...NO_ENVIRONMENT_DETAILS, checkedAt: '2026-01-01T10:00:00.000Z', httpStatus: 503 },
+  lastPulled: '2026-01-02T08:30:00.000Z',
+  nextScheduledPull: null,
+  has_production_login: true,
+  ...fields
+});
+
+describe('customer export', () => {
+  it('writes the chosen columns followed by environment status and last pull', () => {
+    expect(toCsv([customer()], ['id', 'name', 'resident_hosting', 'test_environment'])).toBe(
+      'ID,Name,Resident hosting,Test environment,Environment,Environment reason,Environment checked at,Last pulled\r\n' +
+      '42,Acme Manufacturing,true,Update Nightly,Not Ready,devel host answered with a server error,2026-01-01T10:00:00.000Z,2026-01-02T08:30:00.000Z\r\n'
+    );
+  });
+
+  it('quotes separators and defuses spreadsheet formulas', () => {
+    const csv = toCsv([customer({ name: 'Smith, "Jones" & Co', domain: '=HYPERLINK("evil")' })], ['name', 'domain']);
+    expect(csv.split('\r\n')[1]).toMatch(/^"Smith, ""Jones"" & Co","'=HYPERLINK\(""evil""\)",/);
+  });
+
+  it('never exports fields outside the column list', () => {
+    const [row] = toRows([{ ...customer(), techx_password: 'hunter2' } as Customer], ['id', 'techx_password']);
+    expect(Object.keys(row)).toEqual(['id', 'environment_state', 'environment_reason', 'environment_checked_at', 'last_pulled']);
+    expect(JSON.stringify(row)).not.toContain('hunter2');
+  });
+
+  it('names files after the day they were made', () => {
+    expect(exportFileName('json', new Date('2026-03-04T12:00:00Z'))).toBe('customers-2026-03-04.json');
+  });
+});
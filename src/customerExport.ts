@@ -0,0 +1,98 @@
+import { ENVIRONMENT_REASON_LABELS, ENVIRONMENT_STATE_LABELS, isFlagSet } from '../shared/customer';
+import type { Customer } from '../shared/customer';
+import { hasTestEnvironment } from '../shared/customer-query';
+
+export type ExportFormat = 'csv' | 'json';
+
+type ExportValue = string | number | boolean | null;
+
+interface ExportColumn {
+  key: string;
+  label: string;
+  value: (customer: Customer) => ExportValue;
+}
+
+// Exports are built from this list only, never by copying the customer
+// record, so nothing the server might add later (let alone a password) ends
+// up in a file that gets mailed around
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'ID', value: customer => customer.id },
+  { key: 'name', label: 'Name', value: customer => customer.name },
+  { key: 'domain', label: 'Domain', value: customer => customer.domain },
+  { key: 'external_key', label: 'External key', value: customer => customer.external_key ?? null },
+  { key: 'priority_support', label: 'Support tier', value: customer => customer.priority_support ?? null },
+  { key: 'resident_hosting', label: 'Resident hosting', value: customer => isFlagSet(customer.resident_hosting) },
+  { key: 'itar_hosting_bc', label: 'ITAR hosting', value: customer => isFlagSet(customer.itar_hosting_bc) },
+  {
+    key: 'test_environment',
+    label: 'Test environment',
+    value: customer => (hasTestEnvironment(customer.test_environment) ? String(customer.test_environment) : null)
+  },
+  { key: 'ok_to_bill', label: 'OK to bill', value: customer => isFlagSet(customer.ok_to_bill) },
+  { key: 'num_prod_users', label: 'Production users', value: customer => customer.num_prod_users ?? null },
+  { key: 'num_full_users', label: 'Full users', value: customer => customer.num_full_users ?? null },
+  { key: 'has_production_login', label: 'Production login', value: customer => customer.has_production_login },
+  { key: 'nextScheduledPull', label: 'Next scheduled pull', value: customer => customer.nextScheduledPull }
+];
+
+export const DEFAULT_EXPORT_COLUMNS = ['id', 'name', 'domain', 'priority_support', 'resident_hosting', 'itar_hosting_bc', 'test_environment'];
+
+// Every export ends with these, whatever columns were chosen
+const STATUS_COLUMNS: ExportColumn[] = [
+  { key: 'environment_state', label: 'Environment', value: customer => ENVIRONMENT_STATE_LABELS[customer.environment.state] },
+  { key: 'environment_reason', label: 'Environment reason', value: customer => ENVIRONMENT_REASON_LABELS[customer.environment.reason] },
+  { key: 'environment_checked_at', label: 'Environment checked at', value: customer => customer.environment.checkedAt },
+  { key: 'last_pulled', label: 'Last pulled', value: customer => customer.lastPulled }
+];
+
+const columnsFor = (keys: string[]): ExportColumn[] => [
+  ...EXPORT_COLUMNS.filter(column => keys.includes(column.key)),
+  ...STATUS_COLUMNS
+];
+
+export const toRows = (customers: Customer[], keys: string[]): Record<string, ExportValue>[] => {
+  const columns = columnsFor(keys);
+  return customers.map(customer => Object.fromEntries(columns.map(column => [column.key, column.value(customer)])));
+};
+
+// Quotes what needs quoting, and defuses text a spreadsheet would otherwise
+// run as a formula
+const csvCell = (value: ExportValue): string => {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (customers: Customer[], keys: string[]): string => {
+  const columns = columnsFor(keys);
+  const lines = [
+    columns.map(column => csvCell(column.label)).join(','),
+    ...customers.map(customer => columns.map(column => csvCell(column.value(customer))).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+export const toJson = (customers: Customer[], keys: string[]): string =>
+  `${JSON.stringify(toRows(customers, keys), null, 2)}\n`;
+
+export const exportFileName = (format: ExportFormat, date = new Date()): string =>
+  `customers-${date.toISOString().slice(0, 10)}.${format}`;
+
+export const downloadCustomers = (customers: Customer[], keys: string[], format: ExportFormat) => {
+  const content = format === 'csv' ? toCsv(customers, keys) : toJson(customers, keys);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,4 @@
+import { useContext } from 'react';
+import { ConfigContext } from '../contexts/ConfigContext';
+
+export const useConfig = () => useContext(ConfigContext);
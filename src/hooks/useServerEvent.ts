@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToServerEvent, type ServerEventType } from '../serverEvents';
+
+// Subscribes for the lifetime of the component. The latest handler is always
+// used, so callers don't need to memoise it.
+export const useServerEvent = <T>(type: ServerEventType, handler: (data: T) => void) => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    return subscribeToServerEvent(type, data => handlerRef.current(data as T));
+  }, [type]);
+};
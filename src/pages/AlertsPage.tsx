@@ -0,0 +1,454 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { apiFetch } from '../api';
+import { useAuth } from '../hooks/useAuth';
+import { useServerEvent } from '../hooks/useServerEvent';
+import {
+  ALERT_RULE_KINDS,
+  ALERT_RULE_KIND_DETAILS,
+  NOTIFIER_CHANNELS,
+  NOTIFIER_CHANNEL_LABELS,
+  describeAlertRule
+} from '../../shared/alerts';
+import type { Alert, AlertRule, AlertRuleKind, NotifierChannel } from '../../shared/alerts';
+
+interface RuleForm {
+  name: string;
+  kind: AlertRuleKind;
+  threshold: string;
+  priority_support: string;
+  channels: NotifierChannel[];
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  kind: 'stale_backup',
+  threshold: '14',
+  priority_support: 'Enterprise',
+  channels: []
+};
+
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  stale_backup: 'Stale backup',
+  pull_not_ready: 'Pull not ready'
+};
+
+const formatTimestamp = (timestamp: string | null): string => {
+  if (!timestamp) {
+    return '—';
+  }
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const toForm = (rule: AlertRule): RuleForm => ({
+  name: rule.name,
+  kind: rule.kind,
+  threshold: String(rule.threshold),
+  priority_support: rule.priority_support || '',
+  channels: rule.channels
+});
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+});
+
+// Deliveries that didn't get through, e.g. "Email" with the error as a tooltip
+const FailedDeliveries: React.FC<{ alert: Alert }> = ({ alert }) => {
+  const failed = alert.deliveries.filter(delivery => !delivery.ok);
+  if (failed.length === 0) {
+    return null;
+  }
+  return (
+    <span className="schedule-last-error" title={failed.map(delivery => `${NOTIFIER_CHANNEL_LABELS[delivery.channel]}: ${delivery.error}`).join('\n')}>
+      {' '}(not delivered: {Array.from(new Set(failed.map(delivery => NOTIFIER_CHANNEL_LABELS[delivery.channel]))).join(', ')})
+    </span>
+  );
+};
+
+const AlertsPage: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('manage_alerts');
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [channels, setChannels] = useState<NotifierChannel[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    const response = await apiFetch('/alert-rules');
+    if (!response.ok) {
+      throw new Error(`Failed to load alert rules: ${response.status}`);
+    }
+    const result = await response.json();
+    setRules(Array.isArray(result.rules) ? result.rules : []);
+    setChannels(Array.isArray(result.channels) ? result.channels : []);
+  }, []);
+
+  const loadAlerts = useCallback(async () => {
+    const response = await apiFetch('/alerts');
+    if (!response.ok) {
+      throw new Error(`Failed to load alerts: ${response.status}`);
+    }
+    const result = await response.json();
+    setAlerts(Array.isArray(result.alerts) ? result.alerts : []);
+  }, []);
+
+  const loadAll = useCallback(async () => {
+    setError(null);
+    try {
+      await Promise.all([loadRules(), loadAlerts()]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadRules, loadAlerts]);
+
+  useEffect(() => {
+    loadAll();
+  }, [loadAll]);
+
+  // Alerts open and resolve as the server checks the rules
+  useServerEvent('alert', () => {
+    loadAlerts().catch(err => console.error('Error reloading alerts:', err));
+  });
+
+  const handleFormChange = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleKindChange = (kind: AlertRuleKind) => {
+    setForm(prev => ({ ...prev, kind, threshold: kind === 'stale_backup' ? '14' : '30' }));
+  };
+
+  const toggleChannel = (channel: NotifierChannel) => {
+    setForm(prev => ({
+      ...prev,
+      channels: prev.channels.includes(channel)
+        ? prev.channels.filter(existing => existing !== channel)
+        : [...prev.channels, channel]
+    }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const payload = {
+      name: form.name,
+      kind: form.kind,
+      threshold: Number(form.threshold),
+      priority_support: form.priority_support || null,
+      channels: form.channels
+    };
+
+    try {
+      const response = editingId
+        ? await apiFetch(`/alert-rules/${editingId}`, jsonRequest('PUT', payload))
+        : await apiFetch('/alert-rules', jsonRequest('POST', payload));
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setFormError(result.error || 'Failed to save alert rule');
+        return;
+      }
+
+      resetForm();
+      loadRules();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (rule: AlertRule) => {
+    const response = await apiFetch(`/alert-rules/${rule.id}`, jsonRequest('PUT', { enabled: !rule.enabled }));
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      window.alert(result.error || 'Failed to update alert rule');
+    }
+    loadRules();
+  };
+
+  const testRule = async (rule: AlertRule) => {
+    const response = await apiFetch(`/alert-rules/${rule.id}/test`, { method: 'POST' });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      window.alert(result.error || 'Failed to send test notification');
+      return;
+    }
+    const failed = (result.deliveries || []).filter((delivery: { ok: boolean }) => !delivery.ok);
+    window.alert(failed.length === 0
+      ? `Test notification sent to ${rule.channels.map(channel => NOTIFIER_CHANNEL_LABELS[channel]).join(', ')}`
+      : `Not delivered:\n${failed.map((delivery: { channel: NotifierChannel; error: string }) => `${NOTIFIER_CHANNEL_LABELS[delivery.channel]}: ${delivery.error}`).join('\n')}`);
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the alert rule "${rule.name}" and its alerts?`)) {
+      return;
+    }
+    const response = await apiFetch(`/alert-rules/${rule.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      window.alert(result.error || 'Failed to delete alert rule');
+    }
+    if (editingId === rule.id) {
+      resetForm();
+    }
+    loadAll();
+  };
+
+  const checkNow = async () => {
+    setChecking(true);
+    try {
+      const response = await apiFetch('/alerts/check', { method: 'POST' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        window.alert(result.error || 'Failed to check alert rules');
+      }
+      await loadAlerts();
+    } catch (err: unknown) {
+      console.error('Error checking alert rules:', err);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const startEditing = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+    setFormError(null);
+  };
+
+  const openAlerts = alerts.filter(alert => !alert.resolvedAt);
+  const resolvedAlerts = alerts.filter(alert => alert.resolvedAt);
+  const kindDetails = ALERT_RULE_KIND_DETAILS[form.kind];
+
+  if (loading) {
+    return (
+      <div className="loading-section">
+        <div className="loading-spinner"></div>
+        <span>Loading alerts...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="error-section">
+        <span className="error-message">{error}</span>
+        <button onClick={loadAll} className="retry-button">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="schedules-page">
+      <section className="alerts-section">
+        <div className="alerts-section-header">
+          <h3>Open alerts</h3>
+          {canManage && (
+            <button className="secondary-button" onClick={checkNow} disabled={checking}>
+              {checking ? 'Checking...' : 'Check now'}
+            </button>
+          )}
+        </div>
+        {openAlerts.length === 0 ? (
+          <div className="no-data">Nothing needs attention</div>
+        ) : (
+          <div className="report-table-wrapper">
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Customer</th>
+                  <th>Rule</th>
+                  <th>What</th>
+                  <th>Since</th>
+                </tr>
+              </thead>
+              <tbody>
+                {openAlerts.map(alert => (
+                  <tr key={alert.id}>
+                    <td><Link to={`/customers/${alert.customerId}`}>{alert.customerName}</Link> #{alert.customerId}</td>
+                    <td>{alert.ruleName}</td>
+                    <td className="alert-message">
+                      {alert.message}
+                      <FailedDeliveries alert={alert} />
+                    </td>
+                    <td>{formatTimestamp(alert.openedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="alerts-section">
+        <h3>Rules</h3>
+        {canManage && (
+          <form className="schedule-form" onSubmit={handleSubmit}>
+            <div className="schedule-form-fields">
+              <input
+                className="search-input"
+                placeholder="Rule name"
+                value={form.name}
+                onChange={(e) => handleFormChange('name', e.target.value)}
+                required
+              />
+              <select
+                className="filter-select"
+                value={form.kind}
+                onChange={(e) => handleKindChange(e.target.value as AlertRuleKind)}
+              >
+                {ALERT_RULE_KINDS.map(kind => (
+                  <option key={kind} value={kind}>{ALERT_RULE_KIND_DETAILS[kind].label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                className="search-input alert-threshold"
+                aria-label={`Threshold in ${kindDetails.unit}`}
+                min={kindDetails.min}
+                max={kindDetails.max}
+                value={form.threshold}
+                onChange={(e) => handleFormChange('threshold', e.target.value)}
+                required
+              />
+              <span>{kindDetails.unit}</span>
+              <select
+                className="filter-select"
+                aria-label="Support tier"
+                value={form.priority_support}
+                onChange={(e) => handleFormChange('priority_support', e.target.value)}
+              >
+                <option value="">Every tier</option>
+                <option value="Enterprise">Enterprise</option>
+                <option value="Standard">Standard</option>
+                <option value="Lite">Lite</option>
+              </select>
+              {NOTIFIER_CHANNELS.map(channel => (
+                <label key={channel} className="alert-channel" title={channels.includes(channel) ? undefined : 'Not configured on the server'}>
+                  <input
+                    type="checkbox"
+                    checked={form.channels.includes(channel)}
+                    onChange={() => toggleChannel(channel)}
+                  />
+                  {NOTIFIER_CHANNEL_LABELS[channel]}
+                </label>
+              ))}
+              <button type="submit" className="retry-button" disabled={saving || form.channels.length === 0}>
+                {saving ? 'Saving...' : editingId ? 'Save' : 'Add rule'}
+              </button>
+              {editingId && (
+                <button type="button" className="secondary-button" onClick={resetForm}>
+                  Cancel
+                </button>
+              )}
+            </div>
+            <span className="schedule-form-hint">
+              {channels.length > 0
+                ? `Configured on the server: ${channels.map(channel => NOTIFIER_CHANNEL_LABELS[channel]).join(', ')}.`
+                : 'No notification channels are configured on the server yet.'}
+              {' '}A failed or timed-out pull alerts straight away; one still running alerts after the threshold.
+            </span>
+            {formError && <span className="error-message">{formError}</span>}
+          </form>
+        )}
+        {rules.length === 0 ? (
+          <div className="no-data">No alert rules yet</div>
+        ) : (
+          <div className="report-table-wrapper">
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Kind</th>
+                  <th>Checks</th>
+                  <th>Notifies</th>
+                  {canManage && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id} className={rule.enabled ? '' : 'schedule-paused'}>
+                    <td>{rule.name}</td>
+                    <td>{KIND_LABELS[rule.kind]}</td>
+                    <td>{describeAlertRule(rule)}{rule.enabled ? '' : ' (off)'}</td>
+                    <td>{rule.channels.map(channel => NOTIFIER_CHANNEL_LABELS[channel]).join(', ')}</td>
+                    {canManage && (
+                      <td className="schedule-actions">
+                        <button className="secondary-button" onClick={() => toggleEnabled(rule)}>
+                          {rule.enabled ? 'Turn off' : 'Turn on'}
+                        </button>
+                        <button className="secondary-button" onClick={() => testRule(rule)}>
+                          Test
+                        </button>
+                        <button className="secondary-button" onClick={() => startEditing(rule)}>
+                          Edit
+                        </button>
+                        <button className="secondary-button" onClick={() => deleteRule(rule)}>
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {resolvedAlerts.length > 0 && (
+        <section className="alerts-section">
+          <h3>Recently resolved</h3>
+          <div className="report-table-wrapper">
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Customer</th>
+                  <th>Rule</th>
+                  <th>What</th>
+                  <th>Opened</th>
+                  <th>Resolved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {resolvedAlerts.map(alert => (
+                  <tr key={alert.id}>
+                    <td><Link to={`/customers/${alert.customerId}`}>{alert.customerName}</Link> #{alert.customerId}</td>
+                    <td>{alert.ruleName}</td>
+                    <td className="alert-message">{alert.message}</td>
+                    <td>{formatTimestamp(alert.openedAt)}</td>
+                    <td>{formatTimestamp(alert.resolvedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPage;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiBaseUrl, apiFetch } from '../api';
+
+interface AuditEntry {
+  id: number;
+  occurredAt: string;
+  actor: string | null;
+  action: string;
+  outcome: 'success' | 'failure' | 'denied';
+  customerId: string | null;
+  domain: string | null;
+  ip: string | null;
+  details: Record<string, unknown> | null;
+}
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  outcome: string;
+  customerId: string;
+  domain: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  actor: '',
+  action: '',
+  outcome: '',
+  customerId: '',
+  domain: '',
+  from: '',
+  to: ''
+};
+
+const ACTIONS = [
+  'login',
+  'logout',
+  'record_pull',
+  'backup_request',
+  'backup_finished',
+  'backup_cancel',
+  'schedule_create',
+  'schedule_update',
+  'schedule_delete',
+  'open_environment',
+  'validate_environment',
+  'validate_link',
+  'resident_db_create',
+  'resident_db_update',
+  'resident_db_delete',
+  'config_update',
+  'alert_rule_create',
+  'alert_rule_update',
+  'alert_rule_delete',
+  'export_audit'
+];
+
+const PAGE_SIZE = 50;
+
+// Date inputs give us local calendar days; widen them to the whole day in UTC
+// so "to" includes everything that happened on that date.
+const buildQuery = (filters: AuditFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (!value) {
+      return;
+    }
+    if (key === 'from') {
+      params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    } else if (key === 'to') {
+      params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    } else {
+      params.set(key, value.trim());
+    }
+  });
+
+  return params;
+};
+
+const formatTimestamp = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+};
+
+const AuditPage: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = buildQuery(appliedFilters);
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await apiFetch(`/audit?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load audit log: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setEntries(Array.isArray(result.entries) ? result.entries : []);
+      setTotal(result.total || 0);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleFilterChange = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const exportUrl = `${apiBaseUrl}/audit/export?${buildQuery(appliedFilters).toString()}`;
+
+  return (
+    <div className="audit-page">
+      <form className="audit-filters" onSubmit={handleSearch}>
+        <input
+          className="search-input"
+          placeholder="User"
+          value={filters.actor}
+          onChange={(e) => handleFilterChange('actor', e.target.value)}
+        />
+        <select
+          className="filter-select"
+          value={filters.action}
+          onChange={(e) => handleFilterChange('action', e.target.value)}
+        >
+          <option value="">All actions</option>
+          {ACTIONS.map(action => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select
+          className="filter-select"
+          value={filters.outcome}
+          onChange={(e) => handleFilterChange('outcome', e.target.value)}
+        >
+          <option value="">All outcomes</option>
+          <option value="success">Success</option>
+          <option value="failure">Failure</option>
+          <option value="denied">Denied</option>
+        </select>
+        <input
+          className="search-input"
+          placeholder="Customer ID"
+          value={filters.customerId}
+          onChange={(e) => handleFilterChange('customerId', e.target.value)}
+        />
+        <input
+          className="search-input"
+          placeholder="Domain"
+          value={filters.domain}
+          onChange={(e) => handleFilterChange('domain', e.target.value)}
+        />
+        <label className="audit-date">
+          From
+          <input
+            type="date"
+            className="search-input"
+            value={filters.from}
+            onChange={(e) => handleFilterChange('from', e.target.value)}
+          />
+        </label>
+        <label className="audit-date">
+          To
+          <input
+            type="date"
+            className="search-input"
+            value={filters.to}
+            onChange={(e) => handleFilterChange('to', e.target.value)}
+          />
+        </label>
+        <div className="audit-filter-actions">
+          <button type="submit" className="retry-button">Search</button>
+          <button type="button" className="secondary-button" onClick={handleReset}>Reset</button>
+          <a className="secondary-button" href={exportUrl}>Export CSV</a>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="loading-section">
+          <div className="loading-spinner"></div>
+          <span>Loading audit log...</span>
+        </div>
+      ) : error ? (
+        <div className="error-section">
+          <span className="error-message">{error}</span>
+          <button onClick={loadEntries} className="retry-button">
+            Retry
+          </button>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="no-data">No audit entries match these filters</div>
+      ) : (
+        <>
+          <div className="report-table-wrapper">
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>User</th>
+                  <th>Action</th>
+                  <th>Outcome</th>
+                  <th>Customer</th>
+                  <th>Domain</th>
+                  <th>IP</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    <td>{formatTimestamp(entry.occurredAt)}</td>
+                    <td>{entry.actor || '—'}</td>
+                    <td>{entry.action}</td>
+                    <td>
+                      <span className={`audit-outcome ${entry.outcome}`}>{entry.outcome}</span>
+                    </td>
+                    <td>{entry.customerId || '—'}</td>
+                    <td>{entry.domain || '—'}</td>
+                    <td>{entry.ip || '—'}</td>
+                    <td className="audit-details">{entry.details ? JSON.stringify(entry.details) : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="audit-pagination">
+            <button
+              className="secondary-button"
+              disabled={page <= 1}
+              onClick={() => setPage(prev => prev - 1)}
+            >
+              Previous
+            </button>
+            <span>Page {page} of {totalPages} ({total} entries)</span>
+            <button
+              className="secondary-button"
+              disabled={page >= totalPages}
+              onClick={() => setPage(prev => prev + 1)}
+            >
+              Next
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AuditPage;
@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { apiBaseUrl, apiClient, apiFetch } from '../api';
+import { useAuth } from '../hooks/useAuth';
+import { useServerEvent } from '../hooks/useServerEvent';
+import { getConfig } from '../config/config-loader';
+import { PULL_STATE_LABELS, formatDuration } from '../pullHistory';
+import type { PullHistoryEntry } from '../pullHistory';
+import { describeCadence } from '../schedules';
+import type { Schedule } from '../schedules';
+import {
+  ENVIRONMENT_REASON_LABELS,
+  ENVIRONMENT_STATE_LABELS,
+  HOSTING_TYPE_LABELS,
+  getHostingType,
+  getTotalUsers,
+  isFlagSet
+} from '../../shared/customer';
+import type { CustomerDetail, EnvironmentStatus } from '../../shared/customer';
+import { normalizePrioritySupport } from '../../shared/customer-query';
+
+// Environment changes and pulls, merged newest first
+type TimelineEntry =
+  | { at: string; kind: 'environment'; environment: EnvironmentStatus }
+  | { at: string; kind: 'pull'; pull: PullHistoryEntry };
+
+interface CustomerEvent {
+  customerId: string | number;
+}
+
+const formatTimestamp = (timestamp: string | null): string => {
+  if (!timestamp) {
+    return '—';
+  }
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const formatField = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const hasDomain = (domain: string | null | undefined): domain is string =>
+  typeof domain === 'string' && domain.trim() !== '' && domain !== 'undefined';
+
+const EnvironmentSummary: React.FC<{ environment: EnvironmentStatus }> = ({ environment }) => (
+  <dl className="history-entry-details">
+    <dt>Status</dt>
+    <dd>
+      <span className={`environment-state ${environment.state}`}>{ENVIRONMENT_STATE_LABELS[environment.state]}</span>
+      {' '}– {ENVIRONMENT_REASON_LABELS[environment.reason]}
+    </dd>
+    {environment.probeUrl && (
+      <>
+        <dt>Probe</dt>
+        <dd>{environment.httpStatus ? `HTTP ${environment.httpStatus}` : 'No answer'} from {environment.probeUrl}</dd>
+      </>
+    )}
+    {environment.detail && (
+      <>
+        <dt>Detail</dt>
+        <dd>{environment.detail}</dd>
+      </>
+    )}
+    <dt>Checked</dt>
+    <dd>{environment.checkedAt ? formatTimestamp(environment.checkedAt) : 'Follows from the customer record'}</dd>
+  </dl>
+);
+
+// One customer in full: the CETEC record, the resident DB mapping, the devel
+// environment now and how it got there, pulls and schedules, and links to
+// every environment
+const CustomerDetailPage: React.FC = () => {
+  const { id = '' } = useParams();
+  const { can } = useAuth();
+  const [detail, setDetail] = useState<CustomerDetail | null>(null);
+  const [pulls, setPulls] = useState<PullHistoryEntry[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/customers/${encodeURIComponent(id)}`);
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to load customer: ${response.status}`);
+      }
+      setDetail(result);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load customer');
+    }
+  }, [id]);
+
+  const loadPulls = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/customers/${encodeURIComponent(id)}/pulls`);
+      if (!response.ok) {
+        throw new Error(`Failed to load pull history: ${response.status}`);
+      }
+      const result = await response.json();
+      setPulls(Array.isArray(result.pulls) ? result.pulls : []);
+    } catch (err: unknown) {
+      console.error('Error loading pull history:', err);
+    }
+  }, [id]);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/schedules?customerId=${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load schedules: ${response.status}`);
+      }
+      const result = await response.json();
+      setSchedules(Array.isArray(result.schedules) ? result.schedules : []);
+    } catch (err: unknown) {
+      console.error('Error loading schedules:', err);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([loadDetail(), loadPulls(), loadSchedules()]).finally(() => setLoading(false));
+  }, [loadDetail, loadPulls, loadSchedules]);
+
+  // Sweeps, pulls and schedule changes made anywhere show up here too
+  const isThisCustomer = (event: CustomerEvent) => String(event.customerId) === id;
+
+  useServerEvent<CustomerEvent>('environment', (event) => {
+    if (isThisCustomer(event)) {
+      loadDetail();
+    }
+  });
+
+  useServerEvent<CustomerEvent>('job', (event) => {
+    if (isThisCustomer(event)) {
+      loadPulls();
+    }
+  });
+
+  useServerEvent<CustomerEvent>('pull', (event) => {
+    if (isThisCustomer(event)) {
+      loadDetail();
+      loadPulls();
+    }
+  });
+
+  useServerEvent<CustomerEvent>('schedule', (event) => {
+    if (isThisCustomer(event)) {
+      loadSchedules();
+    }
+  });
+
+  const validateNow = async () => {
+    if (!detail) {
+      return;
+    }
+    const { customer } = detail;
+
+    setValidating(true);
+    try {
+      await apiClient.post('/validate-environment', { customerId: customer.id }, { timeout: getConfig().ui.validationTimeout * 1000 });
+      await loadDetail();
+    } catch (err: unknown) {
+      console.error(`Validation failed for customer ${customer.id}:`, err);
+      window.alert('Could not check the devel environment');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const openEnvironment = (environment: 'devel' | 'test' | 'production') => {
+    window.open(`${apiBaseUrl}/customers/${encodeURIComponent(id)}/open/${environment}`, '_blank', 'noopener,noreferrer');
+  };
+
+  if (loading) {
+    return (
+      <div className="loading-section">
+        <div className="loading-spinner"></div>
+        <span>Loading customer...</span>
+      </div>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <div className="customer-detail">
+        <Link to="/" className="customer-detail-back">← Customers</Link>
+        <div className="error-section">
+          <span className="error-message">{error || 'Customer not found'}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const { customer, fields, residentDatabase, environmentHistory } = detail;
+  const tier = normalizePrioritySupport(customer.priority_support);
+  const isItar = isFlagSet(customer.itar_hosting_bc);
+  const isResident = isFlagSet(customer.resident_hosting);
+  const develAvailable = hasDomain(customer.domain) && !isItar &&
+    (customer.environment.state === 'ready' || customer.environment.state === 'resident_hosting');
+  const testAvailable = hasDomain(customer.domain) &&
+    (isResident ? !customer.domain.includes('.') : Boolean(customer.test_environment) && customer.test_environment !== '0');
+  const canProbe = hasDomain(customer.domain) && !isItar && !isResident;
+
+  const timeline: TimelineEntry[] = [
+    ...environmentHistory
+      .filter(environment => environment.checkedAt)
+      .map((environment): TimelineEntry => ({ at: environment.checkedAt!, kind: 'environment', environment })),
+    ...pulls.map((pull): TimelineEntry => ({ at: pull.requestedAt, kind: 'pull', pull }))
+  ].sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <div className="customer-detail">
+      <Link to="/" className="customer-detail-back">← Customers</Link>
+
+      <div className="customer-detail-header">
+        <h2>{customer.name}</h2>
+        <span className="customer-details">
+          #{customer.id} · {customer.domain || 'no domain'} · {getTotalUsers(customer)} users · {HOSTING_TYPE_LABELS[getHostingType(customer)]}
+        </span>
+        {tier
+          ? <span className={`priority-chip ${tier.toLowerCase()}`}>{tier}</span>
+          : <span className="no-priority">No support tier</span>}
+      </div>
+
+      <div className="customer-detail-links">
+        <button className="devel-button valid" onClick={() => openEnvironment('devel')} disabled={!develAvailable}>
+          Devel ↗
+        </button>
+        {testAvailable && (
+          <button className="test-button" onClick={() => openEnvironment('test')}>
+            Test ↗
+          </button>
+        )}
+        {can('open_production') && customer.has_production_login && (
+          <button className="production-button" onClick={() => openEnvironment('production')}>
+            Production ↗
+          </button>
+        )}
+        <a
+          href={`https://internal.cetecerpbeta.com/react/customer/${customer.id}/view?newversion=1`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="customer-link"
+        >
+          Internal ERP ↗
+        </a>
+      </div>
+
+      <div className="customer-detail-grid">
+        <section className="customer-detail-section">
+          <div className="customer-detail-section-header">
+            <h3>Devel environment</h3>
+            {canProbe && (
+              <button className="secondary-button" onClick={validateNow} disabled={validating}>
+                {validating ? 'Checking...' : 'Check now'}
+              </button>
+            )}
+          </div>
+          <EnvironmentSummary environment={customer.environment} />
+          {isResident && (
+            <p className="schedule-form-hint">
+              {residentDatabase ? `Resident database: ${residentDatabase}` : 'No resident database is mapped for this domain.'}
+            </p>
+          )}
+        </section>
+
+        <section className="customer-detail-section">
+          <h3>Backups</h3>
+          <dl className="history-entry-details">
+            <dt>Last pulled</dt>
+            <dd>{customer.lastPulled ? formatTimestamp(customer.lastPulled) : 'Never pulled'}</dd>
+            <dt>Next scheduled</dt>
+            <dd>{formatTimestamp(customer.nextScheduledPull)}</dd>
+          </dl>
+          {schedules.length === 0 ? (
+            <p className="schedule-form-hint">No schedules. Add one on the <Link to="/schedules">Schedules</Link> page.</p>
+          ) : (
+            <ul className="customer-detail-schedules">
+              {schedules.map(schedule => (
+                <li key={schedule.id}>
+                  {describeCadence(schedule)}
+                  {schedule.paused ? ' (paused)' : ` – next ${formatTimestamp(schedule.nextRunAt)}`}
+                  {schedule.lastStatus === 'failed' && (
+                    <span className="error-message"> Last run failed: {schedule.lastError}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+
+      <section className="customer-detail-section">
+        <h3>Timeline</h3>
+        {timeline.length === 0 ? (
+          <div className="no-data">No environment changes or pulls recorded yet</div>
+        ) : (
+          <ul className="history-list">
+            {timeline.map(entry => (
+              entry.kind === 'pull' ? (
+                <li key={`pull-${entry.pull.jobId}`} className="history-entry">
+                  <div className="history-entry-header">
+                    <span className="history-entry-time">{formatTimestamp(entry.at)}</span>
+                    <span>Pull by {entry.pull.requestedBy || 'unknown'}</span>
+                    <span className={`job-state-chip ${entry.pull.state}`}>
+                      {PULL_STATE_LABELS[entry.pull.state] || entry.pull.state}
+                    </span>
+                  </div>
+                  <dl className="history-entry-details">
+                    <dt>Database</dt>
+                    <dd>{entry.pull.dbname}</dd>
+                    <dt>Duration</dt>
+                    <dd>{formatDuration(entry.pull.durationMs)}</dd>
+                    {(entry.pull.error || entry.pull.requestError) && (
+                      <>
+                        <dt>Error</dt>
+                        <dd className="error-message">{entry.pull.error || entry.pull.requestError}</dd>
+                      </>
+                    )}
+                  </dl>
+                </li>
+              ) : (
+                <li key={`environment-${entry.at}`} className="history-entry">
+                  <div className="history-entry-header">
+                    <span className="history-entry-time">{formatTimestamp(entry.at)}</span>
+                    <span>Environment check</span>
+                  </div>
+                  <EnvironmentSummary environment={entry.environment} />
+                </li>
+              )
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="customer-detail-section">
+        <h3>CETEC record</h3>
+        <table className="report-table customer-detail-fields">
+          <tbody>
+            {Object.entries(fields).sort(([a], [b]) => a.localeCompare(b)).map(([key, value]) => (
+              <tr key={key}>
+                <th scope="row">{key}</th>
+                <td>{formatField(value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default CustomerDetailPage;
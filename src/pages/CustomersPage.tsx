@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import SearchAndFilter from '../components/SearchAndFilter';
+import type { CustomerListQuery } from '../components/SearchAndFilter';
+import DataTable from '../components/DataTable';
+import type { CustomerView } from '../components/DataTable';
+import CustomerChangesBanner from '../components/CustomerChangesBanner';
+import { apiClient } from '../api';
+import { useServerEvent } from '../hooks/useServerEvent';
+import { useConfig } from '../hooks/useConfig';
+import { getConfig } from '../config/config-loader';
+import { changesById, mergeCustomers } from '../customerChanges';
+import { hasChanges } from '../../shared/customer-changes';
+import type { CustomerListDiff } from '../../shared/customer-changes';
+import { CUSTOMER_FILTER_KEYS, DEFAULT_CUSTOMER_SORT, MAX_CUSTOMER_PAGE_SIZE, parseCustomerQuery, toCustomerSearchParams } from '../../shared/customer-query';
+import type { CustomerPage, CustomerSort } from '../../shared/customer-query';
+import type { Customer, EnvironmentStatus } from '../../shared/customer';
+
+interface EnvironmentEvent {
+  customerId: string | number;
+  domain: string | null;
+  environment: EnvironmentStatus;
+}
+
+interface PullEvent {
+  customerId: string | number;
+  lastPulled: string;
+}
+
+interface ScheduleEvent {
+  customerId: string | number;
+  nextScheduledPull: string | null;
+}
+
+type PageInfo = Omit<CustomerPage, 'customers' | 'changes'>;
+
+// The card grid or the table, and the sort last chosen, are kept in this
+// browser so the dashboard opens the way it was left
+const VIEW_STORAGE_KEY = 'customerView';
+const SORT_STORAGE_KEY = 'customerSort';
+
+const loadStoredView = (): CustomerView =>
+  localStorage.getItem(VIEW_STORAGE_KEY) === 'table' ? 'table' : 'cards';
+
+const loadStoredSort = (): CustomerSort => {
+  try {
+    const { sort, order } = parseCustomerQuery(JSON.parse(localStorage.getItem(SORT_STORAGE_KEY) || '{}'), { pageSize: 1 });
+    return { sort, order };
+  } catch {
+    return DEFAULT_CUSTOMER_SORT;
+  }
+};
+
+// Oldest pull first, never pulled leading and the biggest customers first
+// among equals: which big customers haven't had a devel copy in months
+const STALEST_FIRST: CustomerSort = { sort: 'lastPulled', order: 'asc' };
+
+// The search, filters, sort and page live in the address bar, so a link or
+// a reload brings back the same list. A plain link gets the sort last used
+// here, and the first page is left out.
+const readListParams = (params: URLSearchParams): { query: CustomerListQuery; page: number } => {
+  const parsed = parseCustomerQuery(Object.fromEntries(params), { pageSize: 1 });
+  const query: CustomerListQuery = params.has('sort') ? { sort: parsed.sort, order: parsed.order } : loadStoredSort();
+  CUSTOMER_FILTER_KEYS.forEach(key => {
+    if (parsed[key]) {
+      query[key] = parsed[key];
+    }
+  });
+  return { query, page: parsed.page };
+};
+
+const toListParams = (query: CustomerListQuery, page: number): URLSearchParams =>
+  toCustomerSearchParams({ ...query, page: page > 1 ? page : undefined });
+
+const describeLoadError = (err: unknown): string => {
+  let errorMessage = 'An error occurred during backup';
+
+  if (err instanceof Error) {
+    errorMessage = err.message;
+  }
+
+  if (err && typeof err === 'object' && 'code' in err) {
+    if (err.code === 'ECONNABORTED') {
+      errorMessage = 'Request timed out. Please check your network connection and try again.';
+    }
+  }
+
+  if (err && typeof err === 'object' && 'response' in err && err.response && typeof err.response === 'object' && 'status' in err.response) {
+    if (err.response.status === 500) {
+      errorMessage = 'Server error occurred. Please try again.';
+    }
+  }
+
+  if (err && typeof err === 'object' && 'message' in err && typeof err.message === 'string' && err.message.includes('Network Error')) {
+    errorMessage = 'Network error. Please check your connection and try again.';
+  }
+
+  return errorMessage;
+};
+
+const CustomersPage: React.FC = () => {
+  // The page of customers on screen; the server searches, filters, sorts
+  // and pages the list
+  const [data, setData] = useState<Customer[]>([]);
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const listParams = searchParams.toString();
+  const { query, page } = useMemo(() => readListParams(new URLSearchParams(listParams)), [listParams]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeValidations, setActiveValidations] = useState<Set<string>>(new Set());
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [listChanges, setListChanges] = useState<{ diff: CustomerListDiff; detectedAt: Date } | null>(null);
+  const [view, setView] = useState<CustomerView>(loadStoredView);
+  const { config } = useConfig();
+  const refreshInterval = config.ui.refreshInterval;
+  const pageSize = config.ui.tablePageSize;
+
+  const cardChanges = useMemo(() => changesById(listChanges?.diff ?? null), [listChanges]);
+
+  const updateCustomer = useCallback((customerId: string | number, changes: Partial<Customer>) => {
+    const applyChanges = (customers: Customer[]) => customers.map(customer =>
+      String(customer.id) === String(customerId) ? { ...customer, ...changes } : customer
+    );
+    setData(applyChanges);
+  }, []);
+
+  // The server validates every environment in the background; this is only
+  // for someone who wants a fresh answer for one customer right now.
+  const validateCustomer = useCallback(async (customer: Customer) => {
+    const customerId = String(customer.id);
+    setActiveValidations(prev => new Set(prev).add(customerId));
+
+    try {
+      const response = await apiClient.post('/validate-environment', { customerId: customer.id }, { timeout: getConfig().ui.validationTimeout * 1000 });
+
+      if (response.data.success) {
+        updateCustomer(customer.id, { environment: response.data.environment });
+      }
+    } catch (error) {
+      console.error(`Validation failed for customer ${customerId}:`, error);
+    } finally {
+      setActiveValidations(prev => {
+        const newActive = new Set(prev);
+        newActive.delete(customerId);
+        return newActive;
+      });
+    }
+  }, [updateCustomer]);
+
+  const hasLoadedRef = useRef(false);
+  const latestRequestRef = useRef(0);
+  const listVersionRef = useRef<string | null>(null);
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const pageRef = useRef(page);
+  pageRef.current = page;
+
+  // The first load shows the spinner. Later ones keep the cards on screen
+  // and merge into them, so validations, running pulls and selections carry
+  // on. A refresh (by hand or on the refresh interval) has the server reload
+  // the list from CETEC and say what changed since the list this tab saw.
+  const loadCustomers = useCallback(async ({ refresh = false }: { refresh?: boolean } = {}) => {
+    const requestId = ++latestRequestRef.current;
+    const initialLoad = !hasLoadedRef.current;
+    if (initialLoad) {
+      setLoading(true);
+      setError(null);
+    } else {
+      setRefreshing(true);
+    }
+
+    try {
+      const params = toCustomerSearchParams({ ...queryRef.current, page: pageRef.current, pageSize: getConfig().ui.tablePageSize });
+      if (refresh) {
+        params.set('refresh', 'true');
+        if (listVersionRef.current) {
+          params.set('since', listVersionRef.current);
+        }
+      }
+
+      const response = await apiClient.get<CustomerPage>('/customers', { params, timeout: getConfig().ui.requestTimeout * 1000 });
+
+      // Typing in the search box can leave older pages still on their way
+      if (requestId !== latestRequestRef.current) {
+        return;
+      }
+
+      if (!response.data || !Array.isArray(response.data.customers)) {
+        console.error('Unexpected API response format:', response.data);
+        throw new Error('API returned unexpected data format');
+      }
+
+      const { customers, changes, ...info } = response.data;
+      setData(prev => (initialLoad ? customers : mergeCustomers(prev, customers)));
+      setPageInfo(info);
+      // A page past the end (an old link, a shorter list) is shown as the
+      // last page the server clamped it to
+      if (info.page !== pageRef.current) {
+        setSearchParams(toListParams(queryRef.current, info.page), { replace: true });
+      }
+      listVersionRef.current = info.listVersion;
+      if (changes && hasChanges(changes)) {
+        setListChanges({ diff: changes, detectedAt: new Date() });
+      }
+
+      hasLoadedRef.current = true;
+      setRefreshError(null);
+    } catch (err: unknown) {
+      if (requestId !== latestRequestRef.current) {
+        return;
+      }
+      const errorMessage = describeLoadError(err);
+      if (initialLoad) {
+        setError(errorMessage);
+      } else {
+        setRefreshError(errorMessage);
+      }
+    } finally {
+      if (requestId === latestRequestRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, [setSearchParams]);
+
+  const refreshCustomers = useCallback(() => loadCustomers({ refresh: true }), [loadCustomers]);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [query, page, pageSize, loadCustomers]);
+
+  // A hidden tab skips its reloads and catches up on the first tick after
+  // it is shown again
+  useEffect(() => {
+    if (refreshInterval <= 0) {
+      return;
+    }
+    const timer = setInterval(() => {
+      if (!document.hidden) {
+        refreshCustomers();
+      }
+    }, refreshInterval * 1000);
+    return () => clearInterval(timer);
+  }, [refreshInterval, refreshCustomers]);
+
+  // Filter changes replace the history entry rather than adding one per
+  // keystroke; paging adds one, so Back returns to the previous page
+  const handleQueryChange = useCallback((next: CustomerListQuery) => {
+    setSearchParams(toListParams(next, 1), { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    localStorage.setItem(VIEW_STORAGE_KEY, view);
+  }, [view]);
+
+  useEffect(() => {
+    localStorage.setItem(SORT_STORAGE_KEY, JSON.stringify({ sort: query.sort, order: query.order }));
+  }, [query.sort, query.order]);
+
+  const handleSortChange = (sort: CustomerSort) => handleQueryChange({ ...query, ...sort });
+
+  // Every customer that matches, page by page, for an export
+  const loadMatches = useCallback(async () => {
+    const matches: Customer[] = [];
+    for (let matchPage = 1; ; matchPage++) {
+      const params = toCustomerSearchParams({ ...queryRef.current, page: matchPage, pageSize: MAX_CUSTOMER_PAGE_SIZE });
+      const response = await apiClient.get<CustomerPage>('/customers', { params, timeout: getConfig().ui.requestTimeout * 1000 });
+      matches.push(...response.data.customers);
+      if (matches.length >= response.data.total || response.data.customers.length === 0) {
+        return matches;
+      }
+    }
+  }, []);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams(toListParams(query, nextPage));
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleTimestampUpdate = (customerId: string, timestamp: string) => {
+    updateCustomer(customerId, { lastPulled: timestamp });
+  };
+
+  // The server's validation sweep, job checks and other tabs publish
+  // environment and pull updates, so every open dashboard stays current
+  // without polling.
+  useServerEvent<EnvironmentEvent>('environment', (event) => {
+    updateCustomer(event.customerId, { environment: event.environment });
+  });
+
+  useServerEvent<PullEvent>('pull', (event) => {
+    updateCustomer(event.customerId, { lastPulled: event.lastPulled });
+  });
+
+  useServerEvent<ScheduleEvent>('schedule', (event) => {
+    updateCustomer(event.customerId, { nextScheduledPull: event.nextScheduledPull });
+  });
+
+  const totalPages = pageInfo ? Math.max(1, Math.ceil(pageInfo.total / pageInfo.pageSize)) : 1;
+
+  return (
+    <>
+      <div className="combined-header-section">
+        {loading ? (
+          <div className="loading-section">
+            <div className="loading-spinner"></div>
+            <span>Loading customer data...</span>
+          </div>
+        ) : error ? (
+          <div className="error-section">
+            <span className="error-message">{error}</span>
+            <button onClick={() => loadCustomers()} className="retry-button">
+              Retry
+            </button>
+          </div>
+        ) : (
+          <>
+            {pageInfo && (
+              <SearchAndFilter
+                query={query}
+                onQueryChange={handleQueryChange}
+                facets={pageInfo.facets}
+                matchCount={pageInfo.total}
+                loadMatches={loadMatches}
+                onRefresh={refreshCustomers}
+                loading={refreshing}
+              />
+            )}
+
+            {refreshError && (
+              <div className="refresh-error">
+                <span className="error-message">Could not refresh the customer list: {refreshError}</span>
+              </div>
+            )}
+
+            {listChanges && (
+              <CustomerChangesBanner
+                changes={listChanges.diff}
+                detectedAt={listChanges.detectedAt}
+                onDismiss={() => setListChanges(null)}
+              />
+            )}
+            
+            {/* Summary Statistics Section */}
+            {pageInfo && (
+              <div className="summary-section">
+                <div className="summary-item">
+                  <span className="summary-label">Total Customers:</span>
+                  <span className="summary-value">{pageInfo.totalCustomers}</span>
+                </div>
+                <div className="summary-item">
+                  <span className="summary-label">Resident Hosting:</span>
+                  <span className="summary-value success">{pageInfo.summary.residentHosting}</span>
+                </div>
+                <div className="summary-item">
+                  <span className="summary-label">ITAR Hosting:</span>
+                  <span className="summary-value">{pageInfo.summary.itarHosting}</span>
+                </div>
+                <div className="summary-item">
+                  <span className="summary-label">Priority Support:</span>
+                  <div className="priority-chips">
+                    <span className="priority-chip lite">{pageInfo.summary.tiers.lite}</span>
+                    <span className="priority-chip standard">{pageInfo.summary.tiers.standard}</span>
+                    <span className="priority-chip enterprise">{pageInfo.summary.tiers.enterprise}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {!loading && !error && data && (
+        <div className="view-toolbar">
+          <div className="view-switch" role="group" aria-label="Layout">
+            <button
+              type="button"
+              className={view === 'cards' ? 'active' : ''}
+              aria-pressed={view === 'cards'}
+              onClick={() => setView('cards')}
+            >
+              Cards
+            </button>
+            <button
+              type="button"
+              className={view === 'table' ? 'active' : ''}
+              aria-pressed={view === 'table'}
+              onClick={() => setView('table')}
+            >
+              Table
+            </button>
+          </div>
+          <button
+            type="button"
+            className="secondary-button"
+            onClick={() => handleSortChange(STALEST_FIRST)}
+            disabled={query.sort === STALEST_FIRST.sort && query.order === STALEST_FIRST.order}
+            title="Customers never pulled first, then the oldest pulls; bigger customers first among equals"
+          >
+            Stalest first
+          </button>
+        </div>
+      )}
+
+      {!loading && !error && data && (
+        <DataTable 
+          data={data} 
+          onTimestampUpdate={handleTimestampUpdate}
+          onValidate={validateCustomer}
+          activeValidations={activeValidations}
+          changes={cardChanges}
+          view={view}
+          sort={query}
+          onSortChange={handleSortChange}
+        />
+      )}
+
+      {!loading && !error && pageInfo && totalPages > 1 && (
+        <div className="customer-pagination">
+          <button
+            className="secondary-button"
+            disabled={page <= 1}
+            onClick={() => goToPage(page - 1)}
+          >
+            Previous
+          </button>
+          <span>Page {page} of {totalPages} ({pageInfo.total} customers)</span>
+          <button
+            className="secondary-button"
+            disabled={page >= totalPages}
+            onClick={() => goToPage(page + 1)}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default CustomersPage;
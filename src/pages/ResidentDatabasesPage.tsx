@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '../api';
+
+interface ResidentDatabaseMapping {
+  domain: string;
+  database: string;
+}
+
+const EMPTY_FORM: ResidentDatabaseMapping = {
+  domain: '',
+  database: ''
+};
+
+const ResidentDatabasesPage: React.FC = () => {
+  const [mappings, setMappings] = useState<ResidentDatabaseMapping[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ResidentDatabaseMapping>(EMPTY_FORM);
+  const [editingDomain, setEditingDomain] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadMappings = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await apiFetch('/resident-databases');
+      if (!response.ok) {
+        throw new Error(`Failed to load resident DB mappings: ${response.status}`);
+      }
+      const result = await response.json();
+      setMappings(Array.isArray(result.mappings) ? result.mappings : []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load resident DB mappings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  const handleFormChange = (key: keyof ResidentDatabaseMapping, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingDomain(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    try {
+      const response = editingDomain
+        ? await apiFetch(`/resident-databases/${encodeURIComponent(editingDomain)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ database: form.database })
+        })
+        : await apiFetch('/resident-databases', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(form)
+        });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setFormError(result.error || 'Failed to save resident DB mapping');
+        return;
+      }
+
+      resetForm();
+      loadMappings();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save resident DB mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteMapping = async (mapping: ResidentDatabaseMapping) => {
+    if (!window.confirm(`Remove the ${mapping.database} database for ${mapping.domain}? Backups for that customer will be blocked until it is mapped again.`)) {
+      return;
+    }
+    const response = await apiFetch(`/resident-databases/${encodeURIComponent(mapping.domain)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      window.alert(result.error || 'Failed to delete resident DB mapping');
+    }
+    if (editingDomain === mapping.domain) {
+      resetForm();
+    }
+    loadMappings();
+  };
+
+  const startEditing = (mapping: ResidentDatabaseMapping) => {
+    setEditingDomain(mapping.domain);
+    setForm(mapping);
+    setFormError(null);
+  };
+
+  return (
+    <div className="resident-dbs-page">
+      <form className="schedule-form" onSubmit={handleSubmit}>
+        <h3>{editingDomain ? `Edit ${editingDomain}` : 'New resident DB mapping'}</h3>
+        <div className="schedule-form-fields">
+          <input
+            className="search-input"
+            placeholder="Customer domain, e.g. wayne"
+            value={form.domain}
+            onChange={(e) => handleFormChange('domain', e.target.value)}
+            disabled={Boolean(editingDomain)}
+            required
+          />
+          <input
+            className="search-input"
+            placeholder="Database name"
+            value={form.database}
+            onChange={(e) => handleFormChange('database', e.target.value)}
+            required
+          />
+          <button type="submit" className="retry-button" disabled={saving}>
+            {saving ? 'Saving...' : editingDomain ? 'Save' : 'Add mapping'}
+          </button>
+          {editingDomain && (
+            <button type="button" className="secondary-button" onClick={resetForm}>
+              Cancel
+            </button>
+          )}
+        </div>
+        <span className="schedule-form-hint">
+          Domains match regardless of case. Changes apply immediately; no restart needed.
+        </span>
+        {formError && <span className="error-message">{formError}</span>}
+      </form>
+
+      {loading ? (
+        <div className="loading-section">
+          <div className="loading-spinner"></div>
+          <span>Loading resident DB mappings...</span>
+        </div>
+      ) : error ? (
+        <div className="error-section">
+          <span className="error-message">{error}</span>
+          <button onClick={loadMappings} className="retry-button">
+            Retry
+          </button>
+        </div>
+      ) : mappings.length === 0 ? (
+        <div className="no-data">No resident DB mappings yet</div>
+      ) : (
+        <div className="report-table-wrapper">
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Domain</th>
+                <th>Database</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {mappings.map(mapping => (
+                <tr key={mapping.domain}>
+                  <td>{mapping.domain}</td>
+                  <td>{mapping.database}</td>
+                  <td className="schedule-actions">
+                    <button className="secondary-button" onClick={() => startEditing(mapping)}>
+                      Edit
+                    </button>
+                    <button className="secondary-button" onClick={() => deleteMapping(mapping)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResidentDatabasesPage;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { apiClient, apiFetch } from '../api';
+import { useAuth } from '../hooks/useAuth';
+import { useServerEvent } from '../hooks/useServerEvent';
+import { getConfig } from '../config/config-loader';
+import { DAYS, describeCadence } from '../schedules';
+import type { Frequency, Schedule } from '../schedules';
+
+interface CustomerOption {
+  id: string | number;
+  name: string;
+}
+
+interface ScheduleForm {
+  customerId: string;
+  frequency: Frequency;
+  time: string;
+  dayOfWeek: string;
+  cron: string;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  customerId: '',
+  frequency: 'weekly',
+  time: '06:00',
+  dayOfWeek: '1',
+  cron: ''
+};
+
+const formatTimestamp = (timestamp: string | null): string => {
+  if (!timestamp) {
+    return '—';
+  }
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const toForm = (schedule: Schedule): ScheduleForm => ({
+  customerId: String(schedule.customerId),
+  frequency: schedule.frequency,
+  time: schedule.time || '06:00',
+  dayOfWeek: String(schedule.dayOfWeek ?? 1),
+  cron: schedule.frequency === 'cron' ? schedule.cron : ''
+});
+
+const SchedulesPage: React.FC = () => {
+  const { can } = useAuth();
+  const canManage = can('pull_backup');
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await apiFetch('/schedules');
+      if (!response.ok) {
+        throw new Error(`Failed to load schedules: ${response.status}`);
+      }
+      const result = await response.json();
+      setSchedules(Array.isArray(result.schedules) ? result.schedules : []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  // Customer names for the picker; only needed by people who can add schedules
+  useEffect(() => {
+    if (!canManage) {
+      return;
+    }
+    apiClient.get('/cetec/customer', { timeout: getConfig().ui.requestTimeout * 1000 })
+      .then(response => {
+        const list: CustomerOption[] = Array.isArray(response.data?.customers) ? response.data.customers : [];
+        setCustomers(list
+          .map(customer => ({ id: customer.id, name: customer.name }))
+          .sort((a, b) => (a.name || '').localeCompare(b.name || '')));
+      })
+      .catch(err => console.error('Failed to load customers for schedules:', err));
+  }, [canManage]);
+
+  // Runs and edits from other tabs, or the scheduler itself, change next/last run
+  useServerEvent('schedule', () => {
+    loadSchedules();
+  });
+
+  const handleFormChange = (key: keyof ScheduleForm, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const payload = {
+      frequency: form.frequency,
+      time: form.frequency === 'cron' ? undefined : form.time,
+      dayOfWeek: form.frequency === 'weekly' ? Number(form.dayOfWeek) : undefined,
+      cron: form.frequency === 'cron' ? form.cron : undefined
+    };
+
+    try {
+      const response = editingId
+        ? await apiFetch(`/schedules/${editingId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload)
+        })
+        : await apiFetch('/schedules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...payload, customerId: form.customerId })
+        });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setFormError(result.error || 'Failed to save schedule');
+        return;
+      }
+
+      resetForm();
+      loadSchedules();
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePaused = async (schedule: Schedule) => {
+    const response = await apiFetch(`/schedules/${schedule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ paused: !schedule.paused })
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      window.alert(result.error || 'Failed to update schedule');
+    }
+    loadSchedules();
+  };
+
+  const deleteSchedule = async (schedule: Schedule) => {
+    if (!window.confirm(`Delete the ${describeCadence(schedule).toLowerCase()} schedule for ${schedule.customerName || schedule.customerId}?`)) {
+      return;
+    }
+    const response = await apiFetch(`/schedules/${schedule.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      window.alert(result.error || 'Failed to delete schedule');
+    }
+    if (editingId === schedule.id) {
+      resetForm();
+    }
+    loadSchedules();
+  };
+
+  const startEditing = (schedule: Schedule) => {
+    setEditingId(schedule.id);
+    setForm(toForm(schedule));
+    setFormError(null);
+  };
+
+  return (
+    <div className="schedules-page">
+      {canManage && (
+        <form className="schedule-form" onSubmit={handleSubmit}>
+          <h3>{editingId ? 'Edit schedule' : 'New schedule'}</h3>
+          <div className="schedule-form-fields">
+            <select
+              className="filter-select"
+              value={form.customerId}
+              onChange={(e) => handleFormChange('customerId', e.target.value)}
+              disabled={Boolean(editingId)}
+              required
+            >
+              <option value="">Choose a customer...</option>
+              {customers.map(customer => (
+                <option key={customer.id} value={String(customer.id)}>
+                  {customer.name} (#{customer.id})
+                </option>
+              ))}
+              {editingId && !customers.some(customer => String(customer.id) === form.customerId) && (
+                <option value={form.customerId}>#{form.customerId}</option>
+              )}
+            </select>
+            <select
+              className="filter-select"
+              value={form.frequency}
+              onChange={(e) => handleFormChange('frequency', e.target.value)}
+            >
+              <option value="daily">Nightly</option>
+              <option value="weekly">Weekly</option>
+              <option value="cron">Custom (cron)</option>
+            </select>
+            {form.frequency === 'weekly' && (
+              <select
+                className="filter-select"
+                value={form.dayOfWeek}
+                onChange={(e) => handleFormChange('dayOfWeek', e.target.value)}
+              >
+                {DAYS.map((day, index) => (
+                  <option key={day} value={String(index)}>{day}</option>
+                ))}
+              </select>
+            )}
+            {form.frequency === 'cron' ? (
+              <input
+                className="search-input"
+                placeholder="m h dom mon dow, e.g. 0 6 * * 1-5"
+                value={form.cron}
+                onChange={(e) => handleFormChange('cron', e.target.value)}
+                required
+              />
+            ) : (
+              <input
+                type="time"
+                className="search-input"
+                value={form.time}
+                onChange={(e) => handleFormChange('time', e.target.value)}
+                required
+              />
+            )}
+            <button type="submit" className="retry-button" disabled={saving}>
+              {saving ? 'Saving...' : editingId ? 'Save' : 'Add schedule'}
+            </button>
+            {editingId && (
+              <button type="button" className="secondary-button" onClick={resetForm}>
+                Cancel
+              </button>
+            )}
+          </div>
+          <span className="schedule-form-hint">Times are in the server's time zone.</span>
+          {formError && <span className="error-message">{formError}</span>}
+        </form>
+      )}
+
+      {loading ? (
+        <div className="loading-section">
+          <div className="loading-spinner"></div>
+          <span>Loading schedules...</span>
+        </div>
+      ) : error ? (
+        <div className="error-section">
+          <span className="error-message">{error}</span>
+          <button onClick={loadSchedules} className="retry-button">
+            Retry
+          </button>
+        </div>
+      ) : schedules.length === 0 ? (
+        <div className="no-data">No scheduled pulls yet</div>
+      ) : (
+        <div className="report-table-wrapper">
+          <table className="report-table">
+            <thead>
+              <tr>
+                <th>Customer</th>
+                <th>Cadence</th>
+                <th>Next run</th>
+                <th>Last run</th>
+                <th>Owner</th>
+                {canManage && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className={schedule.paused ? 'schedule-paused' : ''}>
+                  <td>{schedule.customerName || '—'} #{schedule.customerId}</td>
+                  <td>{describeCadence(schedule)}</td>
+                  <td>{schedule.paused ? 'Paused' : formatTimestamp(schedule.nextRunAt)}</td>
+                  <td>
+                    {formatTimestamp(schedule.lastRunAt)}
+                    {schedule.lastStatus === 'failed' && (
+                      <span className="schedule-last-error" title={schedule.lastError || undefined}> (failed)</span>
+                    )}
+                  </td>
+                  <td>{schedule.createdBy || '—'}</td>
+                  {canManage && (
+                    <td className="schedule-actions">
+                      <button className="secondary-button" onClick={() => togglePaused(schedule)}>
+                        {schedule.paused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button className="secondary-button" onClick={() => startEditing(schedule)}>
+                        Edit
+                      </button>
+                      <button className="secondary-button" onClick={() => deleteSchedule(schedule)}>
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulesPage;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { apiFetch } from '../api';
+import { useConfig } from '../hooks/useConfig';
+import { configLoader } from '../config/config-loader';
+import { APP_CONFIG_SCHEMA, APP_CONFIG_SECTION_LABELS, diffAppConfig } from '../../shared/app-config';
+import type { AppConfig, AppConfigSection, SettingSchema, SettingValue } from '../../shared/app-config';
+
+// Number inputs hold text while they are edited
+type DraftValue = SettingValue | string;
+type Draft = Record<AppConfigSection, Record<string, DraftValue>>;
+
+const SECTIONS = Object.keys(APP_CONFIG_SCHEMA) as AppConfigSection[];
+
+const toDraft = (config: AppConfig): Draft => structuredClone(config);
+
+// Text in a number input that isn't a number is sent as-is so the server can
+// say what's wrong with it
+const toConfig = (draft: Draft): Draft => {
+  const config = structuredClone(draft);
+  SECTIONS.forEach(section => {
+    Object.entries(APP_CONFIG_SCHEMA[section] as Record<string, SettingSchema>).forEach(([key, schema]) => {
+      const value = config[section][key];
+      if (schema.type === 'integer' && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        config[section][key] = Number(value);
+      }
+    });
+  });
+  return config;
+};
+
+const SettingsPage: React.FC = () => {
+  const { config, loading } = useConfig();
+  const [draft, setDraft] = useState<Draft>(() => toDraft(config));
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  // Settings saved in another tab, or the first load finishing, replace the
+  // form's contents
+  useEffect(() => {
+    setDraft(toDraft(config));
+  }, [config]);
+
+  const changedPaths = diffAppConfig(config, toConfig(draft));
+
+  const setValue = (section: AppConfigSection, key: string, value: DraftValue) => {
+    setDraft(prev => ({ ...prev, [section]: { ...prev[section], [key]: value } }));
+    setSaved(false);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setErrors([]);
+
+    const next = toConfig(draft);
+    const changes: Partial<Draft> = {};
+    changedPaths.forEach(path => {
+      const [section, key] = path.split('.') as [AppConfigSection, string];
+      changes[section] = { ...changes[section], [key]: next[section][key] };
+    });
+
+    try {
+      const response = await apiFetch('/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setErrors(result.errors || [result.error || 'Failed to save settings']);
+        return;
+      }
+
+      configLoader.setConfig(result.config);
+      setSaved(true);
+    } catch (err: unknown) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save settings']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderInput = (section: AppConfigSection, key: string, schema: SettingSchema) => {
+    const value = draft[section][key];
+    const id = `setting-${section}-${key}`;
+
+    switch (schema.type) {
+      case 'boolean':
+        return (
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(section, key, e.target.checked)}
+          />
+        );
+      case 'integer':
+        return (
+          <>
+            <input
+              id={id}
+              type="number"
+              className="search-input"
+              min={schema.min}
+              max={schema.max}
+              step={1}
+              value={String(value ?? '')}
+              onChange={(e) => setValue(section, key, e.target.value)}
+            />
+            {schema.unit && <span className="settings-unit">{schema.unit}</span>}
+          </>
+        );
+      case 'list': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div id={id} className="settings-options">
+            {schema.options.map(option => (
+              <label key={option} className="settings-option">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) => setValue(section, key, e.target.checked
+                    ? [...selected, option]
+                    : selected.filter(item => item !== option))}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="loading-section">
+        <div className="loading-spinner"></div>
+        <span>Loading settings...</span>
+      </div>
+    );
+  }
+
+  return (
+    <form className="settings-page" onSubmit={handleSubmit}>
+      {SECTIONS.map(section => (
+        <fieldset key={section} className="settings-section">
+          <legend>{APP_CONFIG_SECTION_LABELS[section]}</legend>
+          {Object.entries(APP_CONFIG_SCHEMA[section] as Record<string, SettingSchema>).map(([key, schema]) => (
+            <div key={key} className={`settings-field${changedPaths.includes(`${section}.${key}`) ? ' changed' : ''}`}>
+              <label htmlFor={`setting-${section}-${key}`} className="filter-label">{schema.label}</label>
+              <div className="settings-control">{renderInput(section, key, schema)}</div>
+              <span className="schedule-form-hint">{schema.description}</span>
+            </div>
+          ))}
+        </fieldset>
+      ))}
+
+      {errors.length > 0 && (
+        <ul className="settings-errors">
+          {errors.map(error => (
+            <li key={error} className="error-message">{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="settings-actions">
+        <button type="submit" className="retry-button" disabled={saving || changedPaths.length === 0}>
+          {saving ? 'Saving...' : 'Save settings'}
+        </button>
+        <button type="button" className="secondary-button" onClick={() => setDraft(toDraft(config))} disabled={changedPaths.length === 0}>
+          Discard changes
+        </button>
+        <button type="button" className="secondary-button" onClick={() => setDraft(toDraft(configLoader.getDefaults()))}>
+          Restore defaults
+        </button>
+        {saved && changedPaths.length === 0 && <span className="schedule-form-hint">Settings saved</span>}
+      </div>
+    </form>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,37 @@
+// Entries of GET /api/customers/:id/pulls
+
+export interface PullHistoryEntry {
+  jobId: string;
+  requestedAt: string;
+  requestedBy: string | null;
+  dbname: string;
+  state: string;
+  backupResult: unknown;
+  requestError: string | null;
+  error: string | null;
+  durationMs: number | null;
+  environmentStatus: string | null;
+  finishedAt: string | null;
+}
+
+export const PULL_STATE_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  requested: 'Requested',
+  restoring: 'Restoring',
+  ready: 'Ready',
+  failed: 'Failed',
+  timed_out: 'Timed out',
+  cancelled: 'Cancelled'
+};
+
+export const formatDuration = (durationMs: number | null): string => {
+  if (durationMs === null || durationMs < 0) {
+    return '—';
+  }
+
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
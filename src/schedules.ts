@@ -0,0 +1,32 @@
+// Recurring pull schedules as GET /api/schedules sends them
+
+export type Frequency = 'daily' | 'weekly' | 'cron';
+
+export interface Schedule {
+  id: string;
+  customerId: string | number;
+  customerName: string | null;
+  frequency: Frequency;
+  time: string | null;
+  dayOfWeek: number | null;
+  cron: string;
+  paused: boolean;
+  createdBy: string | null;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: 'queued' | 'failed' | null;
+  lastError: string | null;
+}
+
+export const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const describeCadence = (schedule: Schedule): string => {
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Nightly at ${schedule.time}`;
+    case 'weekly':
+      return `${DAYS[schedule.dayOfWeek ?? 0]}s at ${schedule.time}`;
+    default:
+      return `Cron: ${schedule.cron}`;
+  }
+};
@@ -0,0 +1,52 @@
+import { apiBaseUrl } from './api';
+
+export type ServerEventType = 'connected' | 'job' | 'environment' | 'pull' | 'schedule' | 'config' | 'alert';
+
+type ServerEventHandler = (data: unknown) => void;
+
+// One EventSource per tab, shared by every subscriber and closed again once
+// the last one goes away. EventSource reconnects on its own after a drop.
+const handlers = new Map<ServerEventType, Set<ServerEventHandler>>();
+let source: EventSource | null = null;
+
+const dispatch = (type: ServerEventType) => (event: MessageEvent) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(event.data);
+  } catch (error) {
+    console.error(`Ignoring malformed ${type} event:`, error);
+    return;
+  }
+  handlers.get(type)?.forEach(handler => handler(data));
+};
+
+const openSource = () => {
+  source = new EventSource(`${apiBaseUrl}/events`, { withCredentials: true });
+  (['connected', 'job', 'environment', 'pull', 'schedule', 'config', 'alert'] as ServerEventType[]).forEach(type => {
+    source!.addEventListener(type, dispatch(type) as EventListener);
+  });
+};
+
+const closeSourceIfUnused = () => {
+  const listenerCount = Array.from(handlers.values()).reduce((count, set) => count + set.size, 0);
+  if (listenerCount === 0 && source) {
+    source.close();
+    source = null;
+  }
+};
+
+export const subscribeToServerEvent = (type: ServerEventType, handler: ServerEventHandler): (() => void) => {
+  if (!handlers.has(type)) {
+    handlers.set(type, new Set());
+  }
+  handlers.get(type)!.add(handler);
+
+  if (!source) {
+    openSource();
+  }
+
+  return () => {
+    handlers.get(type)?.delete(handler);
+    closeSourceIfUnused();
+  };
+};
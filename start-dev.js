@@ -27,7 +27,7 @@ function log(prefix, message, color = colors.reset) {
 function startBackend() {
   log('BACKEND', 'Starting Node.js server...', colors.blue);
   
-  const backend = spawn('node', ['server.js'], {
+  const backend = spawn('node', ['--import', 'tsx', 'server/index.ts'], {
     cwd: __dirname,
     stdio: 'pipe',
     env: { ...process.env, NODE_ENV: 'development' }